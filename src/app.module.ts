@@ -4,14 +4,24 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScheduleModule } from '@nestjs/schedule';
 import configuration from './config/configuration';
 import { UsersModule } from './users/users.module';
+import { OccasionsModule } from './occasions/occasions.module';
 import { BirthdayModule } from './birthday/birthday.module';
 import { QueueModule } from './queue/queue.module';
 import { EmailModule } from './email/email.module';
+import { TemplatesModule } from './templates/templates.module';
+import { NotificationsModule } from './notifications/notifications.module';
 import { RecoveryModule } from './recovery/recovery.module';
+import { DlqModule } from './dlq/dlq.module';
 import { RedisModule } from './redis/redis.module';
+import { RabbitMqModule } from './rabbitmq/rabbitmq.module';
 import { HealthModule } from './health/health.module';
 import { User } from './users/entities/user.entity';
 import { BirthdayMessage } from './birthday/entities/birthday-message.entity';
+import { Occasion } from './occasions/entities/occasion.entity';
+import { DlqAuditEntry } from './dlq/entities/dlq-audit-entry.entity';
+import { OutboxEntry } from './outbox/entities/outbox-entry.entity';
+import { MessageTemplate } from './templates/entities/message-template.entity';
+import { MessageTemplateVersion } from './templates/entities/message-template-version.entity';
 
 @Module({
   imports: [
@@ -32,7 +42,15 @@ import { BirthdayMessage } from './birthday/entities/birthday-message.entity';
         username: configService.get<string>('database.username'),
         password: configService.get<string>('database.password'),
         database: configService.get<string>('database.name'),
-        entities: [User, BirthdayMessage],
+        entities: [
+          User,
+          BirthdayMessage,
+          Occasion,
+          DlqAuditEntry,
+          OutboxEntry,
+          MessageTemplate,
+          MessageTemplateVersion,
+        ],
         synchronize: configService.get<string>('nodeEnv') === 'development', // Only in dev
         logging: configService.get<string>('nodeEnv') === 'development',
       }),
@@ -43,12 +61,17 @@ import { BirthdayMessage } from './birthday/entities/birthday-message.entity';
 
     // Application modules
     RedisModule,
+    RabbitMqModule,
     HealthModule,
     UsersModule,
+    OccasionsModule,
     EmailModule,
+    TemplatesModule,
+    NotificationsModule,
     BirthdayModule,
     QueueModule,
     RecoveryModule,
+    DlqModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,409 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BirthdaySchedulerService } from './birthday-scheduler.service';
+import { BirthdayService } from './birthday.service';
+import { MessageTimingService } from './message-timing.service';
+import { OccasionsService } from '../occasions/occasions.service';
+import { LockService } from '../redis/lock.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+  MessageType,
+} from './entities/birthday-message.entity';
+import {
+  Occasion,
+  OccasionRecurrence,
+} from '../occasions/entities/occasion.entity';
+import { LeapDayPolicy } from '../occasions/leap-day';
+import { User } from '../users/entities/user.entity';
+
+describe('BirthdaySchedulerService', () => {
+  let service: BirthdaySchedulerService;
+  let birthdayService: jest.Mocked<BirthdayService>;
+  let occasionsService: jest.Mocked<OccasionsService>;
+  let lockService: jest.Mocked<LockService>;
+
+  const config: Record<string, unknown> = {
+    'scheduler.defaultSendTime': '09:00',
+    'scheduler.planningHorizonDays': 2,
+    'scheduler.catchUpLookbackHours': 24,
+    'scheduler.leapDayPolicy': LeapDayPolicy.FEB_28,
+    'scheduler.dispatchBatchSize': 2,
+  };
+
+  const createUser = (overrides: Partial<User> = {}): User =>
+    ({
+      id: 'user-123',
+      firstName: 'John',
+      lastName: 'Doe',
+      email: 'john@example.com',
+      timezone: 'America/New_York',
+      sendTime: null,
+      leapDayPolicy: null,
+      ...overrides,
+    }) as User;
+
+  const createOccasion = (user: User): Occasion =>
+    ({
+      id: `occasion-${user.id}`,
+      userId: user.id,
+      user,
+      kind: MessageType.BIRTHDAY,
+      date: '1990-07-26',
+      month: 7,
+      day: 26,
+      recurrence: OccasionRecurrence.YEARLY,
+    }) as Occasion;
+
+  const createMessage = (id: string): BirthdayMessage =>
+    ({
+      id,
+      userId: 'user-123',
+      user: createUser(),
+      status: MessageStatus.PENDING,
+      messageType: MessageType.BIRTHDAY,
+    }) as BirthdayMessage;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BirthdaySchedulerService,
+        MessageTimingService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: OccasionsService,
+          useValue: { findDueOn: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: BirthdayService,
+          useValue: {
+            planMessage: jest.fn(),
+            removeStalePendingMessages: jest.fn().mockResolvedValue(0),
+            getPendingMessagesToQueue: jest.fn(),
+            expireOverdueMessages: jest.fn().mockResolvedValue(0),
+            queueMessages: jest.fn().mockResolvedValue([]),
+            markAsCancelled: jest.fn(),
+          },
+        },
+        {
+          provide: LockService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BirthdaySchedulerService>(BirthdaySchedulerService);
+    birthdayService = module.get(BirthdayService);
+    occasionsService = module.get(OccasionsService);
+    lockService = module.get(LockService);
+
+    jest.useFakeTimers({ now: new Date('2024-07-25T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe('planUpcomingMessages', () => {
+    const mockOccasionsOn = (date: string, occasions: Occasion[]) => {
+      occasionsService.findDueOn.mockImplementation((day: string) =>
+        Promise.resolve(day === date ? occasions : []),
+      );
+    };
+
+    it('should skip if lock cannot be acquired', async () => {
+      lockService.acquireLock.mockResolvedValue(false);
+
+      await service.planUpcomingMessages();
+
+      expect(occasionsService.findDueOn).not.toHaveBeenCalled();
+    });
+
+    it('should scan every local date that can fall within the horizon', async () => {
+      await service.planUpcomingMessages();
+
+      const dates = occasionsService.findDueOn.mock.calls.map(([d]) => d);
+      expect(dates).toEqual([
+        '2024-07-23',
+        '2024-07-24',
+        '2024-07-25',
+        '2024-07-26',
+        '2024-07-27',
+        '2024-07-28',
+      ]);
+    });
+
+    it("should plan messages at the user's send time in their timezone", async () => {
+      const user = createUser({ sendTime: '08:30' });
+      mockOccasionsOn('2024-07-26', [createOccasion(user)]);
+      birthdayService.planMessage.mockResolvedValue(createMessage('msg-1'));
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).toHaveBeenCalledWith(
+        user,
+        new Date('2024-07-26T12:30:00Z'),
+        MessageType.BIRTHDAY,
+        '2024-07-26',
+        'occasion-user-123',
+      );
+      expect(birthdayService.removeStalePendingMessages).toHaveBeenCalledWith(
+        new Date('2024-07-25T12:00:00Z'),
+        new Date('2024-07-27T12:00:00Z'),
+        ['msg-1'],
+      );
+    });
+
+    it('should not plan messages for opted-out users', async () => {
+      mockOccasionsOn('2024-07-26', [
+        createOccasion(createUser({ optedOut: true })),
+        createOccasion(
+          createUser({
+            id: 'user-456',
+            subscriptions: { [MessageType.BIRTHDAY]: false },
+          }),
+        ),
+      ]);
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).not.toHaveBeenCalled();
+      expect(birthdayService.removeStalePendingMessages).toHaveBeenCalledWith(
+        new Date('2024-07-25T12:00:00Z'),
+        new Date('2024-07-27T12:00:00Z'),
+        [],
+      );
+    });
+
+    it('should use the default send time when the user has none', async () => {
+      const user = createUser({ timezone: 'Asia/Jakarta' });
+      mockOccasionsOn('2024-07-26', [createOccasion(user)]);
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).toHaveBeenCalledWith(
+        user,
+        new Date('2024-07-26T02:00:00Z'), // 9 AM in Jakarta (UTC+7)
+        MessageType.BIRTHDAY,
+        '2024-07-26',
+        'occasion-user-123',
+      );
+    });
+
+    it('should catch up on messages missed within the lookback', async () => {
+      // 9 AM on Jul 25 in Jakarta passed at 02:00 UTC, but the day is not over there
+      const user = createUser({ timezone: 'Asia/Jakarta' });
+      mockOccasionsOn('2024-07-25', [createOccasion(user)]);
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).toHaveBeenCalledWith(
+        user,
+        new Date('2024-07-25T02:00:00Z'),
+        MessageType.BIRTHDAY,
+        '2024-07-25',
+        'occasion-user-123',
+      );
+    });
+
+    it('should not catch up once the occasion day has ended', async () => {
+      // Jul 25 ended in Auckland (UTC+12) at 12:00 UTC
+      const user = createUser({ timezone: 'Pacific/Auckland' });
+      mockOccasionsOn('2024-07-25', [createOccasion(user)]);
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).not.toHaveBeenCalled();
+    });
+
+    describe('leap-day occasions', () => {
+      const createLeapDayOccasion = (user: User): Occasion => ({
+        ...createOccasion(user),
+        date: '1992-02-29',
+        month: 2,
+        day: 29,
+      });
+
+      it('should celebrate on Feb 28 of common years by default', async () => {
+        jest.setSystemTime(new Date('2025-02-27T12:00:00Z'));
+        const user = createUser();
+        occasionsService.findDueOn.mockImplementation((day: string) =>
+          Promise.resolve(
+            day === '2025-02-28' || day === '2025-03-01'
+              ? [createLeapDayOccasion(user)]
+              : [],
+          ),
+        );
+
+        await service.planUpcomingMessages();
+
+        expect(birthdayService.planMessage).toHaveBeenCalledTimes(1);
+        expect(birthdayService.planMessage).toHaveBeenCalledWith(
+          user,
+          new Date('2025-02-28T14:00:00Z'),
+          MessageType.BIRTHDAY,
+          '2025-02-28',
+          'occasion-user-123',
+        );
+      });
+
+      it("should apply the user's leap-day policy", async () => {
+        jest.setSystemTime(new Date('2025-02-28T12:00:00Z'));
+        const user = createUser({ leapDayPolicy: LeapDayPolicy.MAR_1 });
+        occasionsService.findDueOn.mockImplementation((day: string) =>
+          Promise.resolve(
+            day === '2025-02-28' || day === '2025-03-01'
+              ? [createLeapDayOccasion(user)]
+              : [],
+          ),
+        );
+
+        await service.planUpcomingMessages();
+
+        expect(birthdayService.planMessage).toHaveBeenCalledTimes(1);
+        expect(birthdayService.planMessage).toHaveBeenCalledWith(
+          user,
+          new Date('2025-03-01T14:00:00Z'),
+          MessageType.BIRTHDAY,
+          '2025-03-01',
+          'occasion-user-123',
+        );
+      });
+
+      it('should skip common years when the policy says so', async () => {
+        jest.setSystemTime(new Date('2025-02-27T12:00:00Z'));
+        const user = createUser({ leapDayPolicy: LeapDayPolicy.SKIP });
+        occasionsService.findDueOn.mockImplementation((day: string) =>
+          Promise.resolve(
+            day === '2025-02-28' || day === '2025-03-01'
+              ? [createLeapDayOccasion(user)]
+              : [],
+          ),
+        );
+
+        await service.planUpcomingMessages();
+
+        expect(birthdayService.planMessage).not.toHaveBeenCalled();
+      });
+
+      it('should celebrate on Feb 29 in leap years', async () => {
+        jest.setSystemTime(new Date('2024-02-28T12:00:00Z'));
+        const user = createUser({ leapDayPolicy: LeapDayPolicy.SKIP });
+        mockOccasionsOn('2024-02-29', [createLeapDayOccasion(user)]);
+
+        await service.planUpcomingMessages();
+
+        expect(birthdayService.planMessage).toHaveBeenCalledWith(
+          user,
+          new Date('2024-02-29T14:00:00Z'),
+          MessageType.BIRTHDAY,
+          '2024-02-29',
+          'occasion-user-123',
+        );
+      });
+    });
+
+    it('should not plan messages outside of the window', async () => {
+      // 9 AM on Jul 23 in Jakarta is before the lookback, 9 AM on Jul 28 is too far ahead
+      const user = createUser({ timezone: 'Asia/Jakarta' });
+      occasionsService.findDueOn.mockImplementation((day: string) =>
+        Promise.resolve(
+          day === '2024-07-23' || day === '2024-07-28'
+            ? [createOccasion(user)]
+            : [],
+        ),
+      );
+
+      await service.planUpcomingMessages();
+
+      expect(birthdayService.planMessage).not.toHaveBeenCalled();
+      expect(lockService.releaseLock).toHaveBeenCalledWith(
+        'birthday-planner-lock',
+      );
+    });
+  });
+
+  describe('dispatchDueMessages', () => {
+    it('should skip if lock cannot be acquired', async () => {
+      lockService.acquireLock.mockResolvedValue(false);
+
+      await service.dispatchDueMessages();
+
+      expect(birthdayService.getPendingMessagesToQueue).not.toHaveBeenCalled();
+    });
+
+    it('should expire overdue messages before queueing', async () => {
+      birthdayService.getPendingMessagesToQueue.mockResolvedValue([]);
+
+      await service.dispatchDueMessages();
+
+      expect(birthdayService.expireOverdueMessages).toHaveBeenCalled();
+      expect(birthdayService.queueMessages).toHaveBeenCalledWith([]);
+    });
+
+    it('should queue due messages until no full batch remains', async () => {
+      birthdayService.getPendingMessagesToQueue
+        .mockResolvedValueOnce([createMessage('msg-1'), createMessage('msg-2')])
+        .mockResolvedValueOnce([createMessage('msg-3')]);
+
+      await service.dispatchDueMessages();
+
+      expect(birthdayService.getPendingMessagesToQueue).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(birthdayService.queueMessages).toHaveBeenCalledTimes(2);
+      expect(birthdayService.queueMessages).toHaveBeenLastCalledWith([
+        expect.objectContaining({ id: 'msg-3' }),
+      ]);
+      expect(lockService.releaseLock).toHaveBeenCalledWith(
+        'birthday-dispatcher-lock',
+      );
+    });
+
+    it('should cancel due messages of users who opted out since planning', async () => {
+      birthdayService.getPendingMessagesToQueue
+        .mockResolvedValueOnce([
+          createMessage('msg-1'),
+          {
+            ...createMessage('msg-2'),
+            user: createUser({ optedOut: true }),
+          } as BirthdayMessage,
+        ])
+        .mockResolvedValueOnce([]);
+
+      await service.dispatchDueMessages();
+
+      expect(birthdayService.markAsCancelled).toHaveBeenCalledTimes(1);
+      expect(birthdayService.markAsCancelled).toHaveBeenCalledWith('msg-2');
+      expect(birthdayService.queueMessages).toHaveBeenNthCalledWith(1, [
+        expect.objectContaining({ id: 'msg-1' }),
+      ]);
+    });
+
+    it('should stop and release the lock when queueing fails', async () => {
+      birthdayService.getPendingMessagesToQueue.mockResolvedValue([
+        createMessage('msg-1'),
+        createMessage('msg-2'),
+      ]);
+      birthdayService.queueMessages.mockRejectedValue(
+        new Error('Connection terminated'),
+      );
+
+      await service.dispatchDueMessages();
+
+      expect(birthdayService.getPendingMessagesToQueue).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(lockService.releaseLock).toHaveBeenCalledWith(
+        'birthday-dispatcher-lock',
+      );
+    });
+  });
+});
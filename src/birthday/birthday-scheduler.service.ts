@@ -1,86 +1,103 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import * as moment from 'moment-timezone';
-import { UsersService } from '../users/users.service';
-import { BirthdayService } from './birthday.service';
-import { BirthdayProducerService } from '../queue/birthday-producer.service';
+import { OccasionsService } from '../occasions/occasions.service';
+import { BirthdayService, getExpiresAt } from './birthday.service';
+import { MessageTimingService } from './message-timing.service';
 import { LockService } from '../redis/lock.service';
-import { User } from '../users/entities/user.entity';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { isObservedOn } from '../occasions/leap-day';
+import { BirthdayMessage } from './entities/birthday-message.entity';
+import { isSubscribed } from '../users/subscriptions';
 
 @Injectable()
-export class BirthdaySchedulerService {
+export class BirthdaySchedulerService implements OnApplicationBootstrap {
   private readonly logger = new Logger(BirthdaySchedulerService.name);
 
   constructor(
-    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly occasionsService: OccasionsService,
     private readonly birthdayService: BirthdayService,
-    private readonly birthdayProducer: BirthdayProducerService,
     private readonly lockService: LockService,
+    private readonly messageTiming: MessageTimingService,
   ) {}
 
   /**
-   * Cron job running every minute to check for birthdays
-   * Finds users where it's currently 9:00 AM in their timezone
+   * Catch up on startup instead of waiting for the next planner run, so
+   * messages missed while the service was down go out as soon as possible
    */
-  @Cron(CronExpression.EVERY_MINUTE)
-  async checkBirthdays(): Promise<void> {
-    const lockKey = 'birthday-scheduler-lock';
-    const lockAcquired = await this.lockService.acquireLock(lockKey, 55); // 55 seconds TTL
+  onApplicationBootstrap(): void {
+    void this.planUpcomingMessages().then(() => this.dispatchDueMessages());
+  }
+
+  /**
+   * Planner job running every 15 minutes
+   * Materializes messages for all occasions within the planning horizon with the
+   * exact UTC instant they should be sent (the user's send time in their timezone)
+   * Also creates messages whose send time passed within the catch-up lookback
+   * while no instance was running, unless their occasion day has already ended
+   */
+  @Cron('*/15 * * * *') // Every 15 minutes
+  async planUpcomingMessages(): Promise<void> {
+    const lockKey = 'birthday-planner-lock';
+    const lockAcquired = await this.lockService.acquireLock(lockKey, 600); // 10 min TTL
 
     if (!lockAcquired) {
-      this.logger.debug('Another instance is already running the scheduler');
+      this.logger.debug('Another instance is already running the planner');
       return;
     }
 
     try {
-      this.logger.debug('Running birthday check...');
-
-      // Get current UTC time
-      const nowUtc = moment.utc();
-
-      // TEST_MODE: Use current time instead of 9 AM for testing
-      const isTestMode = process.env.TEST_MODE === 'true';
-      let targetHour = 9;
-      let targetMinute = 0;
-
-      if (isTestMode) {
-        // Use current time for testing (in local timezone)
-        const nowLocal = moment.tz(moment.tz.guess());
-        targetHour = nowLocal.hour();
-        targetMinute = nowLocal.minute();
-        this.logger.log(
-          `🧪 TEST MODE: Looking for timezones at ${targetHour}:${String(targetMinute).padStart(2, '0')}`,
+      this.logger.debug('Planning upcoming messages...');
+
+      const horizonDays =
+        this.configService.get<number>('scheduler.planningHorizonDays') ?? 2;
+      const lookbackHours =
+        this.configService.get<number>('scheduler.catchUpLookbackHours') ?? 24;
+      const now = moment.utc().startOf('minute');
+      const windowStart = now.clone().subtract(lookbackHours, 'hours');
+      const windowEnd = now.clone().add(horizonDays, 'days');
+
+      // Local dates that fall within the window somewhere between UTC-12 and UTC+14
+      const plannedIds: string[] = [];
+      const date = windowStart.clone().subtract(1, 'day');
+      while (!date.isAfter(windowEnd.clone().add(1, 'day'), 'day')) {
+        const occasions = await this.occasionsService.findDueOn(
+          date.format('YYYY-MM-DD'),
         );
-      }
-
-      // Find all timezones where it's currently the target hour:minute
-      const timezonesAt9AM = this.getTimezonesAtTime(
-        nowUtc,
-        targetHour,
-        targetMinute,
-      );
 
-      if (timezonesAt9AM.length === 0) {
-        this.logger.debug(
-          `No timezones at ${targetHour}:${String(targetMinute).padStart(2, '0')} right now`,
-        );
-        return;
+        for (const occasion of occasions) {
+          const messageId = await this.planOccasion(
+            occasion,
+            date.format('YYYY-MM-DD'),
+            windowStart,
+            windowEnd,
+          );
+          if (messageId) {
+            plannedIds.push(messageId);
+          }
+        }
+
+        date.add(1, 'day');
       }
 
-      this.logger.debug(
-        `Found ${timezonesAt9AM.length} timezone(s) at 9:00 AM: ${timezonesAt9AM.join(', ')}`,
+      // Drop upcoming pending messages whose occasion, date or user no longer matches
+      const removed = await this.birthdayService.removeStalePendingMessages(
+        now.toDate(),
+        windowEnd.toDate(),
+        plannedIds,
       );
 
-      // Get today's date in each timezone and find users with birthdays
-      for (const timezone of timezonesAt9AM) {
-        await this.processBirthdaysForTimezone(timezone);
-      }
+      this.logger.log(
+        `Planned ${plannedIds.length} message(s) until ${windowEnd.toISOString()}, removed ${removed} stale message(s)`,
+      );
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       const errorStack = error instanceof Error ? error.stack : undefined;
       this.logger.error(
-        `Error in birthday scheduler: ${errorMessage}`,
+        `Error in message planner: ${errorMessage}`,
         errorStack,
       );
     } finally {
@@ -89,116 +106,111 @@ export class BirthdaySchedulerService {
   }
 
   /**
-   * Process birthdays for a specific timezone
+   * Dispatcher job running every minute
+   * Queues every pending message whose scheduled time has passed, which also
+   * catches up on anything missed while no instance was running
    */
-  private async processBirthdaysForTimezone(timezone: string): Promise<void> {
-    try {
-      const nowInTimezone = moment.tz(timezone);
-      const month = nowInTimezone.month() + 1; // moment months are 0-indexed
-      const day = nowInTimezone.date();
-
-      this.logger.debug(
-        `Checking birthdays for ${timezone} on ${month}/${day}`,
-      );
+  @Cron(CronExpression.EVERY_MINUTE)
+  async dispatchDueMessages(): Promise<void> {
+    const lockKey = 'birthday-dispatcher-lock';
+    const lockAcquired = await this.lockService.acquireLock(lockKey, 55); // 55 seconds TTL
 
-      // Find users with birthdays today in this timezone
-      const users = await this.usersService.findUsersWithBirthdayInTimezones(
-        month,
-        day,
-        [timezone],
-      );
+    if (!lockAcquired) {
+      this.logger.debug('Another instance is already running the dispatcher');
+      return;
+    }
 
-      this.logger.log(
-        `Found ${users.length} user(s) with birthday in ${timezone}`,
-      );
+    try {
+      const batchSize =
+        this.configService.get<number>('scheduler.dispatchBatchSize') ?? 500;
 
-      for (const user of users) {
-        await this.createAndQueueBirthdayMessage(user, timezone);
+      // Never send a greeting once its occasion day is over
+      const expired = await this.birthdayService.expireOverdueMessages();
+      if (expired > 0) {
+        this.logger.warn(`Expired ${expired} message(s) that are too late`);
       }
+
+      let dueMessages: BirthdayMessage[];
+      do {
+        dueMessages =
+          await this.birthdayService.getPendingMessagesToQueue(batchSize);
+
+        // Users may have opted out after their messages were planned
+        const optedOut = dueMessages.filter(
+          (message) =>
+            message.user && !isSubscribed(message.user, message.messageType),
+        );
+        for (const message of optedOut) {
+          await this.birthdayService.markAsCancelled(message.id);
+        }
+        if (optedOut.length > 0) {
+          this.logger.log(
+            `Cancelled ${optedOut.length} message(s) of opted-out users`,
+          );
+        }
+
+        // Queued together with their outbox entries, which the relay publishes
+        const toQueue = dueMessages.filter(
+          (message) => !optedOut.includes(message),
+        );
+        const queued = await this.birthdayService.queueMessages(toQueue);
+        if (queued.length > 0) {
+          this.logger.log(`Queued ${queued.length} due message(s)`);
+        }
+      } while (dueMessages.length === batchSize);
     } catch (error: unknown) {
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
       this.logger.error(
-        `Error processing birthdays for ${timezone}: ${errorMessage}`,
+        `Error in message dispatcher: ${errorMessage}`,
+        errorStack,
       );
+    } finally {
+      await this.lockService.releaseLock(lockKey);
     }
   }
 
   /**
-   * Create a birthday message and queue it for sending
+   * Plan the message for an occasion on a local date if the user is subscribed
+   * to its type, it is observed on that date (see the leap-day policy), its send
+   * time falls within the planning window and the occasion day has not ended yet
+   * @returns the ID of the planned message, or null if not planned
    */
-  private async createAndQueueBirthdayMessage(
-    user: User,
-    timezone: string,
-  ): Promise<void> {
-    // Acquire a lock for this specific user to prevent duplicate processing
-    const userLockKey = `birthday-user-${user.id}-${new Date().getFullYear()}`;
-    const userLockAcquired = await this.lockService.acquireLock(
-      userLockKey,
-      300,
-    ); // 5 min TTL
-
-    if (!userLockAcquired) {
-      this.logger.debug(
-        `Lock not acquired for user ${user.id}, likely already processing`,
-      );
-      return;
+  private async planOccasion(
+    occasion: Occasion,
+    occasionDate: string,
+    windowStart: moment.Moment,
+    windowEnd: moment.Moment,
+  ): Promise<string | null> {
+    const { user, kind: messageType } = occasion;
+    if (!isSubscribed(user, messageType)) {
+      return null; // Pending messages planned before the opt-out are removed as stale
     }
 
-    try {
-      // Calculate the scheduled time (9 AM in user's timezone)
-      const scheduledFor = moment
-        .tz(timezone)
-        .hour(9)
-        .minute(0)
-        .second(0)
-        .toDate();
-
-      // Create the birthday message record
-      const message = await this.birthdayService.createBirthdayMessage(
-        user,
-        scheduledFor,
-      );
+    const leapDayPolicy = this.messageTiming.getLeapDayPolicy(user);
+    if (!isObservedOn(occasion, occasionDate, leapDayPolicy)) {
+      return null;
+    }
 
-      if (message) {
-        // Queue the message for sending
-        await this.birthdayProducer.publishBirthdayMessage({
-          messageId: message.id,
-          userId: user.id,
-          email: user.email,
-          fullName: `${user.firstName} ${user.lastName}`,
-        });
-
-        await this.birthdayService.markAsQueued(message.id);
-        this.logger.log(`Queued birthday message for user ${user.id}`);
-      }
-    } finally {
-      // Keep the lock to prevent duplicate processing within the same minute
-      // It will auto-expire after 5 minutes
+    const scheduledFor = this.messageTiming.getScheduledFor(occasionDate, user);
+
+    if (scheduledFor.isBefore(windowStart) || scheduledFor.isAfter(windowEnd)) {
+      return null;
     }
-  }
 
-  /**
-   * Get all IANA timezones where it's currently the target hour:minute
-   */
-  private getTimezonesAtTime(
-    utcMoment: moment.Moment,
-    targetHour: number,
-    targetMinute: number,
-  ): string[] {
-    const allTimezones = moment.tz.names();
-    const matchingTimezones: string[] = [];
-
-    for (const tz of allTimezones) {
-      const timeInTz = utcMoment.clone().tz(tz);
-      if (
-        timeInTz.hour() === targetHour &&
-        timeInTz.minute() === targetMinute
-      ) {
-        matchingTimezones.push(tz);
-      }
+    if (!moment.utc().isBefore(getExpiresAt(occasionDate, user.timezone))) {
+      return null; // Too late to send
     }
 
-    return matchingTimezones;
+    const message = await this.birthdayService.planMessage(
+      user,
+      scheduledFor.toDate(),
+      messageType,
+      occasionDate,
+      occasion.id,
+    );
+
+    return message?.id ?? null;
   }
 }
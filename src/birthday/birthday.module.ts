@@ -1,20 +1,34 @@
-import { Module, forwardRef } from '@nestjs/common';
+import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BirthdayService } from './birthday.service';
 import { BirthdaySchedulerService } from './birthday-scheduler.service';
+import { MessageTimingService } from './message-timing.service';
+import { MessageAdminService } from './message-admin.service';
+import { UpcomingBirthdaysService } from './upcoming-birthdays.service';
+import { BirthdaysController } from './birthdays.controller';
+import { MessagesController } from './messages.controller';
 import { BirthdayMessage } from './entities/birthday-message.entity';
-import { UsersModule } from '../users/users.module';
-import { QueueModule } from '../queue/queue.module';
+import { OccasionsModule } from '../occasions/occasions.module';
+import { OutboxModule } from '../outbox/outbox.module';
 import { RedisModule } from '../redis/redis.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([BirthdayMessage]),
-    UsersModule,
-    forwardRef(() => QueueModule),
+    OccasionsModule,
+    OutboxModule,
     RedisModule,
+    UsersModule,
+  ],
+  controllers: [BirthdaysController, MessagesController],
+  providers: [
+    BirthdayService,
+    BirthdaySchedulerService,
+    MessageTimingService,
+    MessageAdminService,
+    UpcomingBirthdaysService,
   ],
-  providers: [BirthdayService, BirthdaySchedulerService],
-  exports: [BirthdayService],
+  exports: [BirthdayService, MessageAdminService],
 })
 export class BirthdayModule {}
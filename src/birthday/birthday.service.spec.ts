@@ -4,8 +4,13 @@ import { BirthdayService } from './birthday.service';
 import {
   BirthdayMessage,
   MessageStatus,
+  MessageType,
 } from './entities/birthday-message.entity';
 import { User } from '../users/entities/user.entity';
+import { BadRequestException } from '@nestjs/common';
+import { decodeCursor, encodeCursor } from '../common/pagination';
+import { OutboxService } from '../outbox/outbox.service';
+import { In, LessThan, Not } from 'typeorm';
 
 describe('BirthdayService', () => {
   let service: BirthdayService;
@@ -22,8 +27,9 @@ describe('BirthdayService', () => {
     id: 'message-123',
     userId: mockUser.id,
     year: 2024,
+    occasionDate: '2024-05-15',
     status: MessageStatus.PENDING,
-    scheduledFor: new Date('2024-05-15T09:00:00'),
+    scheduledFor: new Date('2024-05-15T13:00:00Z'),
     attempts: 0,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -37,6 +43,13 @@ describe('BirthdayService', () => {
     update: jest.fn(),
     increment: jest.fn(),
     createQueryBuilder: jest.fn(),
+    manager: {
+      transaction: jest.fn(),
+    },
+  };
+
+  const mockOutboxService = {
+    add: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -47,6 +60,10 @@ describe('BirthdayService', () => {
           provide: getRepositoryToken(BirthdayMessage),
           useValue: mockRepository,
         },
+        {
+          provide: OutboxService,
+          useValue: mockOutboxService,
+        },
       ],
     }).compile();
 
@@ -59,7 +76,7 @@ describe('BirthdayService', () => {
 
   describe('createBirthdayMessage', () => {
     it('should create a new birthday message', async () => {
-      const scheduledFor = new Date('2024-05-15T09:00:00');
+      const scheduledFor = new Date('2024-05-15T13:00:00Z'); // 9 AM in New York
       mockRepository.findOne.mockResolvedValue(null);
       mockRepository.create.mockReturnValue(mockMessage);
       mockRepository.save.mockResolvedValue(mockMessage);
@@ -73,8 +90,80 @@ describe('BirthdayService', () => {
       expect(mockRepository.create).toHaveBeenCalledWith({
         userId: mockUser.id,
         year: 2024,
+        occasionDate: '2024-05-15',
+        scheduledFor,
+        expiresAt: new Date('2024-05-16T04:00:00Z'), // Midnight in New York
+        status: MessageStatus.PENDING,
+        messageType: MessageType.BIRTHDAY,
+        occasionId: null,
+      });
+    });
+
+    it('should link the message to a custom occasion', async () => {
+      const scheduledFor = new Date('2024-07-26T13:00:00Z');
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockMessage);
+      mockRepository.save.mockResolvedValue(mockMessage);
+
+      await service.createBirthdayMessage(
+        mockUser as User,
+        scheduledFor,
+        'name-day',
+        '2024-07-26',
+        'occasion-123',
+      );
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messageType: 'name-day',
+          occasionId: 'occasion-123',
+        }),
+      );
+    });
+
+    it("should derive the occasion date from the user's timezone", async () => {
+      // 02:00 UTC on Jan 1 is still Dec 31 in New York
+      const scheduledFor = new Date('2025-01-01T02:00:00Z');
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockMessage);
+      mockRepository.save.mockResolvedValue(mockMessage);
+
+      await service.createBirthdayMessage(mockUser as User, scheduledFor);
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ year: 2024, occasionDate: '2024-12-31' }),
+      );
+    });
+
+    it('should create an anniversary message with the given type', async () => {
+      const scheduledFor = new Date('2024-03-01T14:00:00Z');
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockMessage);
+      mockRepository.save.mockResolvedValue(mockMessage);
+
+      await service.createBirthdayMessage(
+        mockUser as User,
+        scheduledFor,
+        MessageType.ANNIVERSARY,
+        '2024-03-01',
+      );
+
+      expect(mockRepository.findOne).toHaveBeenCalledWith({
+        where: {
+          userId: mockUser.id,
+          messageType: MessageType.ANNIVERSARY,
+          occasionDate: '2024-03-01',
+        },
+      });
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId: mockUser.id,
+        year: 2024,
+        occasionDate: '2024-03-01',
         scheduledFor,
+        expiresAt: new Date('2024-03-02T05:00:00Z'),
         status: MessageStatus.PENDING,
+        messageType: MessageType.ANNIVERSARY,
+        occasionId: null,
       });
     });
 
@@ -83,7 +172,7 @@ describe('BirthdayService', () => {
 
       const result = await service.createBirthdayMessage(
         mockUser as User,
-        new Date('2024-05-15T09:00:00'),
+        new Date('2024-05-15T13:00:00Z'),
       );
 
       expect(result).toBeNull();
@@ -96,20 +185,264 @@ describe('BirthdayService', () => {
 
       const result = await service.createBirthdayMessage(
         mockUser as User,
-        new Date('2024-05-15T09:00:00'),
+        new Date('2024-05-15T13:00:00Z'),
       );
 
       expect(result).toBeNull();
     });
   });
 
-  describe('markAsQueued', () => {
-    it('should update message status to queued', async () => {
-      await service.markAsQueued('message-123');
+  describe('planMessage', () => {
+    it('should create the message if it does not exist yet', async () => {
+      const scheduledFor = new Date('2024-05-15T13:00:00Z');
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockMessage);
+      mockRepository.save.mockResolvedValue(mockMessage);
+
+      const result = await service.planMessage(
+        mockUser as User,
+        scheduledFor,
+        MessageType.BIRTHDAY,
+        '2024-05-15',
+        'occasion-123',
+      );
+
+      expect(result).toEqual(mockMessage);
+      expect(mockRepository.save).toHaveBeenCalled();
+    });
 
+    it('should reschedule a pending message whose send time moved', async () => {
+      const scheduledFor = new Date('2024-05-15T12:30:00Z');
+      mockRepository.findOne.mockResolvedValue({ ...mockMessage });
+
+      const result = await service.planMessage(
+        mockUser as User,
+        scheduledFor,
+        MessageType.BIRTHDAY,
+        '2024-05-15',
+        'occasion-123',
+      );
+
+      expect(result?.scheduledFor).toEqual(scheduledFor);
       expect(mockRepository.update).toHaveBeenCalledWith('message-123', {
+        scheduledFor,
+        expiresAt: new Date('2024-05-16T04:00:00Z'),
+      });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should not reschedule messages that were already queued', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...mockMessage,
         status: MessageStatus.QUEUED,
       });
+
+      await service.planMessage(
+        mockUser as User,
+        new Date('2024-05-15T12:30:00Z'),
+        MessageType.BIRTHDAY,
+        '2024-05-15',
+        'occasion-123',
+      );
+
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeStalePendingMessages', () => {
+    it('should delete pending messages in the window that were not planned', async () => {
+      const queryBuilder = {
+        delete: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: 2 }),
+      };
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.removeStalePendingMessages(
+        new Date('2024-05-14T00:00:00Z'),
+        new Date('2024-05-16T00:00:00Z'),
+        ['message-123'],
+      );
+
+      expect(result).toBe(2);
+      expect(queryBuilder.where).toHaveBeenCalledWith('status = :status', {
+        status: MessageStatus.PENDING,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'id NOT IN (:...plannedIds)',
+        { plannedIds: ['message-123'] },
+      );
+    });
+  });
+
+  describe('expireOverdueMessages', () => {
+    it('should expire pending messages past their occasion day', async () => {
+      const now = new Date('2024-05-16T04:00:00Z');
+      const queryBuilder = {
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue({ affected: 3 }),
+      };
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.expireOverdueMessages(now);
+
+      expect(result).toBe(3);
+      expect(queryBuilder.set).toHaveBeenCalledWith({
+        status: MessageStatus.EXPIRED,
+      });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('expires_at <= :now', {
+        now,
+      });
+    });
+  });
+
+  describe('queueMessages', () => {
+    const createUpdateQueryBuilderMock = (queuedIds: string[]) => ({
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnThis(),
+      execute: jest
+        .fn()
+        .mockResolvedValue({ raw: queuedIds.map((id) => ({ id })) }),
+    });
+
+    const createMessage = (id: string) =>
+      ({
+        id,
+        userId: 'user-123',
+        user: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+        } as User,
+        messageType: MessageType.BIRTHDAY,
+      }) as BirthdayMessage;
+
+    it('should mark messages as queued and add them to the outbox atomically', async () => {
+      const queryBuilder = createUpdateQueryBuilderMock(['message-123']);
+      const manager = { createQueryBuilder: jest.fn(() => queryBuilder) };
+      mockRepository.manager.transaction.mockImplementation(
+        (work: (manager: unknown) => Promise<BirthdayMessage[]>) =>
+          work(manager),
+      );
+      const message = createMessage('message-123');
+
+      const result = await service.queueMessages([message]);
+
+      expect(result).toEqual([message]);
+      expect(queryBuilder.set).toHaveBeenCalledWith({
+        status: MessageStatus.QUEUED,
+      });
+      expect(queryBuilder.where).toHaveBeenCalledWith({
+        id: In(['message-123']),
+        status: MessageStatus.PENDING,
+      });
+      expect(mockOutboxService.add).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            schemaVersion: 2,
+            messageId: 'message-123',
+            userId: 'user-123',
+            email: 'john@example.com',
+            fullName: 'John Doe',
+            messageType: MessageType.BIRTHDAY,
+          }),
+        ],
+        manager,
+      );
+    });
+
+    it('should not queue a message cancelled between read and queue', async () => {
+      // message-2 was cancelled by an admin, so the update skipped it
+      const queryBuilder = createUpdateQueryBuilderMock(['message-1']);
+      const manager = { createQueryBuilder: jest.fn(() => queryBuilder) };
+      mockRepository.manager.transaction.mockImplementation(
+        (work: (manager: unknown) => Promise<BirthdayMessage[]>) =>
+          work(manager),
+      );
+
+      const result = await service.queueMessages([
+        createMessage('message-1'),
+        createMessage('message-2'),
+      ]);
+
+      expect(result.map((message) => message.id)).toEqual(['message-1']);
+      expect(mockOutboxService.add).toHaveBeenCalledWith(
+        [expect.objectContaining({ messageId: 'message-1' })],
+        manager,
+      );
+    });
+
+    it('should only requeue messages that are still in the expected status', async () => {
+      const queryBuilder = createUpdateQueryBuilderMock([]);
+      const manager = { createQueryBuilder: jest.fn(() => queryBuilder) };
+      mockRepository.manager.transaction.mockImplementation(
+        (work: (manager: unknown) => Promise<BirthdayMessage[]>) =>
+          work(manager),
+      );
+
+      const result = await service.queueMessages(
+        [createMessage('message-123')],
+        MessageStatus.FAILED,
+      );
+
+      expect(result).toEqual([]);
+      expect(queryBuilder.where).toHaveBeenCalledWith({
+        id: In(['message-123']),
+        status: MessageStatus.FAILED,
+      });
+      expect(mockOutboxService.add).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing without messages', async () => {
+      await service.queueMessages([]);
+
+      expect(mockRepository.manager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requeueForResend', () => {
+    it('should reset the message as queued and add it to the outbox atomically', async () => {
+      const manager = { update: jest.fn() };
+      mockRepository.manager.transaction.mockImplementation(
+        (work: (manager: unknown) => Promise<void>) => work(manager),
+      );
+      const message = {
+        id: 'message-123',
+        userId: 'user-123',
+        user: {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john@example.com',
+        } as User,
+        messageType: MessageType.BIRTHDAY,
+      } as BirthdayMessage;
+
+      await service.requeueForResend(message);
+
+      expect(manager.update).toHaveBeenCalledWith(
+        BirthdayMessage,
+        'message-123',
+        {
+          status: MessageStatus.QUEUED,
+          attempts: 0,
+          lastError: null,
+          sentAt: null,
+          expiresAt: null,
+          deliveries: {},
+          templateId: null,
+          templateVersion: null,
+        },
+      );
+      expect(mockOutboxService.add).toHaveBeenCalledWith(
+        [expect.objectContaining({ messageId: 'message-123' })],
+        manager,
+      );
     });
   });
 
@@ -126,39 +459,222 @@ describe('BirthdayService', () => {
 
   describe('markAsFailed', () => {
     it('should increment attempts and update status to failed', async () => {
+      mockRepository.update.mockResolvedValue({ affected: 1 });
+
       await service.markAsFailed('message-123', 'API timeout');
 
-      expect(mockRepository.increment).toHaveBeenCalledWith(
-        { id: 'message-123' },
-        'attempts',
-        1,
-      );
-      expect(mockRepository.update).toHaveBeenCalledWith('message-123', {
+      const [criteria, changes] = mockRepository.update.mock.calls[0] as [
+        unknown,
+        { attempts: () => string },
+      ];
+      expect(changes).toMatchObject({
         status: MessageStatus.FAILED,
         lastError: 'API timeout',
       });
+      expect(changes.attempts()).toBe('attempts + 1');
+      expect(criteria).toEqual({
+        id: 'message-123',
+        status: Not(MessageStatus.SENT),
+      });
     });
   });
 
   describe('getFailedMessagesForRetry', () => {
-    it('should return failed messages under max attempts', async () => {
-      const failedMessages = [
-        { ...mockMessage, status: MessageStatus.FAILED, attempts: 2 },
-        { ...mockMessage, status: MessageStatus.FAILED, attempts: 6 },
-      ];
-      mockRepository.find.mockResolvedValue(
-        failedMessages as BirthdayMessage[],
+    it('should find failed messages under max attempts failed before a time', async () => {
+      const failedBefore = new Date('2024-05-15T13:00:00Z');
+      mockRepository.find.mockResolvedValue([]);
+
+      await service.getFailedMessagesForRetry(failedBefore, 5);
+
+      expect(mockRepository.find).toHaveBeenCalledWith({
+        where: {
+          status: MessageStatus.FAILED,
+          attempts: LessThan(5),
+          updatedAt: LessThan(failedBefore),
+        },
+        relations: ['user'],
+        take: 100,
+        order: { updatedAt: 'ASC' },
+      });
+    });
+  });
+
+  describe('getOrphanedQueuedMessages', () => {
+    it('should find queued messages without a pending outbox entry', async () => {
+      const queuedBefore = new Date('2024-05-15T13:00:00Z');
+      const queryBuilder = {
+        leftJoinAndSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        getMany: jest.fn().mockResolvedValue([]),
+      };
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.getOrphanedQueuedMessages(queuedBefore);
+
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'message.status = :status',
+        { status: MessageStatus.QUEUED },
       );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.updatedAt < :queuedBefore',
+        { queuedBefore },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('outbox.dispatched_at IS NULL'),
+      );
+      expect(queryBuilder.limit).toHaveBeenCalledWith(100);
+    });
+  });
+
+  describe('findMessages', () => {
+    const createQueryBuilderMock = (messages: Partial<BirthdayMessage>[]) => ({
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue(messages),
+    });
 
-      const result = await service.getFailedMessagesForRetry(5);
+    const createMessages = (count: number): Partial<BirthdayMessage>[] =>
+      Array.from({ length: count }, (_, i) => ({
+        ...mockMessage,
+        id: `message-${i}`,
+        user: mockUser as User,
+        lastError: null,
+        sentAt: null,
+        expiresAt: null,
+      }));
 
-      expect(result).toHaveLength(1);
-      expect(result[0].attempts).toBe(2);
+    it('should return a page of messages with their recipient', async () => {
+      const queryBuilder = createQueryBuilderMock(createMessages(3));
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findMessages({ limit: 2 });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          id: 'message-0',
+          status: MessageStatus.PENDING,
+          user: {
+            firstName: 'John',
+            lastName: 'Doe',
+            fullName: 'John Doe',
+            email: 'john.doe@example.com',
+          },
+        }),
+      );
+      expect(result.hasMore).toBe(true);
+      expect(decodeCursor(result.nextCursor!)).toEqual({
+        scheduledFor: '2024-05-15T13:00:00.000Z',
+        id: 'message-1',
+      });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith(
+        'message.scheduledFor',
+        'DESC',
+      );
+      expect(queryBuilder.take).toHaveBeenCalledWith(3);
+    });
+
+    it('should apply filters', async () => {
+      const queryBuilder = createQueryBuilderMock([]);
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findMessages({
+        status: MessageStatus.FAILED,
+        type: 'anniversary',
+        year: 2024,
+        userId: 'user-123',
+        from: '2024-05-01T00:00:00Z',
+        to: '2024-06-01T00:00:00Z',
+      });
+
+      expect(result).toEqual({ data: [], hasMore: false, nextCursor: null });
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.status = :status',
+        { status: MessageStatus.FAILED },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.messageType = :type',
+        { type: 'anniversary' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.year = :year',
+        { year: 2024 },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.userId = :userId',
+        { userId: 'user-123' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.scheduledFor >= :from',
+        { from: new Date('2024-05-01T00:00:00Z') },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'message.scheduledFor < :to',
+        { to: new Date('2024-06-01T00:00:00Z') },
+      );
+    });
+
+    it('should continue after the cursor', async () => {
+      const queryBuilder = createQueryBuilderMock([]);
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findMessages({
+        cursor: encodeCursor({
+          scheduledFor: '2024-05-15T13:00:00.000Z',
+          id: '123e4567-e89b-12d3-a456-426614174000',
+        }),
+      });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('message.id < :cursorId'),
+        {
+          cursorScheduledFor: new Date('2024-05-15T13:00:00.000Z'),
+          cursorId: '123e4567-e89b-12d3-a456-426614174000',
+        },
+      );
+    });
+
+    it('should reject an invalid cursor', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+
+      await expect(
+        service.findMessages({ cursor: 'not-a-cursor' }),
+      ).rejects.toThrow(new BadRequestException('Invalid cursor'));
+    });
+
+    it('should reject a cursor with tampered values', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+
+      for (const position of [
+        {
+          scheduledFor: 'not-a-date',
+          id: '123e4567-e89b-12d3-a456-426614174000',
+        },
+        { scheduledFor: '2024-05-15T13:00:00.000Z', id: 'message-1' },
+        {
+          scheduledFor: 1715778000000,
+          id: '123e4567-e89b-12d3-a456-426614174000',
+        },
+      ]) {
+        await expect(
+          service.findMessages({ cursor: encodeCursor(position) }),
+        ).rejects.toThrow(new BadRequestException('Invalid cursor'));
+      }
     });
   });
 
   describe('findById', () => {
-    it('should return message with user relation', async () => {
+    it('should return message with user and occasion relations', async () => {
       const messageWithUser = { ...mockMessage, user: mockUser };
       mockRepository.findOne.mockResolvedValue(
         messageWithUser as BirthdayMessage,
@@ -169,7 +685,7 @@ describe('BirthdayService', () => {
       expect(result).toEqual(messageWithUser);
       expect(mockRepository.findOne).toHaveBeenCalledWith({
         where: { id: 'message-123' },
-        relations: ['user'],
+        relations: ['user', 'occasion'],
       });
     });
   });
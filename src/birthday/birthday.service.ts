@@ -1,16 +1,50 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, LessThan, Not, Repository } from 'typeorm';
+import * as moment from 'moment-timezone';
 import {
   BirthdayMessage,
   MessageStatus,
+  MessageType,
 } from './entities/birthday-message.entity';
 import { User } from '../users/entities/user.entity';
+import {
+  ListMessagesQueryDto,
+  MessageHistoryDto,
+  PaginatedMessagesDto,
+} from './dto/list-messages.dto';
+import { DEFAULT_PAGE_SIZE } from '../common/dto/pagination-query.dto';
+import {
+  decodePageCursor,
+  encodeCursor,
+  parseCursorDate,
+} from '../common/pagination';
+import { OutboxService } from '../outbox/outbox.service';
+import { DeliveryResult } from '../notifications/notification-channel';
+import { buildBirthdayMessagePayload } from '../queue/message-payload';
+
+/**
+ * Number of delivery attempts after which a message is left failed for good
+ */
+export const MAX_RETRY_ATTEMPTS = 5;
 
 interface DatabaseError extends Error {
   code?: string;
 }
 
+interface MessageCursor {
+  scheduledFor: string;
+  id: string;
+}
+
+/**
+ * The instant after which a message for a local occasion date is too late to
+ * send, i.e. midnight at the end of that day in the user's timezone
+ */
+export function getExpiresAt(occasionDate: string, timezone: string): Date {
+  return moment.tz(occasionDate, 'YYYY-MM-DD', timezone).add(1, 'day').toDate();
+}
+
 @Injectable()
 export class BirthdayService {
   private readonly logger = new Logger(BirthdayService.name);
@@ -18,27 +52,36 @@ export class BirthdayService {
   constructor(
     @InjectRepository(BirthdayMessage)
     private readonly messageRepository: Repository<BirthdayMessage>,
+    private readonly outboxService: OutboxService,
   ) {}
 
   /**
-   * Create a birthday message record for a user
-   * Uses database unique constraint to prevent duplicates
+   * Create a message record of the given type for a user
+   * Uses database unique constraint on user, type and occasion date to prevent duplicates
+   * The occasion date defaults to the scheduled day in the user's timezone and
+   * the message expires once that day has ended there
    */
   async createBirthdayMessage(
     user: User,
     scheduledFor: Date,
+    messageType: string = MessageType.BIRTHDAY,
+    occasionDate?: string,
+    occasionId: string | null = null,
   ): Promise<BirthdayMessage | null> {
-    const year = scheduledFor.getFullYear();
+    occasionDate ??= moment
+      .tz(scheduledFor, user.timezone)
+      .format('YYYY-MM-DD');
+    const year = parseInt(occasionDate.slice(0, 4), 10);
 
     try {
-      // Check if message already exists for this user and year
+      // Check if message already exists for this user, type and occasion
       const existing = await this.messageRepository.findOne({
-        where: { userId: user.id, year },
+        where: { userId: user.id, messageType, occasionDate },
       });
 
       if (existing) {
         this.logger.debug(
-          `Birthday message already exists for user ${user.id} in year ${year}`,
+          `${messageType} message already exists for user ${user.id} on ${occasionDate}`,
         );
         return null;
       }
@@ -46,13 +89,17 @@ export class BirthdayService {
       const message = this.messageRepository.create({
         userId: user.id,
         year,
+        occasionDate,
         scheduledFor,
+        expiresAt: getExpiresAt(occasionDate, user.timezone),
         status: MessageStatus.PENDING,
+        messageType,
+        occasionId,
       });
 
       const saved = await this.messageRepository.save(message);
       this.logger.log(
-        `Created birthday message ${saved.id} for user ${user.id}`,
+        `Created ${messageType} message ${saved.id} for user ${user.id}`,
       );
       return saved;
     } catch (error: unknown) {
@@ -60,7 +107,7 @@ export class BirthdayService {
       const dbError = error as DatabaseError;
       if (dbError.code === '23505') {
         this.logger.debug(
-          `Duplicate message prevented for user ${user.id} in year ${year}`,
+          `Duplicate ${messageType} message prevented for user ${user.id} on ${occasionDate}`,
         );
         return null;
       }
@@ -69,11 +116,153 @@ export class BirthdayService {
   }
 
   /**
-   * Mark a message as queued
+   * Plan a message for an occasion, rescheduling a still-pending message when
+   * its send time moved (e.g. the user changed their timezone or send time)
+   * Returns null if another instance created the message concurrently
+   */
+  async planMessage(
+    user: User,
+    scheduledFor: Date,
+    messageType: string,
+    occasionDate: string,
+    occasionId: string | null,
+  ): Promise<BirthdayMessage | null> {
+    const existing = await this.messageRepository.findOne({
+      where: { userId: user.id, messageType, occasionDate },
+    });
+
+    if (!existing) {
+      return this.createBirthdayMessage(
+        user,
+        scheduledFor,
+        messageType,
+        occasionDate,
+        occasionId,
+      );
+    }
+
+    if (
+      existing.status === MessageStatus.PENDING &&
+      existing.scheduledFor.getTime() !== scheduledFor.getTime()
+    ) {
+      const expiresAt = getExpiresAt(occasionDate, user.timezone);
+      await this.messageRepository.update(existing.id, {
+        scheduledFor,
+        expiresAt,
+      });
+      existing.scheduledFor = scheduledFor;
+      existing.expiresAt = expiresAt;
+      this.logger.log(
+        `Rescheduled message ${existing.id} to ${scheduledFor.toISOString()}`,
+      );
+    }
+
+    return existing;
+  }
+
+  /**
+   * Delete pending messages scheduled within a window that were not planned again
+   * @returns the number of deleted messages
+   */
+  async removeStalePendingMessages(
+    from: Date,
+    to: Date,
+    plannedIds: string[],
+  ): Promise<number> {
+    const query = this.messageRepository
+      .createQueryBuilder()
+      .delete()
+      .where('status = :status', { status: MessageStatus.PENDING })
+      .andWhere('scheduled_for > :from', { from })
+      .andWhere('scheduled_for <= :to', { to });
+
+    if (plannedIds.length > 0) {
+      query.andWhere('id NOT IN (:...plannedIds)', { plannedIds });
+    }
+
+    const result = await query.execute();
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Expire pending messages that can no longer be sent on their occasion day
+   * @returns the number of expired messages
+   */
+  async expireOverdueMessages(now: Date = new Date()): Promise<number> {
+    const result = await this.messageRepository
+      .createQueryBuilder()
+      .update()
+      .set({ status: MessageStatus.EXPIRED })
+      .where('status = :status', { status: MessageStatus.PENDING })
+      .andWhere('expires_at <= :now', { now })
+      .execute();
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Mark a message as expired instead of sending it too late
+   */
+  async markAsExpired(messageId: string): Promise<void> {
+    await this.messageRepository.update(messageId, {
+      status: MessageStatus.EXPIRED,
+    });
+    this.logger.warn(`Message ${messageId} expired before it could be sent`);
+  }
+
+  /**
+   * Mark messages loaded with their user as queued and add them to the outbox
+   * in one transaction; the outbox relay publishes them afterwards, so a crash
+   * can neither lose a queued message nor publish one that is not queued
+   * Messages that left the expected status since they were read, e.g. cancelled
+   * by an admin, are left alone
+   * @returns the messages that were queued
+   */
+  async queueMessages(
+    messages: BirthdayMessage[],
+    expectedStatus: MessageStatus = MessageStatus.PENDING,
+  ): Promise<BirthdayMessage[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    return this.messageRepository.manager.transaction(async (manager) => {
+      const result = await manager
+        .createQueryBuilder()
+        .update(BirthdayMessage)
+        .set({ status: MessageStatus.QUEUED })
+        .where({
+          id: In(messages.map((message) => message.id)),
+          status: expectedStatus,
+        })
+        .returning('id')
+        .execute();
+      const queuedIds = new Set(
+        (result.raw as Pick<BirthdayMessage, 'id'>[]).map(({ id }) => id),
+      );
+      const queued = messages.filter((message) => queuedIds.has(message.id));
+
+      if (queued.length > 0) {
+        await this.outboxService.add(
+          queued.map((message) => buildBirthdayMessagePayload(message)),
+          manager,
+        );
+      }
+      return queued;
+    });
+  }
+
+  /**
+   * Record the delivery state of a message on each notification channel
+   * and the template version it was rendered with
    */
-  async markAsQueued(messageId: string): Promise<void> {
+  async recordDeliveries(
+    messageId: string,
+    { deliveries, templateId, templateVersion }: DeliveryResult,
+  ): Promise<void> {
     await this.messageRepository.update(messageId, {
-      status: MessageStatus.QUEUED,
+      deliveries,
+      templateId,
+      templateVersion,
     });
   }
 
@@ -90,80 +279,259 @@ export class BirthdayService {
 
   /**
    * Mark a message as failed and record the error
+   * A message sent in the meantime, e.g. by another worker, is left sent
    */
   async markAsFailed(messageId: string, error: string): Promise<void> {
-    await this.messageRepository.increment({ id: messageId }, 'attempts', 1);
+    const result = await this.messageRepository.update(
+      { id: messageId, status: Not(MessageStatus.SENT) },
+      {
+        status: MessageStatus.FAILED,
+        lastError: error,
+        attempts: () => 'attempts + 1',
+      },
+    );
+    if (result.affected === 0) {
+      this.logger.debug(`Message ${messageId} already sent, not failing it`);
+      return;
+    }
+    this.logger.warn(`Message ${messageId} marked as failed: ${error}`);
+  }
+
+  /**
+   * Mark a message as cancelled so it is never sent
+   */
+  async markAsCancelled(messageId: string): Promise<void> {
+    await this.messageRepository.update(messageId, {
+      status: MessageStatus.CANCELLED,
+    });
+    this.logger.log(`Message ${messageId} cancelled`);
+  }
+
+  /**
+   * Fail a message for good, exhausting its attempts so it is not retried
+   */
+  async markAsPermanentlyFailed(
+    messageId: string,
+    error: string,
+  ): Promise<void> {
     await this.messageRepository.update(messageId, {
       status: MessageStatus.FAILED,
+      attempts: MAX_RETRY_ATTEMPTS,
       lastError: error,
     });
-    this.logger.warn(`Message ${messageId} marked as failed: ${error}`);
+    this.logger.warn(`Message ${messageId} permanently failed: ${error}`);
   }
 
   /**
-   * Get pending messages that should have been sent (for recovery)
+   * Queue a message again with a clean slate for a manual resend
+   * The reset and the outbox entry are written together, so the dispatcher
+   * never sees the message pending in between
+   * The expiry is lifted since the resend was explicitly requested
    */
-  async getUnsentMessages(limit: number = 100): Promise<BirthdayMessage[]> {
-    const now = new Date();
-
-    return this.messageRepository.find({
-      where: [
-        { status: MessageStatus.PENDING, scheduledFor: now },
-        { status: MessageStatus.FAILED },
-      ],
-      relations: ['user'],
-      take: limit,
-      order: { scheduledFor: 'ASC' },
+  async requeueForResend(message: BirthdayMessage): Promise<void> {
+    await this.messageRepository.manager.transaction(async (manager) => {
+      await manager.update(BirthdayMessage, message.id, {
+        status: MessageStatus.QUEUED,
+        attempts: 0,
+        lastError: null,
+        sentAt: null,
+        expiresAt: null,
+        deliveries: {},
+        templateId: null,
+        templateVersion: null,
+      });
+      await this.outboxService.add(
+        [buildBirthdayMessagePayload(message)],
+        manager,
+      );
     });
   }
 
   /**
-   * Get pending messages that need to be queued
+   * Get pending messages that are due and need to be queued
    */
-  async getPendingMessagesToQueue(): Promise<BirthdayMessage[]> {
+  async getPendingMessagesToQueue(
+    limit: number = 500,
+  ): Promise<BirthdayMessage[]> {
     return this.messageRepository
       .createQueryBuilder('message')
       .leftJoinAndSelect('message.user', 'user')
       .where('message.status = :status', { status: MessageStatus.PENDING })
       .andWhere('message.scheduledFor <= :now', { now: new Date() })
+      .orderBy('message.scheduledFor', 'ASC')
+      .limit(limit)
       .getMany();
   }
 
   /**
-   * Get failed messages for retry (with attempt limit)
+   * Get queued messages left untouched since before the given instant whose
+   * outbox entry was already dispatched (for recovery)
    */
-  async getFailedMessagesForRetry(
-    maxAttempts: number = 5,
+  async getOrphanedQueuedMessages(
+    queuedBefore: Date,
     limit: number = 100,
   ): Promise<BirthdayMessage[]> {
     return this.messageRepository
-      .find({
-        where: {
-          status: MessageStatus.FAILED,
-        },
-        relations: ['user'],
-        take: limit,
-        order: { updatedAt: 'ASC' },
-      })
-      .then((messages) => messages.filter((m) => m.attempts < maxAttempts));
+      .createQueryBuilder('message')
+      .leftJoinAndSelect('message.user', 'user')
+      .where('message.status = :status', { status: MessageStatus.QUEUED })
+      .andWhere('message.updatedAt < :queuedBefore', { queuedBefore })
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM message_outbox outbox WHERE outbox.message_id = message.id AND outbox.dispatched_at IS NULL)',
+      )
+      .orderBy('message.updatedAt', 'ASC')
+      .limit(limit)
+      .getMany();
   }
 
   /**
-   * Reset message status to pending for retry
+   * Get failed messages for retry (with attempt limit)
+   * @param failedBefore Only messages last updated before this instant
    */
-  async resetToPending(messageId: string): Promise<void> {
-    await this.messageRepository.update(messageId, {
-      status: MessageStatus.PENDING,
+  async getFailedMessagesForRetry(
+    failedBefore: Date,
+    maxAttempts: number = MAX_RETRY_ATTEMPTS,
+    limit: number = 100,
+  ): Promise<BirthdayMessage[]> {
+    return this.messageRepository.find({
+      where: {
+        status: MessageStatus.FAILED,
+        attempts: LessThan(maxAttempts),
+        updatedAt: LessThan(failedBefore),
+      },
+      relations: ['user'],
+      take: limit,
+      order: { updatedAt: 'ASC' },
     });
   }
 
   /**
-   * Find message by ID with user relation
+   * Find a page of messages matching the filters, most recently scheduled first
+   */
+  async findMessages(
+    query: ListMessagesQueryDto = {},
+  ): Promise<PaginatedMessagesDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const queryBuilder = this.messageRepository
+      .createQueryBuilder('message')
+      .leftJoinAndSelect('message.user', 'user');
+
+    if (query.status) {
+      queryBuilder.andWhere('message.status = :status', {
+        status: query.status,
+      });
+    }
+
+    if (query.type) {
+      queryBuilder.andWhere('message.messageType = :type', {
+        type: query.type,
+      });
+    }
+
+    if (query.year) {
+      queryBuilder.andWhere('message.year = :year', { year: query.year });
+    }
+
+    if (query.userId) {
+      queryBuilder.andWhere('message.userId = :userId', {
+        userId: query.userId,
+      });
+    }
+
+    if (query.from) {
+      queryBuilder.andWhere('message.scheduledFor >= :from', {
+        from: new Date(query.from),
+      });
+    }
+
+    if (query.to) {
+      queryBuilder.andWhere('message.scheduledFor < :to', {
+        to: new Date(query.to),
+      });
+    }
+
+    if (query.cursor) {
+      const cursor = decodePageCursor(query.cursor, ({ scheduledFor }) =>
+        parseCursorDate(scheduledFor),
+      );
+      queryBuilder.andWhere(
+        '(message.scheduledFor < :cursorScheduledFor OR (message.scheduledFor = :cursorScheduledFor AND message.id < :cursorId))',
+        { cursorScheduledFor: cursor.value, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra message to know whether there is a next page
+    const messages = await queryBuilder
+      .orderBy('message.scheduledFor', 'DESC')
+      .addOrderBy('message.id', 'DESC')
+      .take(limit + 1)
+      .getMany();
+
+    const hasMore = messages.length > limit;
+    const data = messages.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data: data.map((message) => this.toMessageHistory(message)),
+      hasMore,
+      nextCursor: hasMore
+        ? encodeCursor({
+            scheduledFor: last.scheduledFor.toISOString(),
+            id: last.id,
+          } satisfies MessageCursor)
+        : null,
+    };
+  }
+
+  /**
+   * Find message by ID with user and occasion relations
    */
   async findById(messageId: string): Promise<BirthdayMessage | null> {
     return this.messageRepository.findOne({
       where: { id: messageId },
-      relations: ['user'],
+      relations: ['user', 'occasion'],
     });
   }
+
+  /**
+   * Find messages by their IDs, skipping the ones that no longer exist
+   */
+  async findByIds(messageIds: string[]): Promise<BirthdayMessage[]> {
+    if (messageIds.length === 0) {
+      return [];
+    }
+    return this.messageRepository.find({ where: { id: In(messageIds) } });
+  }
+
+  /**
+   * Map a message loaded with its user to its history representation
+   */
+  toMessageHistory(message: BirthdayMessage): MessageHistoryDto {
+    const { user } = message;
+    return {
+      id: message.id,
+      userId: message.userId,
+      user: user
+        ? {
+            firstName: user.firstName,
+            lastName: user.lastName,
+            fullName: `${user.firstName} ${user.lastName}`,
+            email: user.email,
+          }
+        : null,
+      messageType: message.messageType,
+      occasionDate: message.occasionDate,
+      status: message.status,
+      scheduledFor: message.scheduledFor,
+      expiresAt: message.expiresAt,
+      sentAt: message.sentAt,
+      attempts: message.attempts,
+      lastError: message.lastError,
+      deliveries: message.deliveries ?? {},
+      templateId: message.templateId,
+      templateVersion: message.templateVersion,
+      createdAt: message.createdAt,
+      updatedAt: message.updatedAt,
+    };
+  }
 }
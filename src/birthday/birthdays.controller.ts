@@ -0,0 +1,35 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { UpcomingBirthdaysService } from './upcoming-birthdays.service';
+import {
+  UpcomingBirthdayDto,
+  UpcomingBirthdaysQueryDto,
+} from './dto/upcoming-birthdays.dto';
+
+@ApiTags('birthdays')
+@Controller('birthdays')
+export class BirthdaysController {
+  constructor(
+    private readonly upcomingBirthdaysService: UpcomingBirthdaysService,
+  ) {}
+
+  /**
+   * GET /birthdays/upcoming - Birthdays in the next days, in send order
+   */
+  @Get('upcoming')
+  @ApiOperation({ summary: 'List upcoming birthdays' })
+  @ApiResponse({
+    status: 200,
+    description: 'Upcoming birthdays ordered by the time their message is sent',
+    type: [UpcomingBirthdayDto],
+  })
+  @ApiResponse({ status: 400, description: 'Invalid days or timezone' })
+  async findUpcoming(
+    @Query() query: UpcomingBirthdaysQueryDto,
+  ): Promise<UpcomingBirthdayDto[]> {
+    return this.upcomingBirthdaysService.findUpcoming(
+      query.days ?? 7,
+      query.timezone,
+    );
+  }
+}
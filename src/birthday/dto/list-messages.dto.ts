@@ -0,0 +1,168 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { Paginated } from '../../common/pagination';
+import { MessageStatus } from '../entities/birthday-message.entity';
+import type { MessageDeliveries } from '../../notifications/notification-channel';
+
+export class ListMessagesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: MessageStatus })
+  @IsEnum(MessageStatus)
+  @IsOptional()
+  status?: MessageStatus;
+
+  @ApiPropertyOptional({
+    example: 'birthday',
+    description: 'Message type (built-in type or custom occasion kind)',
+  })
+  @IsString()
+  @MaxLength(50)
+  @IsOptional()
+  type?: string;
+
+  @ApiPropertyOptional({ example: 2024, description: 'Year of the occasion' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(9999)
+  @IsOptional()
+  year?: number;
+
+  @ApiPropertyOptional({ description: 'Only messages of this user' })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-05-01T00:00:00Z',
+    description: 'Only messages scheduled at or after this instant',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-06-01T00:00:00Z',
+    description: 'Only messages scheduled before this instant',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
+
+export class ListUserMessagesQueryDto extends OmitType(ListMessagesQueryDto, [
+  'userId',
+] as const) {}
+
+export class MessageRecipientDto {
+  @ApiProperty({ example: 'Jane' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  fullName: string;
+
+  @ApiProperty({ example: 'jane.doe@example.com' })
+  email: string;
+}
+
+export class MessageHistoryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ type: MessageRecipientDto, nullable: true })
+  user: MessageRecipientDto | null;
+
+  @ApiProperty({ example: 'birthday' })
+  messageType: string;
+
+  @ApiProperty({ example: '2024-05-15' })
+  occasionDate: string;
+
+  @ApiProperty({ enum: MessageStatus })
+  status: MessageStatus;
+
+  @ApiProperty()
+  scheduledFor: Date;
+
+  @ApiProperty({ type: Date, nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ type: Date, nullable: true })
+  sentAt: Date | null;
+
+  @ApiProperty({ example: 0 })
+  attempts: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  lastError: string | null;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    description: 'Delivery state per notification channel',
+    example: {
+      email: {
+        status: 'sent',
+        attempts: 1,
+        lastError: null,
+        sentAt: '2024-05-15T02:00:00.000Z',
+      },
+      sms: {
+        status: 'failed',
+        attempts: 2,
+        lastError: 'sms channel error: 503 - Service Unavailable',
+        sentAt: null,
+      },
+    },
+  })
+  deliveries: MessageDeliveries;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description:
+      'Stored template the message was last rendered with, null for the built-in one',
+  })
+  templateId: string | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 3 })
+  templateVersion: number | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  updatedAt: Date;
+}
+
+export class PaginatedMessagesDto implements Paginated<MessageHistoryDto> {
+  @ApiProperty({ type: [MessageHistoryDto] })
+  data: MessageHistoryDto[];
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page, null on the last page',
+  })
+  nextCursor: string | null;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
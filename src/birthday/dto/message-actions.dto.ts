@@ -0,0 +1,63 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { ListMessagesQueryDto } from './list-messages.dto';
+import { MessageStatus } from '../entities/birthday-message.entity';
+
+/**
+ * Statuses of messages that are done and may be sent again on request
+ */
+export const RESENDABLE_STATUSES = [
+  MessageStatus.FAILED,
+  MessageStatus.EXPIRED,
+  MessageStatus.CANCELLED,
+  MessageStatus.SENT,
+];
+
+export class FailMessageDto {
+  @ApiPropertyOptional({
+    example: 'Recipient mailbox no longer exists',
+    description: 'Recorded as the last error of the message',
+  })
+  @IsString()
+  @MaxLength(500)
+  @IsOptional()
+  reason?: string;
+}
+
+export class BulkResendMessagesDto extends PickType(ListMessagesQueryDto, [
+  'type',
+  'year',
+  'userId',
+  'from',
+  'to',
+] as const) {
+  @ApiPropertyOptional({
+    enum: RESENDABLE_STATUSES,
+    default: MessageStatus.FAILED,
+  })
+  @IsIn(RESENDABLE_STATUSES)
+  @IsOptional()
+  status?: MessageStatus;
+}
+
+export class SkippedMessageDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: 'Message is being processed, try again later' })
+  reason: string;
+}
+
+export class BulkResendResultDto {
+  @ApiProperty({ example: 12, description: 'Number of messages resent' })
+  resent: number;
+
+  @ApiProperty({ type: [SkippedMessageDto] })
+  skipped: SkippedMessageDto[];
+
+  @ApiProperty({
+    description:
+      'Whether more messages matched than one request handles; repeat it to continue',
+  })
+  hasMore: boolean;
+}
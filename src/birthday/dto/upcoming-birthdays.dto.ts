@@ -0,0 +1,65 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIANATimezone } from '../../common/validators/timezone.validator';
+
+export const MAX_UPCOMING_DAYS = 31;
+
+export class UpcomingBirthdaysQueryDto {
+  @ApiPropertyOptional({
+    default: 7,
+    minimum: 1,
+    maximum: MAX_UPCOMING_DAYS,
+    description:
+      "Number of days to look ahead, starting with each user's today",
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_UPCOMING_DAYS)
+  @IsOptional()
+  days?: number;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description: 'Only users in this IANA timezone',
+  })
+  @IsIANATimezone()
+  @IsOptional()
+  timezone?: string;
+}
+
+export class UpcomingBirthdayDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty({ example: 'John' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiProperty({ example: 'john.doe@example.com' })
+  email: string;
+
+  @ApiProperty({ example: 'America/New_York' })
+  timezone: string;
+
+  @ApiProperty({ example: '1990-05-15', description: 'Date of birth' })
+  birthday: string;
+
+  @ApiProperty({
+    example: '2025-05-15',
+    description: "Local date of the next birthday in the user's timezone",
+  })
+  date: string;
+
+  @ApiProperty({ example: 35, description: 'Age the user is turning' })
+  turning: number;
+
+  @ApiProperty({
+    example: '2025-05-15T13:00:00.000Z',
+    description: 'UTC instant the birthday message is sent',
+  })
+  scheduledFor: Date;
+}
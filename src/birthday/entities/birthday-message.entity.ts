@@ -10,19 +10,28 @@ import {
   Unique,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { Occasion } from '../../occasions/entities/occasion.entity';
 import { MessageType } from '../../messages/message-type.enum';
+import type { MessageDeliveries } from '../../notifications/notification-channel';
 
 export enum MessageStatus {
   PENDING = 'pending',
   QUEUED = 'queued',
   SENT = 'sent',
   FAILED = 'failed',
+  EXPIRED = 'expired', // Too late to send, e.g. the occasion day already ended
+  CANCELLED = 'cancelled', // Withdrawn by an administrator before it was sent
 }
 
 export { MessageType };
 
 @Entity('birthday_messages')
-@Unique(['userId', 'year']) // Prevent duplicate messages for same user/year
+// Prevent duplicate messages for the same user, message type and occasion date
+@Unique('UQ_birthday_messages_user_type_occasion', [
+  'userId',
+  'messageType',
+  'occasionDate',
+])
 @Index(['status', 'scheduledFor'])
 export class BirthdayMessage {
   @PrimaryGeneratedColumn('uuid')
@@ -38,6 +47,9 @@ export class BirthdayMessage {
   @Column({ type: 'int' })
   year: number; // The year of this birthday message
 
+  @Column({ name: 'occasion_date', type: 'date' })
+  occasionDate: string; // Local calendar date of the occasion (YYYY-MM-DD)
+
   @Column({
     type: 'enum',
     enum: MessageStatus,
@@ -47,15 +59,31 @@ export class BirthdayMessage {
 
   @Column({
     name: 'message_type',
-    type: 'enum',
-    enum: MessageType,
+    length: 50,
     default: MessageType.BIRTHDAY,
   })
-  messageType: MessageType;
+  messageType: string; // A built-in MessageType or a custom occasion kind
+
+  @Column({ name: 'occasion_id', type: 'uuid', nullable: true })
+  occasionId: string | null;
+
+  @ManyToOne(() => Occasion, { onDelete: 'SET NULL' })
+  @JoinColumn({
+    name: 'occasion_id',
+    foreignKeyConstraintName: 'FK_birthday_messages_occasion',
+  })
+  occasion: Occasion | null;
 
   @Column({ name: 'scheduled_for', type: 'timestamp with time zone' })
   scheduledFor: Date; // When the message should be sent (9 AM in user's timezone)
 
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  expiresAt: Date | null; // End of the occasion day in the user's timezone
+
   @Column({ name: 'sent_at', type: 'timestamp with time zone', nullable: true })
   sentAt: Date | null;
 
@@ -65,6 +93,15 @@ export class BirthdayMessage {
   @Column({ name: 'last_error', type: 'text', nullable: true })
   lastError: string | null;
 
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  deliveries: MessageDeliveries; // Delivery state per notification channel
+
+  @Column({ name: 'template_id', type: 'uuid', nullable: true })
+  templateId: string | null; // Stored template last rendered, null for the built-in one
+
+  @Column({ name: 'template_version', type: 'int', nullable: true })
+  templateVersion: number | null; // Version of that template
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { MessageAdminService } from './message-admin.service';
+import { BirthdayService, MAX_RETRY_ATTEMPTS } from './birthday.service';
+import { LockService } from '../redis/lock.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+  MessageType,
+} from './entities/birthday-message.entity';
+import { MessageHistoryDto } from './dto/list-messages.dto';
+import { User } from '../users/entities/user.entity';
+
+describe('MessageAdminService', () => {
+  let service: MessageAdminService;
+  let birthdayService: jest.Mocked<BirthdayService>;
+  let lockService: jest.Mocked<LockService>;
+
+  const messageId = '123e4567-e89b-12d3-a456-426614174001';
+
+  const createMessage = (
+    overrides: Partial<BirthdayMessage> = {},
+  ): BirthdayMessage =>
+    ({
+      id: messageId,
+      userId: 'user-123',
+      user: {
+        id: 'user-123',
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+      } as User,
+      messageType: MessageType.BIRTHDAY,
+      status: MessageStatus.FAILED,
+      attempts: MAX_RETRY_ATTEMPTS,
+      ...overrides,
+    }) as BirthdayMessage;
+
+  const history = (id: string): MessageHistoryDto =>
+    ({ id }) as MessageHistoryDto;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageAdminService,
+        {
+          provide: BirthdayService,
+          useValue: {
+            findById: jest.fn(),
+            findMessages: jest.fn(),
+            requeueForResend: jest.fn(),
+            markAsCancelled: jest.fn(),
+            markAsPermanentlyFailed: jest.fn(),
+            toMessageHistory: jest.fn((message: BirthdayMessage) =>
+              history(message.id),
+            ),
+          },
+        },
+        {
+          provide: LockService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessageAdminService>(MessageAdminService);
+    birthdayService = module.get(BirthdayService);
+    lockService = module.get(LockService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resend', () => {
+    it('should reset a failed message and queue it again', async () => {
+      birthdayService.findById.mockResolvedValue(createMessage());
+
+      const result = await service.resend(messageId);
+
+      expect(result).toEqual(history(messageId));
+      expect(lockService.acquireLock).toHaveBeenCalledWith(
+        `process-${messageId}`,
+        120,
+      );
+      expect(birthdayService.requeueForResend).toHaveBeenCalledWith(
+        expect.objectContaining({ id: messageId }),
+      );
+      expect(lockService.releaseLock).toHaveBeenCalledWith(
+        `process-${messageId}`,
+      );
+    });
+
+    it('should refuse to resend a message that is still on its way', async () => {
+      birthdayService.findById.mockResolvedValue(
+        createMessage({ status: MessageStatus.QUEUED, attempts: 0 }),
+      );
+
+      await expect(service.resend(messageId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(birthdayService.requeueForResend).not.toHaveBeenCalled();
+      expect(lockService.releaseLock).toHaveBeenCalled();
+    });
+
+    it('should refuse while the consumer holds the message lock', async () => {
+      lockService.acquireLock.mockResolvedValue(false);
+
+      await expect(service.resend(messageId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(birthdayService.findById).not.toHaveBeenCalled();
+      expect(lockService.releaseLock).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown message', async () => {
+      birthdayService.findById.mockResolvedValue(null);
+
+      await expect(service.resend(messageId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('cancel', () => {
+    it('should cancel a pending message', async () => {
+      birthdayService.findById.mockResolvedValue(
+        createMessage({ status: MessageStatus.PENDING, attempts: 0 }),
+      );
+
+      await service.cancel(messageId);
+
+      expect(birthdayService.markAsCancelled).toHaveBeenCalledWith(messageId);
+    });
+
+    it('should refuse to cancel a sent message', async () => {
+      birthdayService.findById.mockResolvedValue(
+        createMessage({ status: MessageStatus.SENT, attempts: 0 }),
+      );
+
+      await expect(service.cancel(messageId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(birthdayService.markAsCancelled).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fail', () => {
+    it('should fail a retrying message for good with the given reason', async () => {
+      birthdayService.findById.mockResolvedValue(
+        createMessage({ attempts: 2 }),
+      );
+
+      await service.fail(messageId, 'Mailbox no longer exists');
+
+      expect(birthdayService.markAsPermanentlyFailed).toHaveBeenCalledWith(
+        messageId,
+        'Mailbox no longer exists',
+      );
+    });
+
+    it('should refuse a message that already failed permanently', async () => {
+      birthdayService.findById.mockResolvedValue(createMessage());
+
+      await expect(service.fail(messageId)).rejects.toThrow(ConflictException);
+      expect(birthdayService.markAsPermanentlyFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendMatching', () => {
+    it('should resend failed messages page by page and report skipped ones', async () => {
+      const otherId = '123e4567-e89b-12d3-a456-426614174002';
+      birthdayService.findMessages
+        .mockResolvedValueOnce({
+          data: [history(messageId)],
+          nextCursor: 'next',
+          hasMore: true,
+        })
+        .mockResolvedValueOnce({
+          data: [history(otherId)],
+          nextCursor: null,
+          hasMore: false,
+        });
+      birthdayService.findById.mockImplementation((id) =>
+        Promise.resolve(
+          id === messageId
+            ? createMessage()
+            : createMessage({ id, status: MessageStatus.QUEUED }),
+        ),
+      );
+
+      const result = await service.resendMatching({ year: 2024 });
+
+      expect(birthdayService.findMessages).toHaveBeenNthCalledWith(1, {
+        year: 2024,
+        status: MessageStatus.FAILED,
+        limit: 100,
+        cursor: undefined,
+      });
+      expect(birthdayService.findMessages).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ cursor: 'next' }),
+      );
+      expect(result).toEqual({
+        resent: 1,
+        skipped: [
+          {
+            id: otherId,
+            reason: `Message ${otherId} is queued and cannot be resent`,
+          },
+        ],
+        hasMore: false,
+      });
+    });
+  });
+});
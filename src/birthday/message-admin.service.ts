@@ -0,0 +1,175 @@
+import {
+  ConflictException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { BirthdayService, MAX_RETRY_ATTEMPTS } from './birthday.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+} from './entities/birthday-message.entity';
+import { MessageHistoryDto } from './dto/list-messages.dto';
+import {
+  BulkResendMessagesDto,
+  BulkResendResultDto,
+  RESENDABLE_STATUSES,
+} from './dto/message-actions.dto';
+import { LockService } from '../redis/lock.service';
+import { MAX_PAGE_SIZE } from '../common/dto/pagination-query.dto';
+
+const CANCELLABLE_STATUSES = [MessageStatus.PENDING, MessageStatus.QUEUED];
+const FAILABLE_STATUSES = [
+  MessageStatus.PENDING,
+  MessageStatus.QUEUED,
+  MessageStatus.FAILED,
+];
+const MESSAGE_LOCK_TTL = 120; // Same as the consumer's processing lock
+const BULK_RESEND_LIMIT = 1000;
+
+/**
+ * Manual interventions on single messages
+ * Each action holds the consumer's processing lock of the message so it
+ * cannot interleave with a delivery attempt
+ */
+@Injectable()
+export class MessageAdminService {
+  private readonly logger = new Logger(MessageAdminService.name);
+
+  constructor(
+    private readonly birthdayService: BirthdayService,
+    private readonly lockService: LockService,
+  ) {}
+
+  /**
+   * Send a finished message again with its attempts reset
+   */
+  async resend(messageId: string): Promise<MessageHistoryDto> {
+    return this.withMessageLock(messageId, async (message) => {
+      this.assertStatus(message, RESENDABLE_STATUSES, 'resent');
+      await this.birthdayService.requeueForResend(message);
+      this.logger.log(`Resent message ${message.id}`);
+    });
+  }
+
+  /**
+   * Cancel a message that has not been sent yet
+   */
+  async cancel(messageId: string): Promise<MessageHistoryDto> {
+    return this.withMessageLock(messageId, async (message) => {
+      this.assertStatus(message, CANCELLABLE_STATUSES, 'cancelled');
+      await this.birthdayService.markAsCancelled(message.id);
+    });
+  }
+
+  /**
+   * Fail a message for good so that neither the consumer nor recovery retries it
+   */
+  async fail(messageId: string, reason?: string): Promise<MessageHistoryDto> {
+    return this.withMessageLock(messageId, async (message) => {
+      this.assertStatus(message, FAILABLE_STATUSES, 'failed');
+      if (
+        message.status === MessageStatus.FAILED &&
+        message.attempts >= MAX_RETRY_ATTEMPTS
+      ) {
+        throw new ConflictException(
+          `Message ${message.id} has already failed permanently`,
+        );
+      }
+      await this.birthdayService.markAsPermanentlyFailed(
+        message.id,
+        reason ?? 'Failed by an administrator',
+      );
+    });
+  }
+
+  /**
+   * Resend every message matching the filters, failed ones by default
+   * Messages that cannot be resent right now are reported as skipped
+   */
+  async resendMatching(
+    filters: BulkResendMessagesDto,
+  ): Promise<BulkResendResultDto> {
+    const result: BulkResendResultDto = {
+      resent: 0,
+      skipped: [],
+      hasMore: false,
+    };
+    let cursor: string | undefined;
+    let handled = 0;
+
+    do {
+      const page = await this.birthdayService.findMessages({
+        ...filters,
+        status: filters.status ?? MessageStatus.FAILED,
+        limit: Math.min(MAX_PAGE_SIZE, BULK_RESEND_LIMIT - handled),
+        cursor,
+      });
+
+      for (const message of page.data) {
+        try {
+          await this.resend(message.id);
+          result.resent++;
+        } catch (error: unknown) {
+          if (!(error instanceof HttpException)) {
+            throw error;
+          }
+          result.skipped.push({ id: message.id, reason: error.message });
+        }
+      }
+
+      handled += page.data.length;
+      cursor = page.nextCursor ?? undefined;
+      result.hasMore = page.hasMore;
+    } while (cursor && handled < BULK_RESEND_LIMIT);
+
+    this.logger.log(
+      `Bulk resend queued ${result.resent} message(s), skipped ${result.skipped.length}`,
+    );
+    return result;
+  }
+
+  private async withMessageLock(
+    messageId: string,
+    action: (message: BirthdayMessage) => Promise<void>,
+  ): Promise<MessageHistoryDto> {
+    const lockKey = `process-${messageId}`;
+    const lockAcquired = await this.lockService.acquireLock(
+      lockKey,
+      MESSAGE_LOCK_TTL,
+    );
+
+    if (!lockAcquired) {
+      throw new ConflictException(
+        'Message is being processed, try again later',
+      );
+    }
+
+    try {
+      const message = await this.birthdayService.findById(messageId);
+      if (!message) {
+        throw new NotFoundException(`Message with ID ${messageId} not found`);
+      }
+
+      await action(message);
+
+      const updated = await this.birthdayService.findById(messageId);
+      return this.birthdayService.toMessageHistory(updated ?? message);
+    } finally {
+      await this.lockService.releaseLock(lockKey);
+    }
+  }
+
+  private assertStatus(
+    message: BirthdayMessage,
+    allowed: MessageStatus[],
+    action: string,
+  ): void {
+    if (!allowed.includes(message.status)) {
+      throw new ConflictException(
+        `Message ${message.id} is ${message.status} and cannot be ${action}`,
+      );
+    }
+  }
+}
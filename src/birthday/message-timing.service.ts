@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as moment from 'moment-timezone';
+import { LeapDayPolicy } from '../occasions/leap-day';
+import { User } from '../users/entities/user.entity';
+import { LocalDate } from '../common/local-date';
+
+/**
+ * Decides when a user's messages are sent, shared by the planner and the
+ * upcoming birthdays API so both always agree
+ */
+@Injectable()
+export class MessageTimingService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * The leap-day policy of a user, falling back to the configured default
+   */
+  getLeapDayPolicy(user: User): LeapDayPolicy {
+    return (
+      user.leapDayPolicy ??
+      this.configService.get<LeapDayPolicy>('scheduler.leapDayPolicy') ??
+      LeapDayPolicy.FEB_28
+    );
+  }
+
+  /**
+   * Calculate the UTC instant of the user's send time on a local date
+   */
+  getScheduledFor(occasionDate: LocalDate, user: User): moment.Moment {
+    // TEST_MODE: Use current time instead of the user's send time for testing
+    if (process.env.TEST_MODE === 'true') {
+      return moment.tz(
+        `${occasionDate} ${moment.tz(user.timezone).format('HH:mm')}`,
+        'YYYY-MM-DD HH:mm',
+        user.timezone,
+      );
+    }
+
+    const sendTime =
+      user.sendTime ??
+      this.configService.get<string>('scheduler.defaultSendTime') ??
+      '09:00';
+
+    return moment.tz(
+      `${occasionDate} ${sendTime}`,
+      'YYYY-MM-DD HH:mm',
+      user.timezone,
+    );
+  }
+}
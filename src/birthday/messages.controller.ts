@@ -0,0 +1,161 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { BirthdayService } from './birthday.service';
+import { MessageAdminService } from './message-admin.service';
+import { UsersService } from '../users/users.service';
+import {
+  ListMessagesQueryDto,
+  ListUserMessagesQueryDto,
+  MessageHistoryDto,
+  PaginatedMessagesDto,
+} from './dto/list-messages.dto';
+import {
+  BulkResendMessagesDto,
+  BulkResendResultDto,
+  FailMessageDto,
+} from './dto/message-actions.dto';
+
+@ApiTags('messages')
+@Controller()
+export class MessagesController {
+  constructor(
+    private readonly birthdayService: BirthdayService,
+    private readonly messageAdminService: MessageAdminService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /**
+   * GET /messages - Message history with filters
+   */
+  @Get('messages')
+  @ApiOperation({ summary: 'List messages' })
+  @ApiResponse({
+    status: 200,
+    description: 'A page of messages, most recently scheduled first',
+    type: PaginatedMessagesDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  async findAll(
+    @Query() query: ListMessagesQueryDto,
+  ): Promise<PaginatedMessagesDto> {
+    return this.birthdayService.findMessages(query);
+  }
+
+  /**
+   * GET /user/:id/messages - Message history of a user
+   */
+  @Get('user/:id/messages')
+  @ApiOperation({ summary: 'List messages of a user' })
+  @ApiParam({ name: 'id', description: 'User UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'A page of messages, most recently scheduled first',
+    type: PaginatedMessagesDto,
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async findAllForUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListUserMessagesQueryDto,
+  ): Promise<PaginatedMessagesDto> {
+    await this.usersService.findOne(id); // 404 for unknown users
+    return this.birthdayService.findMessages({ ...query, userId: id });
+  }
+
+  /**
+   * POST /messages/resend - Resend all messages matching the filters
+   */
+  @Post('messages/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resend messages matching filters' })
+  @ApiResponse({
+    status: 200,
+    description: 'Messages resent and skipped',
+    type: BulkResendResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter' })
+  async resendMatching(
+    @Body() filters: BulkResendMessagesDto,
+  ): Promise<BulkResendResultDto> {
+    return this.messageAdminService.resendMatching(filters);
+  }
+
+  /**
+   * POST /messages/:id/resend - Resend a message with its attempts reset
+   */
+  @Post('messages/:id/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resend a message' })
+  @ApiParam({ name: 'id', description: 'Message UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message queued again',
+    type: MessageHistoryDto,
+  })
+  @ApiResponse({ status: 404, description: 'Message not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Message is not finished or is being processed',
+  })
+  async resend(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<MessageHistoryDto> {
+    return this.messageAdminService.resend(id);
+  }
+
+  /**
+   * POST /messages/:id/cancel - Cancel a pending or queued message
+   */
+  @Post('messages/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a message' })
+  @ApiParam({ name: 'id', description: 'Message UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message cancelled',
+    type: MessageHistoryDto,
+  })
+  @ApiResponse({ status: 404, description: 'Message not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Message is not pending or queued, or is being processed',
+  })
+  async cancel(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<MessageHistoryDto> {
+    return this.messageAdminService.cancel(id);
+  }
+
+  /**
+   * POST /messages/:id/fail - Fail a message for good, stopping its retries
+   */
+  @Post('messages/:id/fail')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Force-fail a message' })
+  @ApiParam({ name: 'id', description: 'Message UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message failed permanently',
+    type: MessageHistoryDto,
+  })
+  @ApiResponse({ status: 404, description: 'Message not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Message is already finished or is being processed',
+  })
+  async fail(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() failMessageDto: FailMessageDto,
+  ): Promise<MessageHistoryDto> {
+    return this.messageAdminService.fail(id, failMessageDto.reason);
+  }
+}
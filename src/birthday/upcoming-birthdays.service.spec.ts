@@ -0,0 +1,145 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UpcomingBirthdaysService } from './upcoming-birthdays.service';
+import { MessageTimingService } from './message-timing.service';
+import { OccasionsService } from '../occasions/occasions.service';
+import {
+  Occasion,
+  OccasionRecurrence,
+} from '../occasions/entities/occasion.entity';
+import { LeapDayPolicy } from '../occasions/leap-day';
+import { MessageType } from '../messages/message-type.enum';
+import { User } from '../users/entities/user.entity';
+
+describe('UpcomingBirthdaysService', () => {
+  let service: UpcomingBirthdaysService;
+  let occasionsService: jest.Mocked<OccasionsService>;
+
+  const config: Record<string, unknown> = {
+    'scheduler.defaultSendTime': '09:00',
+    'scheduler.leapDayPolicy': LeapDayPolicy.FEB_28,
+  };
+
+  const createBirthday = (
+    id: string,
+    birthday: string,
+    overrides: Partial<User> = {},
+  ): Occasion => {
+    const [, month, day] = birthday.split('-').map(Number);
+    return {
+      id: `occasion-${id}`,
+      kind: MessageType.BIRTHDAY,
+      recurrence: OccasionRecurrence.YEARLY,
+      date: birthday,
+      month,
+      day,
+      user: {
+        id,
+        firstName: 'John',
+        lastName: 'Doe',
+        email: `${id}@example.com`,
+        timezone: 'America/New_York',
+        sendTime: null,
+        leapDayPolicy: null,
+        ...overrides,
+      } as User,
+    } as Occasion;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UpcomingBirthdaysService,
+        MessageTimingService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: OccasionsService,
+          useValue: { findYearlyOn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UpcomingBirthdaysService>(UpcomingBirthdaysService);
+    occasionsService = module.get(OccasionsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should look up every local date that can fall within the window', async () => {
+    jest.useFakeTimers({ now: new Date('2024-12-29T12:00:00Z') });
+    occasionsService.findYearlyOn.mockResolvedValue([]);
+
+    await service.findUpcoming(3, 'Asia/Jakarta');
+
+    expect(occasionsService.findYearlyOn).toHaveBeenCalledWith(
+      MessageType.BIRTHDAY,
+      ['2024-12-28', '2024-12-29', '2024-12-30', '2024-12-31', '2025-01-01'],
+      'Asia/Jakarta',
+    );
+  });
+
+  it('should order birthdays by send time across the year boundary', async () => {
+    jest.useFakeTimers({ now: new Date('2024-12-29T12:00:00Z') });
+    occasionsService.findYearlyOn.mockResolvedValue([
+      createBirthday('jakarta', '1990-01-02', { timezone: 'Asia/Jakarta' }),
+      createBirthday('new-york', '1985-12-29', { sendTime: '10:00' }),
+      // Dec 29 has already ended in Auckland, the next birthday is a year away
+      createBirthday('auckland', '1985-12-29', {
+        timezone: 'Pacific/Auckland',
+      }),
+    ]);
+
+    const result = await service.findUpcoming(7);
+
+    expect(result).toEqual([
+      expect.objectContaining({
+        userId: 'new-york',
+        date: '2024-12-29',
+        turning: 39,
+        scheduledFor: new Date('2024-12-29T15:00:00Z'),
+      }),
+      expect.objectContaining({
+        userId: 'jakarta',
+        birthday: '1990-01-02',
+        date: '2025-01-02',
+        turning: 35,
+        scheduledFor: new Date('2025-01-02T02:00:00Z'),
+      }),
+    ]);
+  });
+
+  it('should exclude birthdays after the window', async () => {
+    jest.useFakeTimers({ now: new Date('2024-12-29T12:00:00Z') });
+    occasionsService.findYearlyOn.mockResolvedValue([
+      createBirthday('jakarta', '1990-01-02', { timezone: 'Asia/Jakarta' }),
+    ]);
+
+    expect(await service.findUpcoming(3)).toEqual([]);
+  });
+
+  it('should apply the leap-day policy in common years', async () => {
+    jest.useFakeTimers({ now: new Date('2025-02-27T12:00:00Z') });
+    occasionsService.findYearlyOn.mockResolvedValue([
+      createBirthday('default', '1992-02-29'),
+      createBirthday('march', '1992-02-29', {
+        leapDayPolicy: LeapDayPolicy.MAR_1,
+      }),
+      createBirthday('skip', '1992-02-29', {
+        leapDayPolicy: LeapDayPolicy.SKIP,
+      }),
+    ]);
+
+    const result = await service.findUpcoming(3);
+
+    expect(result.map(({ userId, date }) => ({ userId, date }))).toEqual([
+      { userId: 'default', date: '2025-02-28' },
+      { userId: 'march', date: '2025-03-01' },
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import * as moment from 'moment-timezone';
+import { OccasionsService } from '../occasions/occasions.service';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { getYearlyObservance } from '../occasions/leap-day';
+import { MessageType } from '../messages/message-type.enum';
+import { LocalDate, todayIn } from '../common/local-date';
+import { MessageTimingService } from './message-timing.service';
+import { UpcomingBirthdayDto } from './dto/upcoming-birthdays.dto';
+
+@Injectable()
+export class UpcomingBirthdaysService {
+  constructor(
+    private readonly occasionsService: OccasionsService,
+    private readonly messageTiming: MessageTimingService,
+  ) {}
+
+  /**
+   * Find birthdays falling within the next days in each user's own timezone,
+   * ordered by the instant their message is sent
+   * @param days Number of days to look ahead, including each user's today
+   * @param timezone Only include users in this timezone
+   */
+  async findUpcoming(
+    days: number,
+    timezone?: string,
+  ): Promise<UpcomingBirthdayDto[]> {
+    // A user's today is at most one day before or after the UTC date
+    const utcToday = moment.utc().startOf('day');
+    const dates: LocalDate[] = [];
+    for (let offset = -1; offset <= days; offset++) {
+      dates.push(utcToday.clone().add(offset, 'days').format('YYYY-MM-DD'));
+    }
+
+    const occasions = await this.occasionsService.findYearlyOn(
+      MessageType.BIRTHDAY,
+      dates,
+      timezone,
+    );
+
+    return occasions
+      .map((occasion) => this.toUpcomingBirthday(occasion, days))
+      .filter((birthday): birthday is UpcomingBirthdayDto => birthday !== null)
+      .sort(
+        (a, b) =>
+          a.scheduledFor.getTime() - b.scheduledFor.getTime() ||
+          a.userId.localeCompare(b.userId),
+      );
+  }
+
+  /**
+   * Compute the next birthday of the occasion's user if it falls within the
+   * next days in their timezone
+   */
+  private toUpcomingBirthday(
+    occasion: Occasion,
+    days: number,
+  ): UpcomingBirthdayDto | null {
+    const { user } = occasion;
+    const today = todayIn(user.timezone);
+    const lastDay = moment
+      .utc(today)
+      .add(days - 1, 'days')
+      .format('YYYY-MM-DD');
+    const policy = this.messageTiming.getLeapDayPolicy(user);
+
+    // The next birthday is this year's, or next year's once it has passed
+    const year = parseInt(today.slice(0, 4), 10);
+    for (const candidateYear of [year, year + 1]) {
+      const date = getYearlyObservance(
+        occasion.month,
+        occasion.day,
+        candidateYear,
+        policy,
+      );
+      if (!date || date < today) {
+        continue;
+      }
+      if (date > lastDay) {
+        return null;
+      }
+
+      return {
+        userId: user.id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        timezone: user.timezone,
+        birthday: occasion.date,
+        date,
+        turning: candidateYear - parseInt(occasion.date.slice(0, 4), 10),
+        scheduledFor: this.messageTiming.getScheduledFor(date, user).toDate(),
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,44 @@
+import { formatCsvRow, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\r\n4,,6')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+      ['4', '', '6'],
+    ]);
+  });
+
+  it('should handle quoted fields with commas, quotes and line breaks', () => {
+    expect(
+      parseCsv('name,note\n"Doe, John","said ""hi""\nthen left"\n'),
+    ).toEqual([
+      ['name', 'note'],
+      ['Doe, John', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('should skip blank lines and the byte order mark', () => {
+    expect(parseCsv('﻿a,b\n\n1,2\n\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('should reject unterminated quoted fields', () => {
+    expect(() => parseCsv('a,b\n"1,2')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('formatCsvRow', () => {
+  it('should join fields and leave missing values empty', () => {
+    expect(formatCsvRow(['a', 1, null, undefined, 'b'])).toBe('a,1,,,b');
+  });
+
+  it('should quote fields that need it so they parse back', () => {
+    const row = formatCsvRow(['Doe, John', 'said "hi"', 'two\nlines']);
+
+    expect(row).toBe('"Doe, John","said ""hi""","two\nlines"');
+    expect(parseCsv(row)).toEqual([['Doe, John', 'said "hi"', 'two\nlines']]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Parse CSV text (RFC 4180) into rows of fields
+ * Supports quoted fields with commas, escaped quotes ("") and line breaks;
+ * blank lines are skipped
+ * @throws Error if a quoted field is not terminated
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Ignore the byte order mark added by spreadsheet exports
+  const input = text.startsWith('﻿') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== '');
+}
+
+/**
+ * Format fields as a CSV row (without line break), quoting fields that
+ * contain commas, quotes or line breaks
+ */
+export function formatCsvRow(
+  fields: (string | number | null | undefined)[],
+): string {
+  return fields
+    .map((field) => {
+      const value = field === null || field === undefined ? '' : String(field);
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    })
+    .join(',');
+}
@@ -0,0 +1,28 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    description: 'Maximum number of items per page',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Cursor from the `nextCursor` of the previous page',
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
@@ -0,0 +1,53 @@
+import * as moment from 'moment-timezone';
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * A calendar date without time or timezone in ISO format (YYYY-MM-DD)
+ * Birthdays and other occasion dates are local dates: they are celebrated on
+ * the same day in whichever timezone the user lives, so they must never be
+ * converted through a JavaScript Date and the server's timezone
+ */
+export type LocalDate = string;
+
+const LOCAL_DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Check if a value is an existing calendar date in YYYY-MM-DD format
+ * (rejects e.g. 2023-02-29 or 1990-13-01)
+ */
+export function isLocalDate(value: unknown): value is LocalDate {
+  return (
+    typeof value === 'string' &&
+    moment.utc(value, LOCAL_DATE_FORMAT, true).isValid()
+  );
+}
+
+/**
+ * Get the month (1-12) and day of the month of a local date
+ */
+export function getMonthDay(date: LocalDate): { month: number; day: number } {
+  const [, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  return { month, day };
+}
+
+/**
+ * Get the current local date in a timezone
+ */
+export function todayIn(timezone: string): LocalDate {
+  return moment.tz(timezone).format(LOCAL_DATE_FORMAT);
+}
+
+/**
+ * Keeps `date` columns as local dates when reading from the database
+ */
+export const localDateTransformer: ValueTransformer = {
+  to: (value: LocalDate | null | undefined) => value,
+  from: (value: string | Date | null): LocalDate | null => {
+    if (value === null || typeof value === 'string') {
+      return value;
+    }
+    // Drivers that parse dates return them at midnight in the server's timezone
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  },
+};
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+
+/**
+ * Envelope of a page of results with a cursor to the next page
+ */
+export interface Paginated<T> {
+  data: T[];
+  nextCursor: string | null; // Pass as `cursor` to get the next page, null on the last page
+  hasMore: boolean;
+}
+
+/**
+ * Encode the position after the last item of a page as an opaque cursor
+ */
+export function encodeCursor(position: object): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decode a cursor created by encodeCursor
+ * @returns the position, or null if the cursor is malformed
+ */
+export function decodeCursor<T extends object>(cursor: string): T | null {
+  try {
+    const position: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    return typeof position === 'object' && position !== null
+      ? (position as T)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort value and ID of the last item of a page, decoded from its cursor
+ */
+export interface PageCursor<V> {
+  value: V;
+  id: string;
+}
+
+/**
+ * Decode a cursor holding the sort value and ID of the last item of a page
+ * Tampered cursors are rejected before their values reach the database
+ * @param parseValue Reads the sort value from the decoded position, returning
+ * null if it is invalid
+ * @throws BadRequestException if the cursor is malformed
+ */
+export function decodePageCursor<V>(
+  cursor: string,
+  parseValue: (position: Record<string, unknown>) => V | null,
+): PageCursor<V> {
+  const position = decodeCursor<Record<string, unknown>>(cursor);
+  const value = position ? parseValue(position) : null;
+  if (
+    !position ||
+    value === null ||
+    typeof position.id !== 'string' ||
+    !isUUID(position.id)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return { value, id: position.id };
+}
+
+/**
+ * Read an ISO timestamp stored in a cursor
+ * @returns the instant, or null if the value is not a valid timestamp
+ */
+export function parseCursorDate(value: unknown): Date | null {
+  const date = new Date(typeof value === 'string' ? value : NaN);
+  return isNaN(date.getTime()) ? null : date;
+}
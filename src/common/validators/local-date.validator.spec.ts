@@ -0,0 +1,66 @@
+import { validate } from 'class-validator';
+import { IsLocalDate } from './local-date.validator';
+
+class Birthday {
+  @IsLocalDate({ notInFuture: true })
+  birthday: unknown;
+}
+
+class StartDate {
+  @IsLocalDate()
+  startDate: unknown;
+}
+
+describe('IsLocalDate', () => {
+  const validateBirthday = async (birthday: unknown) => {
+    const target = new Birthday();
+    target.birthday = birthday;
+    return validate(target);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-07-25T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should accept existing dates in YYYY-MM-DD format', async () => {
+    expect(await validateBirthday('1990-05-15')).toHaveLength(0);
+    expect(await validateBirthday('1992-02-29')).toHaveLength(0);
+  });
+
+  it('should reject impossible dates', async () => {
+    for (const birthday of ['1991-02-29', '1990-13-01', '1990-04-31']) {
+      expect(await validateBirthday(birthday)).toHaveLength(1);
+    }
+  });
+
+  it('should reject other formats and types', async () => {
+    for (const birthday of ['1990-5-15', '1990-05-15T00:00:00Z', 19900515]) {
+      expect(await validateBirthday(birthday)).toHaveLength(1);
+    }
+  });
+
+  it('should reject birthdays in the future', async () => {
+    const [error] = await validateBirthday('2024-07-27');
+
+    expect(error.constraints).toEqual({
+      isLocalDate:
+        'birthday must be an existing date in YYYY-MM-DD format that is not in the future',
+    });
+  });
+
+  it('should accept a birthday that is already today in some timezone', async () => {
+    // Jul 26 has already started in UTC+14
+    expect(await validateBirthday('2024-07-26')).toHaveLength(0);
+  });
+
+  it('should accept future dates when not restricted', async () => {
+    const target = new StartDate();
+    target.startDate = '2030-01-01';
+
+    expect(await validate(target)).toHaveLength(0);
+  });
+});
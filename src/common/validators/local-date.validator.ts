@@ -0,0 +1,59 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { isLocalDate, todayIn } from '../local-date';
+
+// The first timezone to reach a new day, so dates that are today anywhere are accepted
+const EARLIEST_TIMEZONE = 'Pacific/Kiritimati';
+
+export interface IsLocalDateOptions {
+  /** Reject dates after today (e.g. birthdays) */
+  notInFuture?: boolean;
+}
+
+/**
+ * Custom validator to check if a value is an existing calendar date (YYYY-MM-DD)
+ * and optionally not in the future
+ */
+@ValidatorConstraint({ name: 'isLocalDate', async: false })
+export class IsLocalDateConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown, args: ValidationArguments): boolean {
+    if (!isLocalDate(value)) {
+      return false;
+    }
+
+    const [options] = args.constraints as [IsLocalDateOptions];
+    return !options.notInFuture || value <= todayIn(EARLIEST_TIMEZONE);
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    const [options] = args.constraints as [IsLocalDateOptions];
+    return options.notInFuture
+      ? `${args.property} must be an existing date in YYYY-MM-DD format that is not in the future`
+      : `${args.property} must be an existing date in YYYY-MM-DD format`;
+  }
+}
+
+/**
+ * Decorator to validate a local calendar date (YYYY-MM-DD)
+ * @param options Local date options, e.g. to reject future dates
+ * @param validationOptions Optional validation options
+ */
+export function IsLocalDate(
+  options: IsLocalDateOptions = {},
+  validationOptions?: ValidationOptions,
+) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [options],
+      validator: IsLocalDateConstraint,
+    });
+  };
+}
@@ -0,0 +1,56 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+
+// Same format as occasion kinds, which are used as message types
+const MESSAGE_TYPE_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/;
+
+/**
+ * Check if a value maps message types to boolean subscription flags
+ */
+export function isSubscriptions(
+  value: unknown,
+): value is Record<string, boolean> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value).every(
+    ([messageType, subscribed]) =>
+      messageType.length <= 50 &&
+      MESSAGE_TYPE_PATTERN.test(messageType) &&
+      typeof subscribed === 'boolean',
+  );
+}
+
+/**
+ * Custom validator to check subscription flags per message type
+ */
+@ValidatorConstraint({ name: 'isSubscriptions', async: false })
+export class IsSubscriptionsConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return isSubscriptions(value);
+  }
+
+  defaultMessage(): string {
+    return 'subscriptions must map message types to true or false (e.g., { "anniversary": false })';
+  }
+}
+
+/**
+ * Decorator to validate subscription flags per message type
+ * @param validationOptions Optional validation options
+ */
+export function IsSubscriptions(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsSubscriptionsConstraint,
+    });
+  };
+}
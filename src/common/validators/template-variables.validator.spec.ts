@@ -0,0 +1,32 @@
+import { validate } from 'class-validator';
+import { HasKnownTemplateVariables } from './template-variables.validator';
+
+class Occasion {
+  @HasKnownTemplateVariables()
+  template: unknown;
+}
+
+describe('HasKnownTemplateVariables', () => {
+  const validateTemplate = async (template: unknown) => {
+    const target = new Occasion();
+    target.template = template;
+    return validate(target);
+  };
+
+  it('should accept templates using known variables', async () => {
+    expect(
+      await validateTemplate('Happy name day, {{ firstName }} {{lastName}}!'),
+    ).toHaveLength(0);
+    expect(await validateTemplate('Happy name day!')).toHaveLength(0);
+  });
+
+  it('should reject misspelt variables', async () => {
+    const errors = await validateTemplate('Happy name day, {{fullname}}!');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].constraints).toEqual({
+      hasKnownTemplateVariables:
+        'template uses unknown template variable(s): fullname',
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+import { findUnknownVariables } from '../../messages/template-engine';
+
+/**
+ * Custom validator to check that a message template only uses known
+ * {{variables}}, so a misspelt placeholder is not sent to users literally
+ */
+@ValidatorConstraint({ name: 'hasKnownTemplateVariables', async: false })
+export class HasKnownTemplateVariablesConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return (
+      typeof value !== 'string' || findUnknownVariables(value).length === 0
+    );
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    const unknown = findUnknownVariables(String(args.value));
+    return `${args.property} uses unknown template variable(s): ${unknown.join(', ')}`;
+  }
+}
+
+/**
+ * Decorator to validate the {{variables}} of a message template
+ * Non-string values are left to the other validators
+ * @param validationOptions Optional validation options
+ */
+export function HasKnownTemplateVariables(
+  validationOptions?: ValidationOptions,
+) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: HasKnownTemplateVariablesConstraint,
+    });
+  };
+}
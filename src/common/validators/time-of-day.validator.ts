@@ -0,0 +1,45 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+} from 'class-validator';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Check if a value is a 24-hour time of day in HH:mm format
+ */
+export function isTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+}
+
+/**
+ * Custom validator to check if a value is a 24-hour time of day (HH:mm)
+ */
+@ValidatorConstraint({ name: 'isTimeOfDay', async: false })
+export class IsTimeOfDayConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return isTimeOfDay(value);
+  }
+
+  defaultMessage(): string {
+    return 'sendTime must be a 24-hour time in HH:mm format (e.g., 08:30, 12:00)';
+  }
+}
+
+/**
+ * Decorator to validate a 24-hour time of day (HH:mm)
+ * @param validationOptions Optional validation options
+ */
+export function IsTimeOfDay(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string) {
+    registerDecorator({
+      target: object.constructor,
+      propertyName: propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsTimeOfDayConstraint,
+    });
+  };
+}
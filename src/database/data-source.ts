@@ -0,0 +1,35 @@
+import { DataSource } from 'typeorm';
+import { User } from '../users/entities/user.entity';
+import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { DlqAuditEntry } from '../dlq/entities/dlq-audit-entry.entity';
+import { OutboxEntry } from '../outbox/entities/outbox-entry.entity';
+import { MessageTemplate } from '../templates/entities/message-template.entity';
+import { MessageTemplateVersion } from '../templates/entities/message-template-version.entity';
+
+/**
+ * Data source used by the TypeORM CLI to run migrations
+ *
+ * Usage:
+ *   npm run migration:run     - Apply pending migrations
+ *   npm run migration:revert  - Revert the last applied migration
+ */
+export default new DataSource({
+  type: 'postgres',
+  host: process.env.DATABASE_HOST || 'localhost',
+  port: parseInt(process.env.DATABASE_PORT || '5432', 10),
+  username: process.env.DATABASE_USER || 'birthday_user',
+  password: process.env.DATABASE_PASSWORD || 'birthday_pass',
+  database: process.env.DATABASE_NAME || 'birthday_db',
+  entities: [
+    User,
+    BirthdayMessage,
+    Occasion,
+    DlqAuditEntry,
+    OutboxEntry,
+    MessageTemplate,
+    MessageTemplateVersion,
+  ],
+  migrations: [__dirname + '/migrations/*{.ts,.js}'],
+  synchronize: false,
+});
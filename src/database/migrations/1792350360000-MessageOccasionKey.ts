@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Widen the birthday_messages idempotency key from (user, year) to
+ * (user, message type, occasion date) so different occasion types can coexist
+ */
+export class MessageOccasionKey1792350360000 implements MigrationInterface {
+  name = 'MessageOccasionKey1792350360000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "occasion_date" date`,
+    );
+
+    // Backfill existing rows with the scheduled day in the user's timezone
+    await queryRunner.query(
+      `UPDATE "birthday_messages" "message"
+       SET "occasion_date" = ("message"."scheduled_for" AT TIME ZONE "user"."timezone")::date
+       FROM "users" "user"
+       WHERE "user"."id" = "message"."user_id"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "occasion_date" SET NOT NULL`,
+    );
+
+    // Generated name of the previous @Unique(['userId', 'year']) constraint
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP CONSTRAINT IF EXISTS "UQ_2fb61db1635ae522f171ded103a"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD CONSTRAINT "UQ_birthday_messages_user_type_occasion" UNIQUE ("user_id", "message_type", "occasion_date")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP CONSTRAINT "UQ_birthday_messages_user_type_occasion"`,
+    );
+
+    // Fails if a user has more than one message in the same year
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD CONSTRAINT "UQ_2fb61db1635ae522f171ded103a" UNIQUE ("user_id", "year")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "occasion_date"`,
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Introduce the occasions table that drives the scheduler, backfill it from
+ * user birthdays and start dates, and allow custom occasion kinds as message types
+ */
+export class CreateOccasions1792360000000 implements MigrationInterface {
+  name = 'CreateOccasions1792360000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "start_date" date`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN IF EXISTS "start_month"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN IF EXISTS "start_day"`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "occasions_recurrence_enum" AS ENUM('yearly', 'monthly', 'one_off')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "occasions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "kind" character varying(50) NOT NULL,
+        "date" date NOT NULL,
+        "month" integer NOT NULL,
+        "day" integer NOT NULL,
+        "recurrence" "occasions_recurrence_enum" NOT NULL DEFAULT 'yearly',
+        "template" text,
+        "managed" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_occasions" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_occasions_user" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_occasions_month_day" ON "occasions" ("month", "day")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_occasions_user_kind" ON "occasions" ("user_id", "kind")`,
+    );
+
+    // Backfill profile occasions from existing users
+    await queryRunner.query(
+      `INSERT INTO "occasions" ("user_id", "kind", "date", "month", "day", "recurrence", "managed")
+       SELECT "id", 'birthday', "birthday", "birthday_month", "birthday_day", 'yearly', true
+       FROM "users"`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "occasions" ("user_id", "kind", "date", "month", "day", "recurrence", "managed")
+       SELECT "id", 'anniversary', "start_date", EXTRACT(MONTH FROM "start_date"), EXTRACT(DAY FROM "start_date"), 'yearly', true
+       FROM "users"
+       WHERE "start_date" IS NOT NULL`,
+    );
+
+    // Message types are no longer limited to the built-in enum
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" TYPE character varying(50) USING "message_type"::text`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" SET DEFAULT 'birthday'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE IF EXISTS "birthday_messages_message_type_enum"`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "occasion_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD CONSTRAINT "FK_birthday_messages_occasion" FOREIGN KEY ("occasion_id") REFERENCES "occasions"("id") ON DELETE SET NULL`,
+    );
+    await queryRunner.query(
+      `UPDATE "birthday_messages" "message"
+       SET "occasion_id" = "occasion"."id"
+       FROM "occasions" "occasion"
+       WHERE "occasion"."user_id" = "message"."user_id"
+         AND "occasion"."kind" = "message"."message_type"
+         AND "occasion"."managed" = true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP CONSTRAINT "FK_birthday_messages_occasion"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "occasion_id"`,
+    );
+
+    // Messages for custom occasion kinds cannot be represented by the enum
+    await queryRunner.query(
+      `DELETE FROM "birthday_messages" WHERE "message_type" NOT IN ('birthday', 'anniversary')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "birthday_messages_message_type_enum" AS ENUM('birthday', 'anniversary')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" TYPE "birthday_messages_message_type_enum" USING "message_type"::"birthday_messages_message_type_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "message_type" SET DEFAULT 'birthday'`,
+    );
+
+    await queryRunner.query(`DROP TABLE "occasions"`);
+    await queryRunner.query(`DROP TYPE "occasions_recurrence_enum"`);
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Track when a message becomes too late to send and allow expiring it
+ */
+export class MessageExpiry1792380000000 implements MigrationInterface {
+  name = 'MessageExpiry1792380000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "birthday_messages_status_enum" ADD VALUE IF NOT EXISTS 'expired'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "expires_at" TIMESTAMP WITH TIME ZONE`,
+    );
+
+    // Existing messages expire at the end of their occasion day in the user's timezone
+    await queryRunner.query(
+      `UPDATE "birthday_messages" "m"
+       SET "expires_at" = ("m"."occasion_date" + 1)::timestamp AT TIME ZONE "u"."timezone"
+       FROM "users" "u"
+       WHERE "u"."id" = "m"."user_id"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "expires_at"`,
+    );
+
+    // Postgres cannot drop a single enum value, so recreate the type without it
+    await queryRunner.query(
+      `UPDATE "birthday_messages" SET "status" = 'failed' WHERE "status" = 'expired'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "birthday_messages_status_enum" RENAME TO "birthday_messages_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "birthday_messages_status_enum" AS ENUM('pending', 'queued', 'sent', 'failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" TYPE "birthday_messages_status_enum" USING "status"::text::"birthday_messages_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "birthday_messages_status_enum_old"`);
+  }
+}
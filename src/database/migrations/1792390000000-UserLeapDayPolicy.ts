@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add the per-user override of the leap-day policy
+ */
+export class UserLeapDayPolicy1792390000000 implements MigrationInterface {
+  name = 'UserLeapDayPolicy1792390000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "users_leap_day_policy_enum" AS ENUM('feb-28', 'mar-1', 'skip')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "leap_day_policy" "users_leap_day_policy_enum"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "leap_day_policy"`,
+    );
+    await queryRunner.query(`DROP TYPE "users_leap_day_policy_enum"`);
+  }
+}
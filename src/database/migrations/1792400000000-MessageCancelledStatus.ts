@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Allow administrators to cancel a message before it is sent
+ */
+export class MessageCancelledStatus1792400000000 implements MigrationInterface {
+  name = 'MessageCancelledStatus1792400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "birthday_messages_status_enum" ADD VALUE IF NOT EXISTS 'cancelled'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop a single enum value, so recreate the type without it
+    await queryRunner.query(
+      `UPDATE "birthday_messages" SET "status" = 'failed' WHERE "status" = 'cancelled'`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "birthday_messages_status_enum" RENAME TO "birthday_messages_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "birthday_messages_status_enum" AS ENUM('pending', 'queued', 'sent', 'failed', 'expired')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" TYPE "birthday_messages_status_enum" USING "status"::text::"birthday_messages_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ALTER COLUMN "status" SET DEFAULT 'pending'`,
+    );
+    await queryRunner.query(`DROP TYPE "birthday_messages_status_enum_old"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Record who replayed or purged messages of the dead letter queue
+ */
+export class CreateDlqAuditEntries1792410000000 implements MigrationInterface {
+  name = 'CreateDlqAuditEntries1792410000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "dlq_audit_entries_action_enum" AS ENUM('replay', 'purge')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "dlq_audit_entries" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "action" "dlq_audit_entries_action_enum" NOT NULL,
+        "actor" character varying(100) NOT NULL,
+        "message_id" uuid,
+        "count" integer NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_dlq_audit_entries" PRIMARY KEY ("id")
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dlq_audit_entries_created_at" ON "dlq_audit_entries" ("created_at")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "dlq_audit_entries"`);
+    await queryRunner.query(`DROP TYPE "dlq_audit_entries_action_enum"`);
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Transactional outbox of messages to publish onto the birthday queue
+ */
+export class CreateMessageOutbox1792420000000 implements MigrationInterface {
+  name = 'CreateMessageOutbox1792420000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "message_outbox" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "message_id" uuid NOT NULL,
+        "payload" jsonb NOT NULL,
+        "attempts" integer NOT NULL DEFAULT 0,
+        "last_error" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "dispatched_at" TIMESTAMP WITH TIME ZONE,
+        CONSTRAINT "PK_message_outbox" PRIMARY KEY ("id"),
+        CONSTRAINT "FK_message_outbox_message" FOREIGN KEY ("message_id") REFERENCES "birthday_messages"("id") ON DELETE CASCADE
+      )`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_message_outbox_pending" ON "message_outbox" ("created_at") WHERE "dispatched_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "message_outbox"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Add per-user notification channels and per-channel delivery tracking
+ * Messages sent before went out by email only
+ */
+export class NotificationChannels1792430000000 implements MigrationInterface {
+  name = 'NotificationChannels1792430000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "users_notification_channels_enum" AS ENUM('email', 'sms', 'slack', 'webhook')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "notification_channels" "users_notification_channels_enum" array NOT NULL DEFAULT '{email}'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "phone_number" character varying(32)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "deliveries" jsonb NOT NULL DEFAULT '{}'`,
+    );
+    await queryRunner.query(
+      `UPDATE "birthday_messages"
+        SET "deliveries" = jsonb_build_object('email', jsonb_build_object(
+          'status', 'sent',
+          'attempts', "attempts" + 1,
+          'lastError', NULL,
+          'sentAt', to_jsonb("sent_at")
+        ))
+        WHERE "status" = 'sent'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "deliveries"`,
+    );
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "phone_number"`);
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "notification_channels"`,
+    );
+    await queryRunner.query(`DROP TYPE "users_notification_channels_enum"`);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Let users opt out of all messages or of single message types
+ */
+export class UserSubscriptions1792440000000 implements MigrationInterface {
+  name = 'UserSubscriptions1792440000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "opted_out" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "subscriptions" jsonb NOT NULL DEFAULT '{}'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "subscriptions"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "opted_out"`);
+  }
+}
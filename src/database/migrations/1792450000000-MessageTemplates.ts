@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Stored message templates per message type and locale, and the user's locale
+ * The built-in English templates are seeded so they can be edited
+ */
+export class MessageTemplates1792450000000 implements MigrationInterface {
+  name = 'MessageTemplates1792450000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "message_templates" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "message_type" character varying(50) NOT NULL,
+        "locale" character varying(35) NOT NULL,
+        "subject" character varying(255) NOT NULL,
+        "body_text" text NOT NULL,
+        "body_html" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_message_templates" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_message_templates_type_locale" UNIQUE ("message_type", "locale")
+      )`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "message_templates" ("message_type", "locale", "subject", "body_text", "body_html")
+        VALUES ($1, 'en', $2, $3, $4), ($5, 'en', $6, $7, $8)`,
+      [
+        'birthday',
+        'Happy birthday, {{firstName}}!',
+        "Hey, {{fullName}} it's your birthday",
+        "<p>Hey, {{fullName}} it's your birthday</p>",
+        'anniversary',
+        'Happy work anniversary, {{firstName}}!',
+        'Hey, {{fullName}} happy work anniversary!',
+        '<p>Hey, {{fullName}} happy work anniversary!</p>',
+      ],
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "locale" character varying(35)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "locale"`);
+    await queryRunner.query(`DROP TABLE "message_templates"`);
+  }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Version history of message templates, and the template version each
+ * message was rendered with
+ * Existing templates become version 1
+ */
+export class TemplateVersions1792460000000 implements MigrationInterface {
+  name = 'TemplateVersions1792460000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" ADD "version" integer NOT NULL DEFAULT 1`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "message_template_versions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "template_id" uuid NOT NULL,
+        "version" integer NOT NULL,
+        "subject" character varying(255) NOT NULL,
+        "body_text" text NOT NULL,
+        "body_html" text,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_message_template_versions" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_message_template_versions_template_version" UNIQUE ("template_id", "version"),
+        CONSTRAINT "FK_message_template_versions_template" FOREIGN KEY ("template_id") REFERENCES "message_templates"("id") ON DELETE CASCADE
+      )`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "message_template_versions" ("template_id", "version", "subject", "body_text", "body_html", "created_at")
+        SELECT "id", "version", "subject", "body_text", "body_html", "updated_at" FROM "message_templates"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "template_id" uuid`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" ADD "template_version" integer`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "template_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "birthday_messages" DROP COLUMN "template_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "message_template_versions"`);
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" DROP COLUMN "version"`,
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Deleted templates are kept with their versions, which messages refer to
+ * Only templates in use are unique per message type and locale
+ */
+export class SoftDeleteTemplates1792470000000 implements MigrationInterface {
+  name = 'SoftDeleteTemplates1792470000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" ADD "deleted_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" DROP CONSTRAINT "UQ_message_templates_type_locale"`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_message_templates_type_locale" ON "message_templates" ("message_type", "locale") WHERE "deleted_at" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DELETE FROM "message_templates" WHERE "deleted_at" IS NOT NULL`,
+    );
+    await queryRunner.query(`DROP INDEX "UQ_message_templates_type_locale"`);
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" ADD CONSTRAINT "UQ_message_templates_type_locale" UNIQUE ("message_type", "locale")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "message_templates" DROP COLUMN "deleted_at"`,
+    );
+  }
+}
@@ -1,6 +1,10 @@
 import { DataSource } from 'typeorm';
 import { User } from '../users/entities/user.entity';
 import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { buildProfileOccasions } from '../occasions/profile-occasions';
+import { MessageType } from '../messages/message-type.enum';
+import { getMonthDay } from '../common/local-date';
 
 /**
  * Seed script to populate the database with sample users for testing
@@ -17,7 +21,7 @@ const dataSource = new DataSource({
   username: process.env.DATABASE_USER || 'birthday_user',
   password: process.env.DATABASE_PASSWORD || 'birthday_pass',
   database: process.env.DATABASE_NAME || 'birthday_db',
-  entities: [User, BirthdayMessage],
+  entities: [User, BirthdayMessage, Occasion],
   synchronize: false,
 });
 
@@ -25,6 +29,9 @@ const dataSource = new DataSource({
 const today = new Date();
 const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
 
+// Start date exactly 3 years ago for work anniversary users
+const anniversaryStr = `${today.getFullYear() - 3}${todayStr.slice(4)}`;
+
 // Sample users with different timezones
 const sampleUsers = [
   // ========================================
@@ -36,6 +43,7 @@ const sampleUsers = [
     lastName: 'Jakarta',
     email: 'budi.jakarta@example.com',
     birthday: todayStr,
+    startDate: anniversaryStr,
     timezone: 'Asia/Jakarta',
   },
   {
@@ -138,6 +146,7 @@ const sampleUsers = [
     lastName: 'NewYork',
     email: 'john.newyork@example.com',
     birthday: todayStr,
+    startDate: anniversaryStr,
     timezone: 'America/New_York',
   },
   {
@@ -182,10 +191,12 @@ async function seed() {
 
     const userRepository = dataSource.getRepository(User);
     const messageRepository = dataSource.getRepository(BirthdayMessage);
+    const occasionRepository = dataSource.getRepository(Occasion);
 
     if (clearData) {
       console.log('🗑️  Clearing existing data...');
       await messageRepository.createQueryBuilder().delete().execute();
+      await occasionRepository.createQueryBuilder().delete().execute();
       await userRepository.createQueryBuilder().delete().execute();
       console.log('✅ Data cleared');
     }
@@ -205,11 +216,16 @@ async function seed() {
 
       const user = userRepository.create({
         ...userData,
-        birthdayMonth: new Date(userData.birthday).getMonth() + 1,
-        birthdayDay: new Date(userData.birthday).getDate(),
+        birthdayMonth: getMonthDay(userData.birthday).month,
+        birthdayDay: getMonthDay(userData.birthday).day,
       });
 
-      await userRepository.save(user);
+      const savedUser = await userRepository.save(user);
+      await occasionRepository.save(
+        buildProfileOccasions(savedUser).map((occasion) =>
+          occasionRepository.create(occasion),
+        ),
+      );
       console.log(
         `   ✅ Created: ${userData.firstName} ${userData.lastName} (${userData.timezone})`,
       );
@@ -223,10 +239,18 @@ async function seed() {
         birthdayDay: today.getDate(),
       },
     });
+    const todayAnniversaries = await occasionRepository.count({
+      where: {
+        kind: MessageType.ANNIVERSARY,
+        month: today.getMonth() + 1,
+        day: today.getDate(),
+      },
+    });
 
     console.log('\n📊 Summary:');
     console.log(`   Total users: ${totalUsers}`);
     console.log(`   Users with birthday today: ${todayBirthdays}`);
+    console.log(`   Users with work anniversary today: ${todayAnniversaries}`);
     console.log('\n🎉 Seed completed successfully!');
 
     console.log('\n📝 Next steps:');
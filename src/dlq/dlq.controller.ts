@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { DlqService } from './dlq.service';
+import {
+  DlqActionDto,
+  DlqAuditEntryDto,
+  DlqMessagesDto,
+  DlqPurgeResultDto,
+  DlqReplayResultDto,
+  ListDlqQueryDto,
+} from './dto/dlq.dto';
+
+@ApiTags('dlq')
+@Controller('dlq')
+export class DlqController {
+  constructor(private readonly dlqService: DlqService) {}
+
+  /**
+   * GET /dlq - Dead-lettered messages with their failure reason
+   */
+  @Get()
+  @ApiOperation({ summary: 'List dead-lettered messages' })
+  @ApiResponse({
+    status: 200,
+    description: 'The oldest dead-lettered messages',
+    type: DlqMessagesDto,
+  })
+  @ApiResponse({ status: 409, description: 'Another DLQ operation is running' })
+  async findAll(@Query() query: ListDlqQueryDto): Promise<DlqMessagesDto> {
+    return this.dlqService.list(query.limit);
+  }
+
+  /**
+   * GET /dlq/audit - Who replayed or purged what
+   */
+  @Get('audit')
+  @ApiOperation({ summary: 'List DLQ audit entries' })
+  @ApiResponse({
+    status: 200,
+    description: 'Most recent replays and purges first',
+    type: [DlqAuditEntryDto],
+  })
+  async findAuditEntries(
+    @Query() query: ListDlqQueryDto,
+  ): Promise<DlqAuditEntryDto[]> {
+    return this.dlqService.findAuditEntries(query.limit);
+  }
+
+  /**
+   * POST /dlq/replay - Replay every dead-lettered message
+   */
+  @Post('replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replay all dead-lettered messages' })
+  @ApiResponse({
+    status: 200,
+    description: 'Messages replayed, discarded and skipped',
+    type: DlqReplayResultDto,
+  })
+  @ApiResponse({ status: 409, description: 'Another DLQ operation is running' })
+  async replayAll(
+    @Body() dlqActionDto: DlqActionDto,
+  ): Promise<DlqReplayResultDto> {
+    return this.dlqService.replayQueue(dlqActionDto.actor);
+  }
+
+  /**
+   * POST /dlq/:messageId/replay - Replay one dead-lettered message
+   */
+  @Post(':messageId/replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Replay a dead-lettered message' })
+  @ApiParam({ name: 'messageId', description: 'Message UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message replayed or discarded',
+    type: DlqReplayResultDto,
+  })
+  @ApiResponse({ status: 404, description: 'Message not in the DLQ' })
+  @ApiResponse({ status: 409, description: 'Another DLQ operation is running' })
+  async replay(
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Body() dlqActionDto: DlqActionDto,
+  ): Promise<DlqReplayResultDto> {
+    return this.dlqService.replay(messageId, dlqActionDto.actor);
+  }
+
+  /**
+   * POST /dlq/purge - Drop every dead-lettered message
+   */
+  @Post('purge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Purge the dead letter queue' })
+  @ApiResponse({
+    status: 200,
+    description: 'Number of purged messages',
+    type: DlqPurgeResultDto,
+  })
+  @ApiResponse({ status: 409, description: 'Another DLQ operation is running' })
+  async purge(@Body() dlqActionDto: DlqActionDto): Promise<DlqPurgeResultDto> {
+    return this.dlqService.purge(dlqActionDto.actor);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DlqController } from './dlq.controller';
+import { DlqService } from './dlq.service';
+import { DlqAuditEntry } from './entities/dlq-audit-entry.entity';
+import { BirthdayModule } from '../birthday/birthday.module';
+import { RedisModule } from '../redis/redis.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([DlqAuditEntry]),
+    BirthdayModule,
+    RedisModule,
+  ],
+  controllers: [DlqController],
+  providers: [DlqService],
+})
+export class DlqModule {}
@@ -0,0 +1,329 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import type * as amqp from 'amqplib';
+import { DlqService } from './dlq.service';
+import { DlqAction, DlqAuditEntry } from './entities/dlq-audit-entry.entity';
+import { BirthdayService } from '../birthday/birthday.service';
+import { MessageAdminService } from '../birthday/message-admin.service';
+import { LockService } from '../redis/lock.service';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+} from '../birthday/entities/birthday-message.entity';
+import { BIRTHDAY_DLQ } from '../queue/amqp-message-queue';
+
+describe('DlqService', () => {
+  let service: DlqService;
+  let birthdayService: jest.Mocked<BirthdayService>;
+  let messageAdminService: jest.Mocked<MessageAdminService>;
+  let lockService: jest.Mocked<LockService>;
+  let rabbitMq: jest.Mocked<RabbitMqService>;
+  let queue: amqp.GetMessage[];
+  let transport: string;
+
+  const channel = {
+    checkQueue: jest.fn(() => Promise.resolve({ messageCount: queue.length })),
+    get: jest.fn(() => Promise.resolve(queue.shift() ?? false)),
+    purgeQueue: jest.fn(() => Promise.resolve({ messageCount: 3 })),
+    ack: jest.fn(),
+    nack: jest.fn(),
+    close: jest.fn(),
+  };
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+  const ids = {
+    first: '123e4567-e89b-12d3-a456-426614174001',
+    second: '123e4567-e89b-12d3-a456-426614174002',
+    third: '123e4567-e89b-12d3-a456-426614174003',
+    sent: '123e4567-e89b-12d3-a456-426614174004',
+    busy: '123e4567-e89b-12d3-a456-426614174005',
+  };
+
+  const auditRepository = {
+    create: jest.fn((entry: Partial<DlqAuditEntry>) => entry),
+    save: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const deadLetter = (messageId: string): amqp.GetMessage =>
+    ({
+      content: Buffer.from(
+        JSON.stringify({
+          messageId,
+          userId: userId,
+          email: 'john@example.com',
+          fullName: 'John Doe',
+          messageType: 'birthday',
+        }),
+      ),
+      properties: {
+        headers: {
+          'x-death': [
+            { queue: 'birthday-messages-retry-1000ms', reason: 'expired' },
+            { queue: 'birthday-messages', reason: 'rejected' },
+          ],
+        },
+      },
+    }) as unknown as amqp.GetMessage;
+
+  const message = (
+    id: string,
+    overrides: Partial<BirthdayMessage> = {},
+  ): BirthdayMessage =>
+    ({
+      id,
+      messageType: 'birthday',
+      status: MessageStatus.FAILED,
+      attempts: 5,
+      lastError: 'SMTP timeout',
+      ...overrides,
+    }) as BirthdayMessage;
+
+  beforeEach(async () => {
+    queue = [];
+    transport = 'amqp';
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DlqService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => transport) },
+        },
+        {
+          provide: getRepositoryToken(DlqAuditEntry),
+          useValue: auditRepository,
+        },
+        {
+          provide: BirthdayService,
+          useValue: { findById: jest.fn(), findByIds: jest.fn() },
+        },
+        {
+          provide: MessageAdminService,
+          useValue: { resend: jest.fn() },
+        },
+        {
+          provide: LockService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn(),
+          },
+        },
+        {
+          provide: RabbitMqService,
+          useValue: {
+            createChannel: jest.fn().mockReturnValue(channel),
+            getConnectionState: jest
+              .fn()
+              .mockReturnValue({ connected: true, error: null }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DlqService>(DlqService);
+    birthdayService = module.get(BirthdayService);
+    messageAdminService = module.get(MessageAdminService);
+    lockService = module.get(LockService);
+    rabbitMq = module.get(RabbitMqService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('should join dead letters with their messages and put them back', async () => {
+      const first = deadLetter(ids.first);
+      queue = [first, deadLetter(ids.second), deadLetter(ids.third)];
+      birthdayService.findByIds.mockResolvedValue([message(ids.first)]);
+
+      const result = await service.list(2);
+
+      expect(birthdayService.findByIds).toHaveBeenCalledWith([
+        ids.first,
+        ids.second,
+      ]);
+      expect(channel.nack).toHaveBeenCalledTimes(2);
+      expect(channel.nack).toHaveBeenCalledWith(first, false, true);
+      expect(channel.ack).not.toHaveBeenCalled();
+      expect(result.total).toBe(3);
+      expect(result.data).toEqual([
+        {
+          messageId: ids.first,
+          userId: userId,
+          email: 'john@example.com',
+          fullName: 'John Doe',
+          messageType: 'birthday',
+          status: MessageStatus.FAILED,
+          attempts: 5,
+          lastError: 'SMTP timeout',
+          deadLetterReason: 'rejected',
+          payloadError: null,
+        },
+        expect.objectContaining({
+          messageId: ids.second,
+          status: null,
+          lastError: null,
+        }),
+      ]);
+    });
+
+    it('should list unparseable dead letters and put them back', async () => {
+      const invalid = {
+        ...deadLetter(ids.first),
+        content: Buffer.from('not json'),
+      } as amqp.GetMessage;
+      queue = [invalid, deadLetter(ids.second)];
+      birthdayService.findByIds.mockResolvedValue([]);
+
+      const result = await service.list(2);
+
+      expect(birthdayService.findByIds).toHaveBeenCalledWith([ids.second]);
+      expect(channel.nack).toHaveBeenCalledWith(invalid, false, true);
+      expect(channel.nack).toHaveBeenCalledTimes(2);
+      expect(result.data[0]).toMatchObject({
+        messageId: null,
+        status: null,
+        payloadError: 'Payload is not valid JSON',
+      });
+    });
+
+    it('should put fetched dead letters back when fetching fails', async () => {
+      const first = deadLetter(ids.first);
+      queue = [first, deadLetter(ids.second)];
+      channel.get
+        .mockImplementationOnce(() => Promise.resolve(queue.shift() ?? false))
+        .mockRejectedValueOnce(new Error('Channel closed'));
+
+      await expect(service.list(2)).rejects.toThrow('Channel closed');
+      expect(channel.nack).toHaveBeenCalledWith(first, false, true);
+      expect(lockService.releaseLock).toHaveBeenCalledWith('dlq-lock');
+    });
+
+    it('should fail while RabbitMQ is disconnected', async () => {
+      rabbitMq.getConnectionState.mockReturnValue({
+        connected: false,
+        error: 'ECONNREFUSED',
+      });
+
+      await expect(service.list()).rejects.toThrow(ServiceUnavailableException);
+      expect(lockService.acquireLock).not.toHaveBeenCalled();
+    });
+
+    it('should refuse without RabbitMQ as queue transport', async () => {
+      transport = 'memory';
+
+      await expect(service.list()).rejects.toThrow(ServiceUnavailableException);
+      expect(rabbitMq.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while another DLQ operation runs', async () => {
+      lockService.acquireLock.mockResolvedValue(false);
+
+      await expect(service.list()).rejects.toThrow(ConflictException);
+      expect(channel.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    it('should resend the message and record who replayed it', async () => {
+      const other = deadLetter(ids.second);
+      const target = deadLetter(ids.first);
+      queue = [other, target];
+      birthdayService.findById.mockResolvedValue(message(ids.first));
+
+      const result = await service.replay(ids.first, 'admin@example.com');
+
+      expect(result).toEqual({ replayed: 1, discarded: 0, skipped: 0 });
+      expect(messageAdminService.resend).toHaveBeenCalledWith(ids.first);
+      expect(channel.ack).toHaveBeenCalledWith(target);
+      expect(channel.nack).toHaveBeenCalledWith(other, false, true);
+      expect(auditRepository.save).toHaveBeenCalledWith({
+        action: DlqAction.REPLAY,
+        actor: 'admin@example.com',
+        messageId: ids.first,
+        count: 1,
+      });
+    });
+
+    it('should throw NotFoundException when the message is not dead-lettered', async () => {
+      const other = deadLetter(ids.second);
+      queue = [other];
+
+      await expect(
+        service.replay(ids.first, 'admin@example.com'),
+      ).rejects.toThrow(NotFoundException);
+      expect(channel.nack).toHaveBeenCalledWith(other, false, true);
+      expect(auditRepository.save).not.toHaveBeenCalled();
+      expect(lockService.releaseLock).toHaveBeenCalledWith('dlq-lock');
+    });
+  });
+
+  describe('replayQueue', () => {
+    it('should discard stale dead letters and keep busy ones', async () => {
+      const stale = deadLetter(ids.sent);
+      const busy = deadLetter(ids.busy);
+      queue = [deadLetter(ids.first), stale, busy];
+      birthdayService.findById.mockImplementation((id) =>
+        Promise.resolve(
+          id === ids.sent
+            ? message(id, { status: MessageStatus.SENT })
+            : message(id),
+        ),
+      );
+      messageAdminService.resend.mockImplementation((id) =>
+        id === ids.busy
+          ? Promise.reject(new ConflictException('Message is being processed'))
+          : Promise.resolve({ id } as never),
+      );
+
+      const result = await service.replayQueue('admin@example.com');
+
+      expect(result).toEqual({ replayed: 1, discarded: 1, skipped: 1 });
+      expect(channel.ack).toHaveBeenCalledTimes(2);
+      expect(channel.ack).toHaveBeenCalledWith(stale);
+      expect(channel.nack).toHaveBeenCalledWith(busy, false, true);
+      expect(auditRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ messageId: null, count: 1 }),
+      );
+    });
+
+    it('should leave unparseable dead letters in the queue', async () => {
+      const invalid = {
+        ...deadLetter(ids.first),
+        content: Buffer.from('{}'),
+      } as amqp.GetMessage;
+      queue = [invalid];
+
+      const result = await service.replayQueue('admin@example.com');
+
+      expect(result).toEqual({ replayed: 0, discarded: 0, skipped: 1 });
+      expect(birthdayService.findById).not.toHaveBeenCalled();
+      expect(channel.nack).toHaveBeenCalledWith(invalid, false, true);
+      expect(channel.ack).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purge', () => {
+    it('should purge the queue and record the purge', async () => {
+      const result = await service.purge('admin@example.com');
+
+      expect(result).toEqual({ purged: 3 });
+      expect(channel.purgeQueue).toHaveBeenCalledWith(BIRTHDAY_DLQ);
+      expect(auditRepository.save).toHaveBeenCalledWith({
+        action: DlqAction.PURGE,
+        actor: 'admin@example.com',
+        messageId: null,
+        count: 3,
+      });
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { ChannelWrapper } from 'amqp-connection-manager';
+import type * as amqp from 'amqplib';
+import { DlqAction, DlqAuditEntry } from './entities/dlq-audit-entry.entity';
+import {
+  DlqAuditEntryDto,
+  DlqMessageDto,
+  DlqMessagesDto,
+  DlqPurgeResultDto,
+  DlqReplayResultDto,
+} from './dto/dlq.dto';
+import {
+  BirthdayMessagePayload,
+  parseBirthdayMessagePayload,
+} from '../queue/message-payload';
+import {
+  BIRTHDAY_DLQ,
+  BIRTHDAY_QUEUE,
+  assertBirthdayQueues,
+} from '../queue/amqp-message-queue';
+import { QueueTransport, getQueueTransport } from '../queue/message-queue';
+import { BirthdayService } from '../birthday/birthday.service';
+import { MessageAdminService } from '../birthday/message-admin.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+} from '../birthday/entities/birthday-message.entity';
+import { LockService } from '../redis/lock.service';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
+import { DEFAULT_PAGE_SIZE } from '../common/dto/pagination-query.dto';
+
+const DLQ_LOCK_KEY = 'dlq-lock';
+const DLQ_LOCK_TTL = 300; // 5 min
+
+interface DeadLetter {
+  msg: amqp.GetMessage;
+  payload: BirthdayMessagePayload | null; // null when the payload is invalid
+  payloadError: string | null; // Why the payload is invalid
+  settled: boolean; // Acknowledged, or put back onto the queue
+}
+
+type ParsedDeadLetter = DeadLetter & { payload: BirthdayMessagePayload };
+
+/**
+ * Inspects, replays and purges the dead letter queue
+ * RabbitMQ cannot browse a queue, so operations take messages off the queue
+ * unacknowledged and put back the ones they leave alone. A Redis lock keeps
+ * one operation at a time so none of them sees a partially drained queue.
+ * Only available with the amqp queue transport
+ */
+@Injectable()
+export class DlqService implements OnModuleDestroy {
+  private readonly logger = new Logger(DlqService.name);
+  private channel: ChannelWrapper | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(DlqAuditEntry)
+    private readonly auditRepository: Repository<DlqAuditEntry>,
+    private readonly birthdayService: BirthdayService,
+    private readonly messageAdminService: MessageAdminService,
+    private readonly lockService: LockService,
+    private readonly rabbitMq: RabbitMqService,
+  ) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.channel?.close();
+  }
+
+  /**
+   * List the oldest dead-lettered messages with their recorded failure
+   */
+  async list(limit: number = DEFAULT_PAGE_SIZE): Promise<DlqMessagesDto> {
+    return this.withQueueLock(async (channel) => {
+      const { messageCount } = await channel.checkQueue(BIRTHDAY_DLQ);
+
+      // Browsing only, so every message goes back onto the queue
+      return this.withDeadLetters(
+        channel,
+        Math.min(limit, messageCount),
+        async (deadLetters) => {
+          const messages = await this.birthdayService.findByIds(
+            this.withPayload(deadLetters).map(
+              ({ payload }) => payload.messageId,
+            ),
+          );
+          const messagesById = new Map(messages.map((m) => [m.id, m]));
+
+          return {
+            data: deadLetters.map((deadLetter) =>
+              this.toDlqMessage(
+                deadLetter,
+                deadLetter.payload
+                  ? messagesById.get(deadLetter.payload.messageId)
+                  : undefined,
+              ),
+            ),
+            total: messageCount,
+          };
+        },
+      );
+    });
+  }
+
+  /**
+   * Replay the dead-lettered copies of one message onto the birthday queue
+   */
+  async replay(messageId: string, actor: string): Promise<DlqReplayResultDto> {
+    return this.withQueueLock(async (channel) => {
+      const { messageCount } = await channel.checkQueue(BIRTHDAY_DLQ);
+
+      return this.withDeadLetters(
+        channel,
+        messageCount,
+        async (deadLetters) => {
+          const matching = this.withPayload(deadLetters).filter(
+            ({ payload }) => payload.messageId === messageId,
+          );
+          if (matching.length === 0) {
+            throw new NotFoundException(
+              `Message ${messageId} is not in the dead letter queue`,
+            );
+          }
+
+          const result = await this.replayDeadLetters(channel, matching);
+          await this.audit(DlqAction.REPLAY, actor, messageId, result.replayed);
+          return result;
+        },
+      );
+    });
+  }
+
+  /**
+   * Replay every dead-lettered message onto the birthday queue
+   * Dead letters with an invalid payload are left in the queue as skipped
+   */
+  async replayQueue(actor: string): Promise<DlqReplayResultDto> {
+    return this.withQueueLock(async (channel) => {
+      const { messageCount } = await channel.checkQueue(BIRTHDAY_DLQ);
+
+      return this.withDeadLetters(
+        channel,
+        messageCount,
+        async (deadLetters) => {
+          const parsed = this.withPayload(deadLetters);
+          const result = await this.replayDeadLetters(channel, parsed);
+          result.skipped += deadLetters.length - parsed.length;
+
+          await this.audit(DlqAction.REPLAY, actor, null, result.replayed);
+          return result;
+        },
+      );
+    });
+  }
+
+  /**
+   * Drop every dead-lettered message; the messages themselves stay failed
+   */
+  async purge(actor: string): Promise<DlqPurgeResultDto> {
+    return this.withQueueLock(async (channel) => {
+      const { messageCount } = await channel.purgeQueue(BIRTHDAY_DLQ);
+      await this.audit(DlqAction.PURGE, actor, null, messageCount);
+      this.logger.warn(`${actor} purged ${messageCount} message(s) from DLQ`);
+      return { purged: messageCount };
+    });
+  }
+
+  /**
+   * Most recent replays and purges first
+   */
+  async findAuditEntries(
+    limit: number = DEFAULT_PAGE_SIZE,
+  ): Promise<DlqAuditEntryDto[]> {
+    return this.auditRepository.find({
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Resend the messages of the given dead letters, which are acknowledged
+   * once resent or found stale and put back when the message is busy
+   */
+  private async replayDeadLetters(
+    channel: ChannelWrapper,
+    deadLetters: ParsedDeadLetter[],
+  ): Promise<DlqReplayResultDto> {
+    const result: DlqReplayResultDto = {
+      replayed: 0,
+      discarded: 0,
+      skipped: 0,
+    };
+
+    for (const deadLetter of deadLetters) {
+      const { payload } = deadLetter;
+      try {
+        const message = await this.birthdayService.findById(payload.messageId);
+
+        // Already resent, cancelled or deleted since it was dead-lettered
+        if (message?.status !== MessageStatus.FAILED) {
+          this.settle(channel, deadLetter, true);
+          result.discarded++;
+          continue;
+        }
+
+        await this.messageAdminService.resend(payload.messageId);
+        this.settle(channel, deadLetter, true);
+        result.replayed++;
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(
+          `Could not replay message ${payload.messageId}: ${errorMessage}`,
+        );
+        this.settle(channel, deadLetter, false);
+        result.skipped++;
+      }
+    }
+
+    this.logger.log(
+      `Replayed ${result.replayed} message(s) from DLQ onto ${BIRTHDAY_QUEUE}`,
+    );
+    return result;
+  }
+
+  /**
+   * Take up to count dead letters off the queue for the action
+   * Whatever the action leaves unsettled, or fails on, is put back
+   */
+  private async withDeadLetters<T>(
+    channel: ChannelWrapper,
+    count: number,
+    action: (deadLetters: DeadLetter[]) => Promise<T>,
+  ): Promise<T> {
+    const deadLetters: DeadLetter[] = [];
+
+    try {
+      while (deadLetters.length < count) {
+        const msg = await channel.get(BIRTHDAY_DLQ, { noAck: false });
+        if (!msg) break;
+
+        deadLetters.push({ msg, settled: false, ...this.parse(msg) });
+      }
+
+      return await action(deadLetters);
+    } finally {
+      deadLetters
+        .filter(({ settled }) => !settled)
+        .forEach((deadLetter) => this.settle(channel, deadLetter, false));
+    }
+  }
+
+  /**
+   * Upgrades dead letters queued with an older schema version
+   */
+  private parse(
+    msg: amqp.GetMessage,
+  ): Pick<DeadLetter, 'payload' | 'payloadError'> {
+    try {
+      return {
+        payload: parseBirthdayMessagePayload(msg.content.toString()),
+        payloadError: null,
+      };
+    } catch (error: unknown) {
+      return {
+        payload: null,
+        payloadError: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private withPayload(deadLetters: DeadLetter[]): ParsedDeadLetter[] {
+    return deadLetters.filter(
+      (deadLetter): deadLetter is ParsedDeadLetter =>
+        deadLetter.payload !== null,
+    );
+  }
+
+  /**
+   * Acknowledge a dead letter, or put it back onto the queue
+   */
+  private settle(
+    channel: ChannelWrapper,
+    deadLetter: DeadLetter,
+    ack: boolean,
+  ): void {
+    if (ack) {
+      channel.ack(deadLetter.msg);
+    } else {
+      channel.nack(deadLetter.msg, false, true);
+    }
+    deadLetter.settled = true;
+  }
+
+  private async withQueueLock<T>(
+    action: (channel: ChannelWrapper) => Promise<T>,
+  ): Promise<T> {
+    if (getQueueTransport(this.configService) !== QueueTransport.AMQP) {
+      throw new ServiceUnavailableException(
+        'Dead letter queue requires the amqp queue transport',
+      );
+    }
+
+    // Opened on first use so the memory transport never connects to RabbitMQ
+    const channel = (this.channel ??= this.rabbitMq.createChannel(
+      'dlq',
+      assertBirthdayQueues,
+    ));
+    if (!this.rabbitMq.getConnectionState().connected) {
+      throw new ServiceUnavailableException(
+        'Dead letter queue is not available',
+      );
+    }
+
+    const lockAcquired = await this.lockService.acquireLock(
+      DLQ_LOCK_KEY,
+      DLQ_LOCK_TTL,
+    );
+    if (!lockAcquired) {
+      throw new ConflictException(
+        'Another dead letter queue operation is in progress',
+      );
+    }
+
+    try {
+      return await action(channel);
+    } finally {
+      await this.lockService.releaseLock(DLQ_LOCK_KEY);
+    }
+  }
+
+  private async audit(
+    action: DlqAction,
+    actor: string,
+    messageId: string | null,
+    count: number,
+  ): Promise<void> {
+    await this.auditRepository.save(
+      this.auditRepository.create({ action, actor, messageId, count }),
+    );
+  }
+
+  private toDlqMessage(
+    { msg, payload, payloadError }: DeadLetter,
+    message: BirthdayMessage | undefined,
+  ): DlqMessageDto {
+    // Retried messages also carry the deaths from expiring in retry queues
+    const death = msg.properties.headers?.['x-death']?.find(
+      ({ queue }) => queue === BIRTHDAY_QUEUE,
+    );
+    return {
+      messageId: payload?.messageId ?? null,
+      userId: payload?.userId ?? null,
+      email: payload?.email ?? null,
+      fullName: payload?.fullName ?? null,
+      messageType: message?.messageType ?? payload?.messageType ?? null,
+      status: message?.status ?? null,
+      attempts: message?.attempts ?? null,
+      lastError: message?.lastError ?? null,
+      deadLetterReason: death?.reason ?? null,
+      payloadError,
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { MessageStatus } from '../../birthday/entities/birthday-message.entity';
+import { DlqAction } from '../entities/dlq-audit-entry.entity';
+
+export class ListDlqQueryDto extends PickType(PaginationQueryDto, [
+  'limit',
+] as const) {}
+
+export class DlqActionDto {
+  @ApiProperty({
+    example: 'jane.admin@example.com',
+    description: 'Who performs the action, recorded in the audit log',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  actor: string;
+}
+
+export class DlqMessageDto {
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Null, like the other payload fields, when unparseable',
+  })
+  messageId: string | null;
+
+  @ApiProperty({ type: String, nullable: true })
+  userId: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    example: 'jane.doe@example.com',
+  })
+  email: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: 'Jane Doe' })
+  fullName: string | null;
+
+  @ApiProperty({ type: String, nullable: true, example: 'birthday' })
+  messageType: string | null;
+
+  @ApiProperty({
+    enum: MessageStatus,
+    nullable: true,
+    description: 'Current status, null when the message no longer exists',
+  })
+  status: MessageStatus | null;
+
+  @ApiProperty({ type: Number, nullable: true, example: 5 })
+  attempts: number | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Last error recorded for the message',
+  })
+  lastError: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    example: 'rejected',
+    description: 'Why RabbitMQ dead-lettered the message',
+  })
+  deadLetterReason: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    example: 'Payload is not valid JSON',
+    description: 'Why the payload could not be parsed',
+  })
+  payloadError: string | null;
+}
+
+export class DlqMessagesDto {
+  @ApiProperty({ type: [DlqMessageDto] })
+  data: DlqMessageDto[];
+
+  @ApiProperty({ description: 'Number of messages in the dead letter queue' })
+  total: number;
+}
+
+export class DlqReplayResultDto {
+  @ApiProperty({ description: 'Messages queued again' })
+  replayed: number;
+
+  @ApiProperty({
+    description:
+      'Stale messages dropped because they were already resent, cancelled or deleted',
+  })
+  discarded: number;
+
+  @ApiProperty({
+    description:
+      'Messages left in the queue because they were busy or unparseable',
+  })
+  skipped: number;
+}
+
+export class DlqPurgeResultDto {
+  @ApiProperty({ description: 'Messages removed from the queue' })
+  purged: number;
+}
+
+export class DlqAuditEntryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: DlqAction })
+  action: DlqAction;
+
+  @ApiProperty()
+  actor: string;
+
+  @ApiProperty({ type: String, nullable: true })
+  messageId: string | null;
+
+  @ApiProperty()
+  count: number;
+
+  @ApiProperty()
+  createdAt: Date;
+}
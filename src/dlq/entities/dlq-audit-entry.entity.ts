@@ -0,0 +1,36 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum DlqAction {
+  REPLAY = 'replay',
+  PURGE = 'purge',
+}
+
+@Entity('dlq_audit_entries')
+@Index('IDX_dlq_audit_entries_created_at', ['createdAt'])
+export class DlqAuditEntry {
+  @PrimaryGeneratedColumn('uuid', {
+    primaryKeyConstraintName: 'PK_dlq_audit_entries',
+  })
+  id: string;
+
+  @Column({ type: 'enum', enum: DlqAction })
+  action: DlqAction;
+
+  @Column({ length: 100 })
+  actor: string; // Who performed the action, as given by the caller
+
+  @Column({ name: 'message_id', type: 'uuid', nullable: true })
+  messageId: string | null; // Null when the action covered the whole queue
+
+  @Column({ type: 'int' })
+  count: number; // Number of queue messages affected
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
 import { EmailService } from './email.service';
+import { RateLimiterService } from './rate-limiter.service';
 
 @Module({
-  providers: [EmailService],
+  providers: [EmailService, RateLimiterService],
   exports: [EmailService],
 })
 export class EmailModule {}
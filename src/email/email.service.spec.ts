@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { EmailService } from './email.service';
+import { RateLimiterService } from './rate-limiter.service';
 import { MessageType } from '../messages/message-type.enum';
 
 jest.mock('axios');
@@ -22,6 +23,10 @@ describe('EmailService', () => {
     post: jest.fn(),
   };
 
+  const mockRateLimiter = {
+    acquire: jest.fn(),
+  };
+
   beforeEach(async () => {
     mockedAxios.create.mockReturnValue(
       mockAxiosInstance as unknown as ReturnType<typeof axios.create>,
@@ -34,6 +39,10 @@ describe('EmailService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: RateLimiterService,
+          useValue: mockRateLimiter,
+        },
       ],
     }).compile();
 
@@ -44,15 +53,32 @@ describe('EmailService', () => {
     jest.clearAllMocks();
   });
 
-  describe('sendBirthdayEmail', () => {
-    it('should send birthday email successfully', async () => {
+  describe('buildPayload', () => {
+    it('should only pass on the extras that are set', () => {
+      expect(
+        service.buildPayload('john@example.com', 'Hi', {
+          subject: 'Hello',
+          html: undefined,
+        }),
+      ).toEqual({ email: 'john@example.com', message: 'Hi', subject: 'Hello' });
+    });
+  });
+
+  describe('sendContent', () => {
+    it('should post the rendered message to the email provider', async () => {
       mockAxiosInstance.post.mockResolvedValue({ status: 200 });
 
-      await service.sendBirthdayEmail('john@example.com', 'John Doe');
+      await service.sendContent(
+        'john@example.com',
+        "Hey, John Doe it's your birthday",
+        MessageType.BIRTHDAY,
+        { subject: 'Happy birthday, John!' },
+      );
 
       expect(mockAxiosInstance.post).toHaveBeenCalledWith('', {
         email: 'john@example.com',
         message: "Hey, John Doe it's your birthday",
+        subject: 'Happy birthday, John!',
       });
     });
 
@@ -60,25 +86,23 @@ describe('EmailService', () => {
       mockAxiosInstance.post.mockResolvedValue({ status: 500 });
 
       await expect(
-        service.sendBirthdayEmail('john@example.com', 'John Doe'),
+        service.sendContent('john@example.com', 'Hi', MessageType.BIRTHDAY),
       ).rejects.toThrow('Unexpected status code: 500');
     });
-  });
 
-  describe('sendAnniversaryEmail', () => {
-    it('should send anniversary email successfully', async () => {
+    it('should wait for the rate limit of the email provider', async () => {
       mockAxiosInstance.post.mockResolvedValue({ status: 200 });
 
-      await service.sendAnniversaryEmail('jane@example.com', 'Jane Doe');
+      await service.sendContent('john@example.com', 'Hi', MessageType.BIRTHDAY);
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith('', {
-        email: 'jane@example.com',
-        message: 'Hey, Jane Doe happy work anniversary!',
-      });
+      expect(mockRateLimiter.acquire).toHaveBeenCalledWith(
+        'https://email-service.digitalenvision.com.au/send-email',
+      );
+      expect(mockRateLimiter.acquire.mock.invocationCallOrder[0]).toBeLessThan(
+        mockAxiosInstance.post.mock.invocationCallOrder[0],
+      );
     });
-  });
 
-  describe('sendMessage', () => {
     it('should handle axios timeout error', async () => {
       const axiosError = {
         isAxiosError: true,
@@ -90,11 +114,7 @@ describe('EmailService', () => {
       mockedAxios.isAxiosError.mockReturnValue(true);
 
       await expect(
-        service.sendMessage(
-          'john@example.com',
-          'John Doe',
-          MessageType.BIRTHDAY,
-        ),
+        service.sendContent('john@example.com', 'Hi', MessageType.BIRTHDAY),
       ).rejects.toThrow('Email service timeout');
     });
 
@@ -112,11 +132,7 @@ describe('EmailService', () => {
       mockedAxios.isAxiosError.mockReturnValue(true);
 
       await expect(
-        service.sendMessage(
-          'john@example.com',
-          'John Doe',
-          MessageType.BIRTHDAY,
-        ),
+        service.sendContent('john@example.com', 'Hi', MessageType.BIRTHDAY),
       ).rejects.toThrow('Email service error: 500 - Internal Server Error');
     });
 
@@ -126,11 +142,7 @@ describe('EmailService', () => {
       mockedAxios.isAxiosError.mockReturnValue(false);
 
       await expect(
-        service.sendMessage(
-          'john@example.com',
-          'John Doe',
-          MessageType.BIRTHDAY,
-        ),
+        service.sendContent('john@example.com', 'Hi', MessageType.BIRTHDAY),
       ).rejects.toThrow('Network error');
     });
   });
@@ -1,15 +1,38 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios, { AxiosInstance } from 'axios';
-import { MessageType, getMessageContent } from '../messages/message-type.enum';
+import { RateLimiterService } from './rate-limiter.service';
+
+/**
+ * Optional parts of an email besides its text body
+ */
+export interface EmailExtras {
+  subject?: string;
+  html?: string | null;
+}
+
+/**
+ * Request body of the email provider's send endpoint
+ */
+export interface EmailPayload {
+  email: string;
+  message: string;
+  subject?: string;
+  html?: string;
+}
 
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
   private readonly httpClient: AxiosInstance;
+  private readonly destination: string;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly rateLimiter: RateLimiterService,
+  ) {
     const baseURL = this.configService.get<string>('emailService.url');
+    this.destination = baseURL ?? '';
 
     this.httpClient = axios.create({
       baseURL,
@@ -21,38 +44,40 @@ export class EmailService {
   }
 
   /**
-   * Send a birthday email via the external email service
-   * API docs: https://email-service.digitalenvision.com.au/api-docs/
-   */
-  async sendBirthdayEmail(email: string, fullName: string): Promise<void> {
-    return this.sendMessage(email, fullName, MessageType.BIRTHDAY);
-  }
-
-  /**
-   * Send an anniversary email via the external email service
-   * This method is ready for future anniversary feature implementation
+   * Build the request body posted to the email provider
+   * The subject and HTML body are passed on when given
    */
-  async sendAnniversaryEmail(email: string, fullName: string): Promise<void> {
-    return this.sendMessage(email, fullName, MessageType.ANNIVERSARY);
+  buildPayload(
+    email: string,
+    message: string,
+    extras: EmailExtras = {},
+  ): EmailPayload {
+    return {
+      email,
+      message,
+      ...(extras.subject ? { subject: extras.subject } : {}),
+      ...(extras.html ? { html: extras.html } : {}),
+    };
   }
 
   /**
-   * Generic method to send any message type
+   * Send already rendered message content
    */
-  async sendMessage(
+  async sendContent(
     email: string,
-    fullName: string,
-    messageType: MessageType,
+    message: string,
+    messageType: string,
+    extras: EmailExtras = {},
   ): Promise<void> {
-    const message = getMessageContent(messageType, fullName);
-
+    // Concurrent sends share the provider's rate limit
+    await this.rateLimiter.acquire(this.destination);
     this.logger.log(`Sending ${messageType} email to ${email}`);
 
     try {
-      const response = await this.httpClient.post('', {
-        email,
-        message,
-      });
+      const response = await this.httpClient.post(
+        '',
+        this.buildPayload(email, message, extras),
+      );
 
       if (response.status >= 200 && response.status < 300) {
         this.logger.log(`Successfully sent ${messageType} email to ${email}`);
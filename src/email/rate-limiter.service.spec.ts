@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RateLimiterService } from './rate-limiter.service';
+
+describe('RateLimiterService', () => {
+  const createService = async (
+    config: Record<string, number>,
+  ): Promise<RateLimiterService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimiterService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<RateLimiterService>(RateLimiterService);
+  };
+
+  // Count how many of the acquisitions have resolved
+  const track = (promises: Promise<void>[]) => {
+    const state = { resolved: 0 };
+    promises.forEach((promise) => void promise.then(() => state.resolved++));
+    return state;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-05-15T09:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let a burst through and space out the rest', async () => {
+    const service = await createService({
+      'emailService.rateLimitPerSecond': 2,
+      'emailService.rateLimitBurst': 2,
+    });
+
+    const state = track(
+      Array.from({ length: 4 }, () => service.acquire('provider')),
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(state.resolved).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(state.resolved).toBe(3);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(state.resolved).toBe(4);
+  });
+
+  it('should limit each destination separately', async () => {
+    const service = await createService({
+      'emailService.rateLimitPerSecond': 1,
+      'emailService.rateLimitBurst': 1,
+    });
+
+    const state = track([
+      service.acquire('provider-a'),
+      service.acquire('provider-b'),
+      service.acquire('provider-a'),
+    ]);
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(state.resolved).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(state.resolved).toBe(3);
+  });
+
+  it('should not limit when the rate is 0', async () => {
+    const service = await createService({
+      'emailService.rateLimitPerSecond': 0,
+    });
+
+    const state = track(
+      Array.from({ length: 100 }, () => service.acquire('provider')),
+    );
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(state.resolved).toBe(100);
+  });
+});
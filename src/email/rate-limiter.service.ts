@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+interface Bucket {
+  tokens: number; // Negative when callers are waiting for future tokens
+  refilledAt: number;
+}
+
+/**
+ * Token bucket rate limiter with one bucket per destination, e.g. per email
+ * provider, so concurrent sends of this process stay within its rate limit
+ * Callers reserve a token up front and wait until it is due, which keeps them
+ * in arrival order without polling
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly ratePerSecond: number;
+  private readonly burst: number;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.ratePerSecond =
+      this.configService.get<number>('emailService.rateLimitPerSecond') ?? 0;
+    this.burst = Math.max(
+      1,
+      this.configService.get<number>('emailService.rateLimitBurst') ??
+        this.ratePerSecond,
+    );
+  }
+
+  /**
+   * Wait until a request to the destination is allowed
+   * A rate of 0 disables limiting
+   */
+  async acquire(destination: string): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const bucket = this.buckets.get(destination) ?? {
+      tokens: this.burst,
+      refilledAt: now,
+    };
+    bucket.tokens = Math.min(
+      this.burst,
+      bucket.tokens + ((now - bucket.refilledAt) / 1000) * this.ratePerSecond,
+    );
+    bucket.refilledAt = now;
+    bucket.tokens -= 1;
+    this.buckets.set(destination, bucket);
+
+    if (bucket.tokens < 0) {
+      const waitMs = (-bucket.tokens / this.ratePerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+}
@@ -1,12 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getDataSourceToken } from '@nestjs/typeorm';
 import { HealthService } from './health.service';
 import { LockService } from '../redis/lock.service';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
 
 describe('HealthService', () => {
   let service: HealthService;
   let mockDataSource: { query: jest.Mock };
   let mockLockService: { set: jest.Mock; get: jest.Mock };
+  let mockRabbitMqService: { getConnectionState: jest.Mock };
+  let transport: string;
 
   beforeEach(async () => {
     mockDataSource = {
@@ -18,6 +22,14 @@ describe('HealthService', () => {
       get: jest.fn(),
     };
 
+    transport = 'amqp';
+
+    mockRabbitMqService = {
+      getConnectionState: jest
+        .fn()
+        .mockReturnValue({ connected: true, error: null }),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         HealthService,
@@ -29,6 +41,14 @@ describe('HealthService', () => {
           provide: LockService,
           useValue: mockLockService,
         },
+        {
+          provide: RabbitMqService,
+          useValue: mockRabbitMqService,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => transport) },
+        },
       ],
     }).compile();
 
@@ -50,6 +70,7 @@ describe('HealthService', () => {
       expect(result.status).toBe('healthy');
       expect(result.components.database.status).toBe('healthy');
       expect(result.components.redis.status).toBe('healthy');
+      expect(result.components.rabbitmq?.status).toBe('healthy');
       expect(result.uptime).toBeGreaterThanOrEqual(0);
       expect(result.timestamp).toBeDefined();
     });
@@ -103,5 +124,39 @@ describe('HealthService', () => {
       expect(result.components.database.status).toBe('unhealthy');
       expect(result.components.redis.status).toBe('unhealthy');
     });
+
+    it('should return unhealthy status while RabbitMQ is reconnecting', async () => {
+      mockDataSource.query.mockResolvedValue([{ '?column?': 1 }]);
+      mockLockService.set.mockResolvedValue(undefined);
+      mockLockService.get.mockResolvedValue('ok');
+      mockRabbitMqService.getConnectionState.mockReturnValue({
+        connected: false,
+        error: 'Connection closed: 320 (CONNECTION-FORCED)',
+      });
+
+      const result = await service.check();
+
+      expect(result.status).toBe('unhealthy');
+      expect(result.components.rabbitmq).toEqual({
+        status: 'unhealthy',
+        message: 'Connection closed: 320 (CONNECTION-FORCED)',
+      });
+    });
+
+    it('should leave out RabbitMQ with the memory queue transport', async () => {
+      transport = 'memory';
+      mockDataSource.query.mockResolvedValue([{ '?column?': 1 }]);
+      mockLockService.set.mockResolvedValue(undefined);
+      mockLockService.get.mockResolvedValue('ok');
+      mockRabbitMqService.getConnectionState.mockReturnValue({
+        connected: false,
+        error: 'Not connected',
+      });
+
+      const result = await service.check();
+
+      expect(result.status).toBe('healthy');
+      expect(result.components.rabbitmq).toBeUndefined();
+    });
   });
 });
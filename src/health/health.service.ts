@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectDataSource } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
 import { LockService } from '../redis/lock.service';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
+import { QueueTransport, getQueueTransport } from '../queue/message-queue';
 
 export interface ComponentHealth {
   status: 'healthy' | 'unhealthy';
@@ -15,6 +18,7 @@ export interface HealthStatus {
   components: {
     database: ComponentHealth;
     redis: ComponentHealth;
+    rabbitmq?: ComponentHealth; // Only reported with the amqp queue transport
   };
 }
 
@@ -27,6 +31,8 @@ export class HealthService {
     @InjectDataSource()
     private readonly dataSource: DataSource,
     private readonly lockService: LockService,
+    private readonly rabbitMq: RabbitMqService,
+    private readonly configService: ConfigService,
   ) {
     this.startTime = Date.now();
   }
@@ -37,8 +43,15 @@ export class HealthService {
       this.checkRedis(),
     ]);
 
+    const rabbitMqHealth =
+      getQueueTransport(this.configService) === QueueTransport.AMQP
+        ? this.checkRabbitMq()
+        : undefined;
+
     const isHealthy =
-      databaseHealth.status === 'healthy' && redisHealth.status === 'healthy';
+      databaseHealth.status === 'healthy' &&
+      redisHealth.status === 'healthy' &&
+      rabbitMqHealth?.status !== 'unhealthy';
 
     return {
       status: isHealthy ? 'healthy' : 'unhealthy',
@@ -47,6 +60,7 @@ export class HealthService {
       components: {
         database: databaseHealth,
         redis: redisHealth,
+        rabbitmq: rabbitMqHealth,
       },
     };
   }
@@ -78,4 +92,13 @@ export class HealthService {
       return { status: 'unhealthy', message };
     }
   }
+
+  private checkRabbitMq(): ComponentHealth {
+    // The connection manager keeps reconnecting, so report its current state
+    const { connected, error } = this.rabbitMq.getConnectionState();
+    if (connected) {
+      return { status: 'healthy' };
+    }
+    return { status: 'unhealthy', message: error ?? 'Not connected' };
+  }
 }
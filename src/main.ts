@@ -1,11 +1,19 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
+import { IMPORT_CONTENT_TYPES } from './users/users.controller';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Accept raw CSV and NDJSON bodies for the bulk user import
+  app.useBodyParser('text', {
+    type: Object.keys(IMPORT_CONTENT_TYPES),
+    limit: '20mb',
+  });
 
   // Enable global validation pipe
   app.useGlobalPipes(
@@ -27,6 +35,11 @@ async function bootstrap() {
     )
     .setVersion('1.0')
     .addTag('users', 'User management endpoints')
+    .addTag('occasions', 'User occasion management endpoints')
+    .addTag('birthdays', 'Birthday query endpoints')
+    .addTag('messages', 'Message history and admin action endpoints')
+    .addTag('dlq', 'Dead letter queue inspection and replay endpoints')
+    .addTag('templates', 'Message template management endpoints')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api', app, document);
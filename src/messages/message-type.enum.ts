@@ -1,6 +1,8 @@
+import { MessageTemplateContent } from './template-engine';
+
 /**
- * Enum for different message types
- * This enables extensibility for future message types like anniversaries
+ * Enum for the built-in message types
+ * Custom occasion kinds (see the occasions module) are used as message types as well
  */
 export enum MessageType {
   BIRTHDAY = 'birthday',
@@ -9,25 +11,35 @@ export enum MessageType {
 }
 
 /**
- * Message templates for different message types
+ * Built-in message templates, used when no stored template matches
  */
-export const MESSAGE_TEMPLATES: Record<
-  MessageType,
-  (fullName: string) => string
-> = {
-  [MessageType.BIRTHDAY]: (fullName: string) =>
-    `Hey, ${fullName} it's your birthday`,
-  [MessageType.ANNIVERSARY]: (fullName: string) =>
-    `Hey, ${fullName} happy work anniversary!`,
+export const MESSAGE_TEMPLATES: Record<MessageType, MessageTemplateContent> = {
+  [MessageType.BIRTHDAY]: {
+    subject: 'Happy birthday, {{firstName}}!',
+    text: "Hey, {{fullName}} it's your birthday",
+    html: null,
+  },
+  [MessageType.ANNIVERSARY]: {
+    subject: 'Happy work anniversary, {{firstName}}!',
+    text: 'Hey, {{fullName}} happy work anniversary!',
+    html: null,
+  },
 };
 
 /**
- * Get the message content for a given type and user
+ * Get the built-in template of a message type
+ * Custom occasion kinds fall back to a generic greeting
  */
-export function getMessageContent(type: MessageType, fullName: string): string {
-  const template = MESSAGE_TEMPLATES[type];
-  if (!template) {
-    throw new Error(`Unknown message type: ${type}`);
+export function getDefaultTemplate(type: string): MessageTemplateContent {
+  const template = MESSAGE_TEMPLATES[type as MessageType];
+  if (template) {
+    return template;
   }
-  return template(fullName);
+
+  const occasion = type.replace(/[-_]/g, ' ');
+  return {
+    subject: `Happy ${occasion}, {{firstName}}!`,
+    text: `Hey, {{fullName}} happy ${occasion}!`,
+    html: null,
+  };
 }
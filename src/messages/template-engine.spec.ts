@@ -0,0 +1,103 @@
+import {
+  buildTemplateVariables,
+  getLocaleFallbacks,
+  renderMessageTemplate,
+  renderTemplate,
+} from './template-engine';
+import { getDefaultTemplate } from './message-type.enum';
+
+describe('template engine', () => {
+  const variables = buildTemplateVariables(
+    { firstName: 'John', lastName: 'Doe', birthday: '1990-05-15' },
+    '2024-05-15',
+    '2018-03-01',
+  );
+
+  describe('renderTemplate', () => {
+    it('should replace every known variable', () => {
+      expect(
+        renderTemplate(
+          '{{firstName}} {{ lastName }} ({{fullName}}) turns {{age}} after {{years}} years',
+          variables,
+        ),
+      ).toBe('John Doe (John Doe) turns 34 after 6 years');
+    });
+
+    it('should render unknown and missing variables as empty', () => {
+      expect(
+        renderTemplate('Hi {{nickname}}{{years}}!', { fullName: 'X' }),
+      ).toBe('Hi !');
+    });
+  });
+
+  describe('renderMessageTemplate', () => {
+    it('should escape values in the HTML body only', () => {
+      const rendered = renderMessageTemplate(
+        {
+          subject: 'Hi {{firstName}}',
+          text: 'Hey, {{fullName}}',
+          html: '<p>Hey, <b>{{fullName}}</b></p>',
+        },
+        { fullName: 'Tom & <Jerry>', firstName: 'Tom' },
+      );
+
+      expect(rendered).toEqual({
+        subject: 'Hi Tom',
+        text: 'Hey, Tom & <Jerry>',
+        html: '<p>Hey, <b>Tom &amp; &lt;Jerry&gt;</b></p>',
+      });
+    });
+  });
+
+  describe('buildTemplateVariables', () => {
+    it('should count years by calendar year of the occasion', () => {
+      const leapling = buildTemplateVariables(
+        { firstName: 'Ann', lastName: 'Lee', birthday: '1992-02-29' },
+        '2023-02-28',
+        '1992-02-29',
+      );
+
+      expect(leapling.age).toBe(31);
+      expect(leapling.years).toBe(31);
+    });
+
+    it('should leave years empty without an original date', () => {
+      expect(
+        buildTemplateVariables(
+          { firstName: 'Ann', lastName: 'Lee' },
+          '2024-01-01',
+        ),
+      ).toEqual({
+        firstName: 'Ann',
+        lastName: 'Lee',
+        fullName: 'Ann Lee',
+        age: null,
+        years: null,
+      });
+    });
+  });
+
+  describe('getLocaleFallbacks', () => {
+    it('should fall back to the language and the default locale', () => {
+      expect(getLocaleFallbacks('pt-BR', 'en')).toEqual(['pt-BR', 'pt', 'en']);
+      expect(getLocaleFallbacks('en', 'en')).toEqual(['en']);
+      expect(getLocaleFallbacks(null, 'en')).toEqual(['en']);
+    });
+  });
+
+  describe('getDefaultTemplate', () => {
+    it('should return the built-in template of a type', () => {
+      expect(getDefaultTemplate('birthday').text).toBe(
+        "Hey, {{fullName}} it's your birthday",
+      );
+    });
+
+    it('should greet custom occasion kinds generically', () => {
+      expect(getDefaultTemplate('name-day')).toEqual({
+        subject: 'Happy name day, {{firstName}}!',
+        text: 'Hey, {{fullName}} happy name day!',
+        html: null,
+      });
+    });
+  });
+});
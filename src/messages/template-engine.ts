@@ -0,0 +1,138 @@
+import type { LocalDate } from '../common/local-date';
+
+/**
+ * Subject and bodies of a message, as templates or rendered
+ */
+export interface MessageTemplateContent {
+  subject: string;
+  text: string;
+  html: string | null;
+}
+
+/**
+ * Values available to templates as {{name}}
+ */
+export interface TemplateVariables {
+  fullName: string;
+  firstName?: string;
+  lastName?: string;
+  age?: number | null; // Age the user turns on the occasion date
+  years?: number | null; // Years since the occasion's original date, e.g. the start date for anniversaries
+}
+
+/**
+ * Names of the variables templates may use
+ */
+export const TEMPLATE_VARIABLES: readonly (keyof TemplateVariables)[] = [
+  'firstName',
+  'lastName',
+  'fullName',
+  'age',
+  'years',
+];
+
+const PLACEHOLDER_PATTERN = /{{\s*(\w+)\s*}}/g;
+
+/**
+ * Names used in a template's placeholders that are not template variables
+ */
+export function findUnknownVariables(template: string): string[] {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map(
+    ([, name]) => name,
+  );
+  return [...new Set(names)].filter(
+    (name) => !(TEMPLATE_VARIABLES as readonly string[]).includes(name),
+  );
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Replace the {{name}} placeholders of a template
+ * Unknown or empty variables are rendered as an empty string
+ * @param escape Applied to every value, e.g. escapeHtml for HTML bodies
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  escape: (value: string) => string = (value) => value,
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = variables[name as keyof TemplateVariables];
+    return value === undefined || value === null ? '' : escape(String(value));
+  });
+}
+
+/**
+ * Render the subject and bodies of a message template
+ */
+export function renderMessageTemplate(
+  template: MessageTemplateContent,
+  variables: TemplateVariables,
+): MessageTemplateContent {
+  return {
+    subject: renderTemplate(template.subject, variables),
+    text: renderTemplate(template.text, variables),
+    html: template.html
+      ? renderTemplate(template.html, variables, escapeHtml)
+      : null,
+  };
+}
+
+/**
+ * Whole years between two local dates, counted by calendar year since
+ * messages are rendered for the occasion date itself
+ */
+function yearsBetween(from: LocalDate, to: LocalDate): number {
+  return parseInt(to.slice(0, 4), 10) - parseInt(from.slice(0, 4), 10);
+}
+
+/**
+ * Build the variables of a message to a user on an occasion date
+ * @param since Original date of the occasion, used for {{years}}
+ */
+export function buildTemplateVariables(
+  user: {
+    firstName: string;
+    lastName: string;
+    birthday?: LocalDate | null;
+  },
+  occasionDate: LocalDate,
+  since?: LocalDate | null,
+): TemplateVariables {
+  return {
+    firstName: user.firstName,
+    lastName: user.lastName,
+    fullName: `${user.firstName} ${user.lastName}`,
+    age: user.birthday ? yearsBetween(user.birthday, occasionDate) : null,
+    years: since ? yearsBetween(since, occasionDate) : null,
+  };
+}
+
+/**
+ * Locales to look templates up in, from the most to the least specific
+ * e.g. pt-BR falls back to pt and then to the default locale
+ */
+export function getLocaleFallbacks(
+  locale: string | null | undefined,
+  defaultLocale: string,
+): string[] {
+  const locales: string[] = [];
+  if (locale) {
+    locales.push(locale);
+    const [language] = locale.split('-');
+    locales.push(language);
+  }
+  locales.push(defaultLocale);
+  return [...new Set(locales)];
+}
@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { EmailService } from '../../email/email.service';
+import { escapeHtml } from '../../messages/template-engine';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+} from '../notification-channel';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Email bodies of a notification, with its unsubscribe link appended
+ */
+export function composeEmail(
+  notification: Pick<Notification, 'content' | 'html' | 'unsubscribeUrl'>,
+): { message: string; html: string | null } {
+  const { content, html, unsubscribeUrl } = notification;
+  if (!unsubscribeUrl) {
+    return { message: content, html };
+  }
+
+  return {
+    message: `${content}\n\nUnsubscribe: ${unsubscribeUrl}`,
+    html: html
+      ? `${html}\n<p><a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a></p>`
+      : null,
+  };
+}
+
+/**
+ * Sends notifications through the external email service
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannel {
+  readonly type = NotificationChannelType.EMAIL;
+
+  constructor(private readonly emailService: EmailService) {}
+
+  checkAvailability(): string | null {
+    return null; // Every user has an email address
+  }
+
+  async send(user: User, notification: Notification): Promise<void> {
+    const { message, html } = composeEmail(notification);
+
+    await this.emailService.sendContent(
+      user.email,
+      message,
+      notification.messageType,
+      {
+        subject: notification.subject,
+        html,
+      },
+    );
+  }
+}
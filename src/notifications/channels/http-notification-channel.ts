@@ -0,0 +1,68 @@
+import { Logger } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import type { User } from '../../users/entities/user.entity';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+} from '../notification-channel';
+
+/**
+ * Channel posting JSON to a configured URL
+ */
+export abstract class HttpNotificationChannel implements NotificationChannel {
+  abstract readonly type: NotificationChannelType;
+  protected readonly logger = new Logger(this.constructor.name);
+  private readonly httpClient: AxiosInstance;
+
+  protected constructor(
+    private readonly url: string | undefined,
+    headers: Record<string, string> = {},
+  ) {
+    this.httpClient = axios.create({
+      baseURL: url,
+      timeout: 30000, // 30 seconds timeout
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+    });
+  }
+
+  checkAvailability(user: User): string | null {
+    if (!this.url) {
+      return `The ${this.type} channel is not configured`;
+    }
+    return this.checkRecipient(user);
+  }
+
+  abstract send(user: User, notification: Notification): Promise<void>;
+
+  /**
+   * Why the user cannot be reached on a configured channel, or null
+   */
+  protected abstract checkRecipient(user: User): string | null;
+
+  protected async post(body: object): Promise<void> {
+    try {
+      await this.httpClient.post('', body);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED') {
+          throw new Error(`${this.type} channel timeout`);
+        }
+
+        const statusCode = error.response?.status;
+        const responseData = error.response?.data as
+          | { message?: string }
+          | undefined;
+        const errorMessage = responseData?.message || error.message;
+        throw new Error(
+          `${this.type} channel error: ${statusCode} - ${errorMessage}`,
+        );
+      }
+
+      throw error;
+    }
+  }
+}
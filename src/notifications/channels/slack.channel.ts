@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpNotificationChannel } from './http-notification-channel';
+import { Notification, NotificationChannelType } from '../notification-channel';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Posts notifications to a Slack-compatible incoming webhook
+ */
+@Injectable()
+export class SlackChannel extends HttpNotificationChannel {
+  readonly type = NotificationChannelType.SLACK;
+
+  constructor(configService: ConfigService) {
+    super(configService.get<string>('notifications.slackWebhookUrl'));
+  }
+
+  async send(user: User, notification: Notification): Promise<void> {
+    await this.post({ text: notification.content });
+    this.logger.log(
+      `Posted ${notification.messageType} message ${notification.messageId} to Slack`,
+    );
+  }
+
+  protected checkRecipient(): string | null {
+    return null; // Messages go to the channel of the webhook
+  }
+}
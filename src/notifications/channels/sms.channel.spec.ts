@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SmsChannel } from './sms.channel';
+import { NotificationChannelType } from '../notification-channel';
+import { User } from '../../users/entities/user.entity';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('SmsChannel', () => {
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  const config: Record<string, string | undefined> = {};
+
+  const user = { id: 'user-123', phoneNumber: '+14155550100' } as User;
+  const notification = {
+    messageId: 'message-123',
+    messageType: 'birthday',
+    fullName: 'John Doe',
+    subject: 'Happy birthday, John!',
+    content: "Hey, John Doe it's your birthday",
+    html: null,
+    unsubscribeUrl: null,
+  };
+
+  const createChannel = async (): Promise<SmsChannel> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SmsChannel,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<SmsChannel>(SmsChannel);
+  };
+
+  beforeEach(() => {
+    mockedAxios.create.mockReturnValue(
+      mockAxiosInstance as unknown as ReturnType<typeof axios.create>,
+    );
+    config['notifications.smsGatewayUrl'] = 'https://sms.example.com/send';
+    config['notifications.smsGatewayToken'] = 'secret';
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should authenticate with the gateway token', async () => {
+    await createChannel();
+
+    expect(mockedAxios.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        baseURL: 'https://sms.example.com/send',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer secret',
+        },
+      }),
+    );
+  });
+
+  it('should send the content to the phone number', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ status: 200 });
+    const channel = await createChannel();
+
+    await channel.send(user, notification);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('', {
+      to: '+14155550100',
+      message: notification.content,
+    });
+  });
+
+  it('should report gateway errors with their status', async () => {
+    mockAxiosInstance.post.mockRejectedValue({
+      isAxiosError: true,
+      code: 'ERR_BAD_RESPONSE',
+      message: 'Request failed',
+      response: {
+        status: 502,
+        data: { message: 'Bad gateway' },
+      },
+    });
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    const channel = await createChannel();
+
+    await expect(channel.send(user, notification)).rejects.toThrow(
+      'sms channel error: 502 - Bad gateway',
+    );
+  });
+
+  it('should be unavailable when the gateway is not configured', async () => {
+    config['notifications.smsGatewayUrl'] = undefined;
+    const channel = await createChannel();
+
+    expect(channel.type).toBe(NotificationChannelType.SMS);
+    expect(channel.checkAvailability(user)).toBe(
+      'The sms channel is not configured',
+    );
+  });
+
+  it('should be unavailable for users without a phone number', async () => {
+    const channel = await createChannel();
+
+    expect(
+      channel.checkAvailability({ ...user, phoneNumber: null } as User),
+    ).toBe('The user has no phone number');
+  });
+});
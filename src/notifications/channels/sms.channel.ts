@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpNotificationChannel } from './http-notification-channel';
+import { Notification, NotificationChannelType } from '../notification-channel';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Sends text messages through an HTTP SMS gateway accepting {to, message}
+ */
+@Injectable()
+export class SmsChannel extends HttpNotificationChannel {
+  readonly type = NotificationChannelType.SMS;
+
+  constructor(configService: ConfigService) {
+    const token = configService.get<string>('notifications.smsGatewayToken');
+    super(
+      configService.get<string>('notifications.smsGatewayUrl'),
+      token ? { Authorization: `Bearer ${token}` } : {},
+    );
+  }
+
+  async send(user: User, notification: Notification): Promise<void> {
+    await this.post({ to: user.phoneNumber, message: notification.content });
+    this.logger.log(`Sent ${notification.messageType} SMS to user ${user.id}`);
+  }
+
+  protected checkRecipient(user: User): string | null {
+    return user.phoneNumber ? null : 'The user has no phone number';
+  }
+}
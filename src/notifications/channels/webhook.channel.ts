@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpNotificationChannel } from './http-notification-channel';
+import { Notification, NotificationChannelType } from '../notification-channel';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * Posts every notification as JSON to a generic outbound webhook
+ */
+@Injectable()
+export class WebhookChannel extends HttpNotificationChannel {
+  readonly type = NotificationChannelType.WEBHOOK;
+
+  constructor(configService: ConfigService) {
+    super(configService.get<string>('notifications.webhookUrl'));
+  }
+
+  async send(user: User, notification: Notification): Promise<void> {
+    await this.post({
+      messageId: notification.messageId,
+      messageType: notification.messageType,
+      userId: user.id,
+      email: user.email,
+      fullName: notification.fullName,
+      subject: notification.subject,
+      message: notification.content,
+      html: notification.html,
+      unsubscribeUrl: notification.unsubscribeUrl,
+    });
+    this.logger.log(
+      `Posted ${notification.messageType} message ${notification.messageId} to webhook`,
+    );
+  }
+
+  protected checkRecipient(): string | null {
+    return null; // Every user reaches the same webhook
+  }
+}
@@ -0,0 +1,61 @@
+import type { User } from '../users/entities/user.entity';
+
+export enum NotificationChannelType {
+  EMAIL = 'email',
+  SMS = 'sms',
+  SLACK = 'slack',
+  WEBHOOK = 'webhook',
+}
+
+/**
+ * A rendered message, ready to go out on any channel
+ */
+export interface Notification {
+  messageId: string;
+  messageType: string;
+  fullName: string;
+  subject: string;
+  content: string; // Text body
+  html: string | null; // HTML body, for channels that support it
+  unsubscribeUrl: string | null; // Link opting the user out of this message type
+}
+
+export interface NotificationChannel {
+  readonly type: NotificationChannelType;
+
+  /**
+   * Why the channel cannot reach the user, or null when it can
+   */
+  checkAvailability(user: User): string | null;
+
+  send(user: User, notification: Notification): Promise<void>;
+}
+
+export enum DeliveryStatus {
+  SENT = 'sent',
+  FAILED = 'failed',
+  SKIPPED = 'skipped', // The channel is not configured or cannot reach the user
+}
+
+/**
+ * Delivery state of a message on one channel
+ */
+export interface ChannelDelivery {
+  status: DeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null; // ISO 8601 instant
+}
+
+export type MessageDeliveries = Partial<
+  Record<NotificationChannelType, ChannelDelivery>
+>;
+
+/**
+ * Outcome of sending a message, with the stored template it was rendered from
+ */
+export interface DeliveryResult {
+  deliveries: MessageDeliveries;
+  templateId: string | null; // null for the built-in template
+  templateVersion: number | null;
+}
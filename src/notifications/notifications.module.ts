@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { EmailChannel } from './channels/email.channel';
+import { SmsChannel } from './channels/sms.channel';
+import { SlackChannel } from './channels/slack.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { EmailModule } from '../email/email.module';
+import { UsersModule } from '../users/users.module';
+import { TemplatesModule } from '../templates/templates.module';
+
+@Module({
+  imports: [EmailModule, UsersModule, TemplatesModule],
+  providers: [
+    NotificationsService,
+    EmailChannel,
+    SmsChannel,
+    SlackChannel,
+    WebhookChannel,
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationsService } from './notifications.service';
+import {
+  DeliveryStatus,
+  NotificationChannelType,
+} from './notification-channel';
+import { EmailChannel } from './channels/email.channel';
+import { SmsChannel } from './channels/sms.channel';
+import { SlackChannel } from './channels/slack.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import {
+  BirthdayMessage,
+  MessageType,
+} from '../birthday/entities/birthday-message.entity';
+import { User } from '../users/entities/user.entity';
+import { UnsubscribeTokenService } from '../users/unsubscribe-token.service';
+import { TemplatesService } from '../templates/templates.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+
+  const channel = (type: NotificationChannelType) => ({
+    type,
+    checkAvailability: jest.fn().mockReturnValue(null),
+    send: jest.fn(),
+  });
+
+  const emailChannel = channel(NotificationChannelType.EMAIL);
+  const smsChannel = channel(NotificationChannelType.SMS);
+  const slackChannel = channel(NotificationChannelType.SLACK);
+  const webhookChannel = channel(NotificationChannelType.WEBHOOK);
+
+  const user = {
+    id: 'user-123',
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john@example.com',
+    phoneNumber: '+14155550100',
+    notificationChannels: [
+      NotificationChannelType.EMAIL,
+      NotificationChannelType.SMS,
+    ],
+  } as User;
+
+  const buildMessage = (overrides: Partial<BirthdayMessage> = {}) =>
+    ({
+      id: 'message-123',
+      userId: user.id,
+      user,
+      messageType: MessageType.BIRTHDAY,
+      occasion: null,
+      deliveries: {},
+      ...overrides,
+    }) as BirthdayMessage;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: EmailChannel, useValue: emailChannel },
+        { provide: SmsChannel, useValue: smsChannel },
+        { provide: SlackChannel, useValue: slackChannel },
+        { provide: WebhookChannel, useValue: webhookChannel },
+        {
+          provide: TemplatesService,
+          useValue: {
+            render: jest.fn().mockResolvedValue({
+              subject: 'Happy birthday, John!',
+              text: "Hey, John Doe it's your birthday",
+              html: "<p>Hey, John Doe it's your birthday</p>",
+              templateId: 'template-123',
+              templateVersion: 3,
+            }),
+          },
+        },
+        {
+          provide: UnsubscribeTokenService,
+          useValue: {
+            getUnsubscribeUrl: jest
+              .fn()
+              .mockReturnValue('https://example.com/unsubscribe/token'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send the message on every channel the user chose', async () => {
+    const { deliveries, templateId, templateVersion } =
+      await service.deliver(buildMessage());
+
+    expect(emailChannel.send).toHaveBeenCalledWith(user, {
+      messageId: 'message-123',
+      messageType: MessageType.BIRTHDAY,
+      fullName: 'John Doe',
+      subject: 'Happy birthday, John!',
+      content: "Hey, John Doe it's your birthday",
+      html: "<p>Hey, John Doe it's your birthday</p>",
+      unsubscribeUrl: 'https://example.com/unsubscribe/token',
+    });
+    expect(smsChannel.send).toHaveBeenCalled();
+    expect(slackChannel.send).not.toHaveBeenCalled();
+    expect(deliveries.email?.status).toBe(DeliveryStatus.SENT);
+    expect(deliveries.email?.attempts).toBe(1);
+    expect(deliveries.sms?.status).toBe(DeliveryStatus.SENT);
+    expect(templateId).toBe('template-123');
+    expect(templateVersion).toBe(3);
+  });
+
+  it('should default to email for users without channels', async () => {
+    const { deliveries } = await service.deliver(
+      buildMessage({
+        user: { ...user, notificationChannels: [] } as unknown as User,
+      }),
+    );
+
+    expect(emailChannel.send).toHaveBeenCalled();
+    expect(smsChannel.send).not.toHaveBeenCalled();
+    expect(Object.keys(deliveries)).toEqual([NotificationChannelType.EMAIL]);
+  });
+
+  it('should record a failed channel without failing the others', async () => {
+    smsChannel.send.mockRejectedValueOnce(new Error('sms channel timeout'));
+
+    const { deliveries } = await service.deliver(buildMessage());
+
+    expect(deliveries.email?.status).toBe(DeliveryStatus.SENT);
+    expect(deliveries.sms).toEqual({
+      status: DeliveryStatus.FAILED,
+      attempts: 1,
+      lastError: 'sms channel timeout',
+      sentAt: null,
+    });
+  });
+
+  it('should not resend on channels an earlier attempt delivered to', async () => {
+    const sentAt = '2024-05-15T13:00:00.000Z';
+    const { deliveries } = await service.deliver(
+      buildMessage({
+        deliveries: {
+          email: {
+            status: DeliveryStatus.SENT,
+            attempts: 1,
+            lastError: null,
+            sentAt,
+          },
+          sms: {
+            status: DeliveryStatus.FAILED,
+            attempts: 1,
+            lastError: 'sms channel timeout',
+            sentAt: null,
+          },
+        },
+      }),
+    );
+
+    expect(emailChannel.send).not.toHaveBeenCalled();
+    expect(smsChannel.send).toHaveBeenCalled();
+    expect(deliveries.email?.sentAt).toBe(sentAt);
+    expect(deliveries.sms?.status).toBe(DeliveryStatus.SENT);
+    expect(deliveries.sms?.attempts).toBe(2);
+  });
+
+  it('should skip channels that cannot reach the user', async () => {
+    smsChannel.checkAvailability.mockReturnValueOnce(
+      'The sms channel is not configured',
+    );
+
+    const { deliveries } = await service.deliver(buildMessage());
+
+    expect(smsChannel.send).not.toHaveBeenCalled();
+    expect(deliveries.sms).toEqual({
+      status: DeliveryStatus.SKIPPED,
+      attempts: 0,
+      lastError: 'The sms channel is not configured',
+      sentAt: null,
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ChannelDelivery,
+  DeliveryResult,
+  DeliveryStatus,
+  MessageDeliveries,
+  Notification,
+  NotificationChannel,
+  NotificationChannelType,
+} from './notification-channel';
+import { EmailChannel } from './channels/email.channel';
+import { SmsChannel } from './channels/sms.channel';
+import { SlackChannel } from './channels/slack.channel';
+import { WebhookChannel } from './channels/webhook.channel';
+import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { TemplatesService } from '../templates/templates.service';
+import { UnsubscribeTokenService } from '../users/unsubscribe-token.service';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly channels: Map<NotificationChannelType, NotificationChannel>;
+
+  constructor(
+    emailChannel: EmailChannel,
+    smsChannel: SmsChannel,
+    slackChannel: SlackChannel,
+    webhookChannel: WebhookChannel,
+    private readonly templatesService: TemplatesService,
+    private readonly unsubscribeTokenService: UnsubscribeTokenService,
+  ) {
+    this.channels = new Map(
+      [emailChannel, smsChannel, slackChannel, webhookChannel].map(
+        (channel) => [channel.type, channel],
+      ),
+    );
+  }
+
+  /**
+   * Send a message loaded with its user and occasion on every channel the
+   * user chose, skipping the channels an earlier attempt already delivered to
+   * The message is rendered from the template for the user's locale
+   * @returns the message's deliveries updated with this attempt and the
+   * template version it was rendered with
+   */
+  async deliver(message: BirthdayMessage): Promise<DeliveryResult> {
+    const { user } = message;
+    const { subject, text, html, templateId, templateVersion } =
+      await this.templatesService.render(message);
+    const notification: Notification = {
+      messageId: message.id,
+      messageType: message.messageType,
+      fullName: `${user.firstName} ${user.lastName}`,
+      subject,
+      content: text,
+      html,
+      unsubscribeUrl: this.unsubscribeTokenService.getUnsubscribeUrl(
+        user.id,
+        message.messageType,
+      ),
+    };
+
+    const deliveries: MessageDeliveries = { ...message.deliveries };
+    const channelTypes = user.notificationChannels?.length
+      ? user.notificationChannels
+      : [NotificationChannelType.EMAIL];
+
+    await Promise.all(
+      channelTypes.map(async (type) => {
+        const previous = deliveries[type];
+        if (previous?.status === DeliveryStatus.SENT) {
+          return;
+        }
+
+        deliveries[type] = await this.deliverOn(
+          type,
+          message,
+          notification,
+          previous?.attempts ?? 0,
+        );
+      }),
+    );
+
+    return { deliveries, templateId, templateVersion };
+  }
+
+  private async deliverOn(
+    type: NotificationChannelType,
+    message: BirthdayMessage,
+    notification: Notification,
+    previousAttempts: number,
+  ): Promise<ChannelDelivery> {
+    const channel = this.channels.get(type);
+    const unavailable = channel
+      ? channel.checkAvailability(message.user)
+      : `Unknown channel ${type}`;
+    if (!channel || unavailable) {
+      this.logger.warn(
+        `Skipping ${type} for message ${message.id}: ${unavailable}`,
+      );
+      return {
+        status: DeliveryStatus.SKIPPED,
+        attempts: previousAttempts,
+        lastError: unavailable,
+        sentAt: null,
+      };
+    }
+
+    const attempts = previousAttempts + 1;
+    try {
+      await channel.send(message.user, notification);
+      return {
+        status: DeliveryStatus.SENT,
+        attempts,
+        lastError: null,
+        sentAt: new Date().toISOString(),
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Failed to deliver message ${message.id} on ${type}: ${errorMessage}`,
+      );
+      return {
+        status: DeliveryStatus.FAILED,
+        attempts,
+        lastError: errorMessage,
+        sentAt: null,
+      };
+    }
+  }
+}
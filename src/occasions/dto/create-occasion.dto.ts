@@ -0,0 +1,93 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OccasionRecurrence } from '../entities/occasion.entity';
+import { IsLocalDate } from '../../common/validators/local-date.validator';
+import { HasKnownTemplateVariables } from '../../common/validators/template-variables.validator';
+import type { LocalDate } from '../../common/local-date';
+
+export const KIND_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/;
+export const KIND_MESSAGE =
+  'kind must be a lowercase identifier (e.g., name-day, wedding_anniversary)';
+
+export class CreateOccasionDto {
+  @ApiProperty({
+    example: 'name-day',
+    description: 'Kind of occasion, also used as the message type',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(KIND_PATTERN, { message: KIND_MESSAGE })
+  kind: string;
+
+  @ApiProperty({
+    example: '2020-07-26',
+    description: 'Date of the occasion in ISO date format (YYYY-MM-DD)',
+  })
+  @IsLocalDate()
+  @IsNotEmpty()
+  date: LocalDate;
+
+  @ApiPropertyOptional({
+    enum: OccasionRecurrence,
+    default: OccasionRecurrence.YEARLY,
+    description: 'How often the occasion repeats',
+  })
+  @IsEnum(OccasionRecurrence)
+  @IsOptional()
+  recurrence?: OccasionRecurrence;
+
+  @ApiPropertyOptional({
+    example: 'Happy name day, {{fullName}}!',
+    description:
+      'Custom message template; {{firstName}}, {{lastName}}, {{fullName}}, {{age}} and {{years}} are replaced',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  @HasKnownTemplateVariables()
+  template?: string;
+}
+
+export class UpdateOccasionDto {
+  @ApiPropertyOptional({ example: 'name-day', description: 'Kind of occasion' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  @Matches(KIND_PATTERN, { message: KIND_MESSAGE })
+  kind?: string;
+
+  @ApiPropertyOptional({
+    example: '2020-07-26',
+    description: 'Date of the occasion in ISO date format',
+  })
+  @IsLocalDate()
+  @IsOptional()
+  date?: LocalDate;
+
+  @ApiPropertyOptional({
+    enum: OccasionRecurrence,
+    description: 'How often the occasion repeats',
+  })
+  @IsEnum(OccasionRecurrence)
+  @IsOptional()
+  recurrence?: OccasionRecurrence;
+
+  @ApiPropertyOptional({
+    example: 'Happy name day, {{fullName}}!',
+    description:
+      'Custom message template; {{firstName}}, {{lastName}}, {{fullName}}, {{age}} and {{years}} are replaced',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  @HasKnownTemplateVariables()
+  template?: string;
+}
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { localDateTransformer } from '../../common/local-date';
+import type { LocalDate } from '../../common/local-date';
+
+export enum OccasionRecurrence {
+  YEARLY = 'yearly',
+  MONTHLY = 'monthly',
+  ONE_OFF = 'one_off',
+}
+
+@Entity('occasions')
+@Index('IDX_occasions_month_day', ['month', 'day']) // Index for fast due-date lookups
+@Index('IDX_occasions_user_kind', ['userId', 'kind'])
+export class Occasion {
+  @PrimaryGeneratedColumn('uuid', { primaryKeyConstraintName: 'PK_occasions' })
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'user_id',
+    foreignKeyConstraintName: 'FK_occasions_user',
+  })
+  user: User;
+
+  @Column({ length: 50 })
+  kind: string; // e.g., 'birthday', 'anniversary', 'name-day'
+
+  @Column({ type: 'date', transformer: localDateTransformer })
+  date: LocalDate; // Original date of the occasion
+
+  @Column({ type: 'int' })
+  month: number;
+
+  @Column({ type: 'int' })
+  day: number;
+
+  @Column({
+    type: 'enum',
+    enum: OccasionRecurrence,
+    default: OccasionRecurrence.YEARLY,
+  })
+  recurrence: OccasionRecurrence;
+
+  @Column({ type: 'text', nullable: true })
+  template: string | null; // Optional custom message, e.g. 'Happy name day, {{fullName}}!'
+
+  @Column({ default: false })
+  managed: boolean; // Derived from the user profile (birthday, start date)
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
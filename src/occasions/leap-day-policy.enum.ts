@@ -0,0 +1,8 @@
+/**
+ * When a yearly occasion on Feb 29 is observed in common years
+ */
+export enum LeapDayPolicy {
+  FEB_28 = 'feb-28',
+  MAR_1 = 'mar-1',
+  SKIP = 'skip',
+}
@@ -0,0 +1,103 @@
+import {
+  LeapDayPolicy,
+  getLeapDayObservance,
+  getYearlyObservance,
+  isLeapDayOccasion,
+  isObservedOn,
+} from './leap-day';
+import { OccasionRecurrence } from './entities/occasion.entity';
+
+describe('leap-day', () => {
+  const leapDayBirthday = {
+    recurrence: OccasionRecurrence.YEARLY,
+    month: 2,
+    day: 29,
+  };
+
+  describe('isLeapDayOccasion', () => {
+    it('should detect yearly occasions on Feb 29', () => {
+      expect(isLeapDayOccasion(leapDayBirthday)).toBe(true);
+    });
+
+    it('should ignore other dates and recurrences', () => {
+      expect(
+        isLeapDayOccasion({
+          ...leapDayBirthday,
+          recurrence: OccasionRecurrence.MONTHLY,
+        }),
+      ).toBe(false);
+      expect(isLeapDayOccasion({ ...leapDayBirthday, day: 28 })).toBe(false);
+    });
+  });
+
+  describe('getLeapDayObservance', () => {
+    it('should observe on Feb 29 in leap years regardless of the policy', () => {
+      for (const policy of Object.values(LeapDayPolicy)) {
+        expect(getLeapDayObservance(2024, policy)).toBe('2024-02-29');
+      }
+    });
+
+    it('should apply the policy in common years', () => {
+      expect(getLeapDayObservance(2025, LeapDayPolicy.FEB_28)).toBe(
+        '2025-02-28',
+      );
+      expect(getLeapDayObservance(2025, LeapDayPolicy.MAR_1)).toBe(
+        '2025-03-01',
+      );
+      expect(getLeapDayObservance(2025, LeapDayPolicy.SKIP)).toBeNull();
+    });
+
+    it('should treat century years that are not divisible by 400 as common', () => {
+      expect(getLeapDayObservance(2100, LeapDayPolicy.MAR_1)).toBe(
+        '2100-03-01',
+      );
+      expect(getLeapDayObservance(2000, LeapDayPolicy.MAR_1)).toBe(
+        '2000-02-29',
+      );
+    });
+  });
+
+  describe('getYearlyObservance', () => {
+    it('should observe regular dates on the same month and day', () => {
+      expect(getYearlyObservance(1, 5, 2025, LeapDayPolicy.SKIP)).toBe(
+        '2025-01-05',
+      );
+    });
+
+    it('should apply the policy to Feb 29', () => {
+      expect(getYearlyObservance(2, 29, 2025, LeapDayPolicy.MAR_1)).toBe(
+        '2025-03-01',
+      );
+      expect(getYearlyObservance(2, 29, 2028, LeapDayPolicy.MAR_1)).toBe(
+        '2028-02-29',
+      );
+    });
+  });
+
+  describe('isObservedOn', () => {
+    it('should always observe occasions not on Feb 29', () => {
+      const occasion = { ...leapDayBirthday, month: 2, day: 28 };
+      expect(isObservedOn(occasion, '2025-02-28', LeapDayPolicy.SKIP)).toBe(
+        true,
+      );
+    });
+
+    it('should observe Feb 29 occasions only on the policy date', () => {
+      expect(
+        isObservedOn(leapDayBirthday, '2025-02-28', LeapDayPolicy.FEB_28),
+      ).toBe(true);
+      expect(
+        isObservedOn(leapDayBirthday, '2025-03-01', LeapDayPolicy.FEB_28),
+      ).toBe(false);
+      expect(
+        isObservedOn(leapDayBirthday, '2025-03-01', LeapDayPolicy.MAR_1),
+      ).toBe(true);
+      expect(
+        isObservedOn(leapDayBirthday, '2025-02-28', LeapDayPolicy.SKIP),
+      ).toBe(false);
+      expect(
+        isObservedOn(leapDayBirthday, '2024-02-29', LeapDayPolicy.SKIP),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import * as moment from 'moment-timezone';
+import { Occasion, OccasionRecurrence } from './entities/occasion.entity';
+import { LeapDayPolicy } from './leap-day-policy.enum';
+
+export { LeapDayPolicy };
+
+/**
+ * Whether an occasion recurs yearly on Feb 29
+ */
+export function isLeapDayOccasion(
+  occasion: Pick<Occasion, 'recurrence' | 'month' | 'day'>,
+): boolean {
+  return (
+    occasion.recurrence === OccasionRecurrence.YEARLY &&
+    occasion.month === 2 &&
+    occasion.day === 29
+  );
+}
+
+/**
+ * The local date (YYYY-MM-DD) a Feb 29 occasion is observed on in a year,
+ * or null when the policy skips common years
+ */
+export function getLeapDayObservance(
+  year: number,
+  policy: LeapDayPolicy,
+): string | null {
+  if (moment.utc({ year }).isLeapYear()) {
+    return `${year}-02-29`;
+  }
+
+  switch (policy) {
+    case LeapDayPolicy.SKIP:
+      return null;
+    case LeapDayPolicy.MAR_1:
+      return `${year}-03-01`;
+    default:
+      return `${year}-02-28`;
+  }
+}
+
+/**
+ * The local date (YYYY-MM-DD) a yearly occasion on a month and day is
+ * observed on in a year, or null when a Feb 29 occasion is skipped
+ */
+export function getYearlyObservance(
+  month: number,
+  day: number,
+  year: number,
+  policy: LeapDayPolicy,
+): string | null {
+  if (month === 2 && day === 29) {
+    return getLeapDayObservance(year, policy);
+  }
+  return moment.utc({ year, month: month - 1, day }).format('YYYY-MM-DD');
+}
+
+/**
+ * Whether an occasion returned as due on a local date is observed on it,
+ * applying the leap-day policy to Feb 29 occasions
+ */
+export function isObservedOn(
+  occasion: Pick<Occasion, 'recurrence' | 'month' | 'day'>,
+  date: string,
+  policy: LeapDayPolicy,
+): boolean {
+  if (!isLeapDayOccasion(occasion)) {
+    return true;
+  }
+
+  const year = parseInt(date.slice(0, 4), 10);
+  return getLeapDayObservance(year, policy) === date;
+}
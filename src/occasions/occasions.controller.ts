@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { OccasionsService } from './occasions.service';
+import {
+  CreateOccasionDto,
+  UpdateOccasionDto,
+} from './dto/create-occasion.dto';
+import { Occasion } from './entities/occasion.entity';
+
+@ApiTags('occasions')
+@Controller('user/:id/occasions')
+@ApiParam({ name: 'id', description: 'User UUID' })
+export class OccasionsController {
+  constructor(private readonly occasionsService: OccasionsService) {}
+
+  /**
+   * POST /user/:id/occasions - Create an occasion for a user
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create an occasion for a user' })
+  @ApiResponse({
+    status: 201,
+    description: 'Occasion created successfully',
+    type: Occasion,
+  })
+  @ApiResponse({ status: 400, description: 'Validation failed' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async create(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() createOccasionDto: CreateOccasionDto,
+  ): Promise<Occasion> {
+    return this.occasionsService.create(userId, createOccasionDto);
+  }
+
+  /**
+   * GET /user/:id/occasions - Get all occasions of a user
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all occasions of a user' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of occasions',
+    type: [Occasion],
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async findAll(
+    @Param('id', ParseUUIDPipe) userId: string,
+  ): Promise<Occasion[]> {
+    return this.occasionsService.findAllForUser(userId);
+  }
+
+  /**
+   * GET /user/:id/occasions/:occasionId - Get an occasion by ID
+   */
+  @Get(':occasionId')
+  @ApiOperation({ summary: 'Get an occasion by ID' })
+  @ApiParam({ name: 'occasionId', description: 'Occasion UUID' })
+  @ApiResponse({ status: 200, description: 'Occasion found', type: Occasion })
+  @ApiResponse({ status: 404, description: 'Occasion not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Param('occasionId', ParseUUIDPipe) occasionId: string,
+  ): Promise<Occasion> {
+    return this.occasionsService.findOne(userId, occasionId);
+  }
+
+  /**
+   * PUT /user/:id/occasions/:occasionId - Update an occasion
+   */
+  @Put(':occasionId')
+  @ApiOperation({ summary: 'Update an occasion' })
+  @ApiParam({ name: 'occasionId', description: 'Occasion UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Occasion updated successfully',
+    type: Occasion,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Profile occasions only allow template changes',
+  })
+  @ApiResponse({ status: 404, description: 'Occasion not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Param('occasionId', ParseUUIDPipe) occasionId: string,
+    @Body() updateOccasionDto: UpdateOccasionDto,
+  ): Promise<Occasion> {
+    return this.occasionsService.update(userId, occasionId, updateOccasionDto);
+  }
+
+  /**
+   * DELETE /user/:id/occasions/:occasionId - Delete an occasion
+   */
+  @Delete(':occasionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an occasion' })
+  @ApiParam({ name: 'occasionId', description: 'Occasion UUID' })
+  @ApiResponse({ status: 204, description: 'Occasion deleted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Profile occasions cannot be deleted',
+  })
+  @ApiResponse({ status: 404, description: 'Occasion not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Param('occasionId', ParseUUIDPipe) occasionId: string,
+  ): Promise<void> {
+    return this.occasionsService.remove(userId, occasionId);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OccasionsController } from './occasions.controller';
+import { OccasionsService } from './occasions.service';
+import { Occasion } from './entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Occasion, User])],
+  controllers: [OccasionsController],
+  providers: [OccasionsService],
+  exports: [OccasionsService],
+})
+export class OccasionsModule {}
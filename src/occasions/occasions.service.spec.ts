@@ -0,0 +1,358 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Brackets, WhereExpressionBuilder } from 'typeorm';
+import { OccasionsService } from './occasions.service';
+import { Occasion, OccasionRecurrence } from './entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+
+describe('OccasionsService', () => {
+  let service: OccasionsService;
+
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const mockUser: Partial<User> = {
+    id: userId,
+    firstName: 'John',
+    lastName: 'Doe',
+    email: 'john.doe@example.com',
+    birthday: '1990-05-15',
+    startDate: null,
+    timezone: 'America/New_York',
+  };
+
+  const mockOccasion: Partial<Occasion> = {
+    id: 'occasion-123',
+    userId,
+    kind: 'name-day',
+    date: '2020-07-26',
+    month: 7,
+    day: 26,
+    recurrence: OccasionRecurrence.YEARLY,
+    template: null,
+    managed: false,
+  };
+
+  const mockOccasionRepository = {
+    create: jest.fn((fields: Partial<Occasion>) => ({ ...fields })),
+    save: jest.fn((occasion: Partial<Occasion>) => Promise.resolve(occasion)),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    remove: jest.fn(),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    exists: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OccasionsService,
+        {
+          provide: getRepositoryToken(Occasion),
+          useValue: mockOccasionRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OccasionsService>(OccasionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create an occasion with month and day derived from the date', async () => {
+      mockUserRepository.exists.mockResolvedValue(true);
+
+      const result = await service.create(userId, {
+        kind: 'name-day',
+        date: '2020-07-26',
+        recurrence: OccasionRecurrence.YEARLY,
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          userId,
+          kind: 'name-day',
+          date: '2020-07-26',
+          month: 7,
+          day: 26,
+          managed: false,
+        }),
+      );
+    });
+
+    it('should reject kinds managed from the user profile', async () => {
+      mockUserRepository.exists.mockResolvedValue(true);
+
+      await expect(
+        service.create(userId, { kind: 'birthday', date: '1990-05-15' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException if user not found', async () => {
+      mockUserRepository.exists.mockResolvedValue(false);
+
+      await expect(
+        service.create(userId, { kind: 'name-day', date: '2020-07-26' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should recalculate month and day when the date changes', async () => {
+      mockOccasionRepository.findOne.mockResolvedValue({ ...mockOccasion });
+
+      const result = await service.update(userId, 'occasion-123', {
+        date: '2020-12-06',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({ date: '2020-12-06', month: 12, day: 6 }),
+      );
+    });
+
+    it('should only allow template changes on profile occasions', async () => {
+      mockOccasionRepository.findOne.mockResolvedValue({
+        ...mockOccasion,
+        kind: 'birthday',
+        managed: true,
+      });
+
+      await expect(
+        service.update(userId, 'occasion-123', { date: '1990-06-01' }),
+      ).rejects.toThrow(BadRequestException);
+
+      const result = await service.update(userId, 'occasion-123', {
+        template: 'Happy birthday, {{fullName}}!',
+      });
+      expect(result.template).toBe('Happy birthday, {{fullName}}!');
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove a custom occasion', async () => {
+      mockOccasionRepository.findOne.mockResolvedValue(mockOccasion);
+
+      await service.remove(userId, 'occasion-123');
+
+      expect(mockOccasionRepository.remove).toHaveBeenCalledWith(mockOccasion);
+    });
+
+    it('should not remove profile occasions', async () => {
+      mockOccasionRepository.findOne.mockResolvedValue({
+        ...mockOccasion,
+        managed: true,
+      });
+
+      await expect(service.remove(userId, 'occasion-123')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('syncProfileOccasions', () => {
+    it('should create birthday and anniversary occasions', async () => {
+      mockOccasionRepository.find.mockResolvedValue([]);
+
+      await service.syncProfileOccasions({
+        ...mockUser,
+        startDate: '2018-03-01',
+      } as User);
+
+      expect(mockOccasionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'birthday',
+          date: '1990-05-15',
+          month: 5,
+          day: 15,
+          managed: true,
+        }),
+      );
+      expect(mockOccasionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'anniversary',
+          date: '2018-03-01',
+          month: 3,
+          day: 1,
+          managed: true,
+        }),
+      );
+    });
+
+    it('should update existing profile occasions and keep their template', async () => {
+      const existing = {
+        ...mockOccasion,
+        kind: 'birthday',
+        date: '1990-01-01',
+        month: 1,
+        day: 1,
+        template: 'Custom {{fullName}}',
+        managed: true,
+      };
+      mockOccasionRepository.find.mockResolvedValue([existing]);
+
+      await service.syncProfileOccasions(mockUser as User);
+
+      expect(mockOccasionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'occasion-123',
+          month: 5,
+          day: 15,
+          template: 'Custom {{fullName}}',
+        }),
+      );
+      expect(mockOccasionRepository.remove).not.toHaveBeenCalled();
+    });
+
+    it('should remove profile occasions no longer backed by the user', async () => {
+      const anniversary = {
+        ...mockOccasion,
+        kind: 'anniversary',
+        managed: true,
+      };
+      mockOccasionRepository.find.mockResolvedValue([anniversary]);
+
+      await service.syncProfileOccasions(mockUser as User);
+
+      expect(mockOccasionRepository.remove).toHaveBeenCalledWith([anniversary]);
+    });
+  });
+
+  describe('findDueOn', () => {
+    const createQueryBuilderMock = () => ({
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([mockOccasion]),
+    });
+
+    type Condition = [string, Record<string, unknown>];
+
+    const captureConditions = (queryBuilder: {
+      where: jest.Mock;
+    }): Condition[] => {
+      const [brackets] = queryBuilder.where.mock.calls[0] as [Brackets];
+      const qb = {
+        where: jest.fn().mockReturnThis(),
+        orWhere: jest.fn().mockReturnThis(),
+      };
+      brackets.whereFactory(qb as unknown as WhereExpressionBuilder);
+      const calls = [
+        qb.where.mock.calls,
+        qb.orWhere.mock.calls,
+      ] as Condition[][];
+      return calls.flat();
+    };
+
+    it('should query yearly, monthly and one-off occasions on the date', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findDueOn('2024-07-26');
+
+      expect(result).toEqual([mockOccasion]);
+      const conditions = captureConditions(queryBuilder);
+      expect(conditions[0][1]).toEqual(
+        expect.objectContaining({ month: 7, day: 26, date: '2024-07-26' }),
+      );
+      expect(conditions[1][1]).toEqual(
+        expect.objectContaining({ monthlyDays: [26] }),
+      );
+    });
+
+    it('should include later monthly days on the last day of the month', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findDueOn('2024-04-30');
+
+      const conditions = captureConditions(queryBuilder);
+      expect(conditions[1][1]).toEqual(
+        expect.objectContaining({ monthlyDays: [30, 31] }),
+      );
+    });
+
+    it('should include Feb 29 occasions around Feb 29 of common years', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findDueOn('2025-03-01');
+
+      const conditions = captureConditions(queryBuilder);
+      expect(conditions).toHaveLength(4);
+      expect(conditions[3][0]).toContain('occasion.day = 29');
+    });
+
+    it('should not include extra Feb 29 candidates in leap years', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findDueOn('2024-03-01');
+
+      expect(captureConditions(queryBuilder)).toHaveLength(3);
+    });
+  });
+
+  describe('findYearlyOn', () => {
+    const createQueryBuilderMock = () => ({
+      innerJoinAndSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([mockOccasion]),
+    });
+
+    const captureMonthDays = (queryBuilder: { andWhere: jest.Mock }) => {
+      const [brackets] = queryBuilder.andWhere.mock.calls[1] as [Brackets];
+      const qb = { orWhere: jest.fn().mockReturnThis() };
+      brackets.whereFactory(qb as unknown as WhereExpressionBuilder);
+      return (qb.orWhere.mock.calls as [string, Record<string, number>][]).map(
+        ([, params]) => Object.values(params),
+      );
+    };
+
+    it('should query yearly occasions of the kind on the dates', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findYearlyOn(
+        'birthday',
+        ['2024-12-31', '2025-01-01'],
+        'Asia/Jakarta',
+      );
+
+      expect(result).toEqual([mockOccasion]);
+      expect(queryBuilder.where).toHaveBeenCalledWith('occasion.kind = :kind', {
+        kind: 'birthday',
+      });
+      expect(captureMonthDays(queryBuilder)).toEqual([
+        [12, 31],
+        [1, 1],
+      ]);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'user.timezone = :timezone',
+        { timezone: 'Asia/Jakarta' },
+      );
+    });
+
+    it('should include Feb 29 around Feb 29 of common years', async () => {
+      const queryBuilder = createQueryBuilderMock();
+      mockOccasionRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findYearlyOn('birthday', ['2025-02-28', '2025-03-01']);
+
+      expect(captureMonthDays(queryBuilder)).toEqual([
+        [2, 28],
+        [2, 29],
+        [3, 1],
+      ]);
+    });
+  });
+});
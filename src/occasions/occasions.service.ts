@@ -0,0 +1,289 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, EntityManager, Repository } from 'typeorm';
+import * as moment from 'moment-timezone';
+import { Occasion, OccasionRecurrence } from './entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  CreateOccasionDto,
+  UpdateOccasionDto,
+} from './dto/create-occasion.dto';
+import {
+  PROFILE_OCCASION_KINDS,
+  buildProfileOccasions,
+  toOccasionDate,
+} from './profile-occasions';
+import { LocalDate, getMonthDay } from '../common/local-date';
+
+@Injectable()
+export class OccasionsService {
+  private readonly logger = new Logger(OccasionsService.name);
+
+  constructor(
+    @InjectRepository(Occasion)
+    private readonly occasionRepository: Repository<Occasion>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * Find all occasions of a user
+   */
+  async findAllForUser(userId: string): Promise<Occasion[]> {
+    await this.ensureUserExists(userId);
+    return this.occasionRepository.find({
+      where: { userId },
+      order: { month: 'ASC', day: 'ASC' },
+    });
+  }
+
+  /**
+   * Find an occasion of a user by ID
+   */
+  async findOne(userId: string, occasionId: string): Promise<Occasion> {
+    const occasion = await this.occasionRepository.findOne({
+      where: { id: occasionId, userId },
+    });
+    if (!occasion) {
+      throw new NotFoundException(`Occasion with ID ${occasionId} not found`);
+    }
+    return occasion;
+  }
+
+  /**
+   * Create a user-defined occasion
+   */
+  async create(
+    userId: string,
+    createOccasionDto: CreateOccasionDto,
+  ): Promise<Occasion> {
+    await this.ensureUserExists(userId);
+    this.assertNotProfileKind(createOccasionDto.kind);
+
+    const occasion = this.occasionRepository.create({
+      ...createOccasionDto,
+      ...toOccasionDate(createOccasionDto.date),
+      userId,
+      managed: false,
+    });
+
+    const savedOccasion = await this.occasionRepository.save(occasion);
+    this.logger.log(
+      `Created ${savedOccasion.kind} occasion ${savedOccasion.id} for user ${userId}`,
+    );
+
+    return savedOccasion;
+  }
+
+  /**
+   * Update an occasion
+   * Occasions derived from the user profile only allow changing the template
+   */
+  async update(
+    userId: string,
+    occasionId: string,
+    updateOccasionDto: UpdateOccasionDto,
+  ): Promise<Occasion> {
+    const occasion = await this.findOne(userId, occasionId);
+
+    if (occasion.managed) {
+      const { template, ...profileFields } = updateOccasionDto;
+      if (Object.values(profileFields).some((value) => value !== undefined)) {
+        throw new BadRequestException(
+          `Only the template of the ${occasion.kind} occasion can be changed; update the user instead`,
+        );
+      }
+      occasion.template = template ?? occasion.template;
+    } else {
+      if (updateOccasionDto.kind) {
+        this.assertNotProfileKind(updateOccasionDto.kind);
+      }
+      Object.assign(occasion, updateOccasionDto);
+      if (updateOccasionDto.date) {
+        Object.assign(occasion, toOccasionDate(updateOccasionDto.date));
+      }
+    }
+
+    const updatedOccasion = await this.occasionRepository.save(occasion);
+    this.logger.log(`Updated occasion: ${updatedOccasion.id}`);
+
+    return updatedOccasion;
+  }
+
+  /**
+   * Remove a user-defined occasion
+   */
+  async remove(userId: string, occasionId: string): Promise<void> {
+    const occasion = await this.findOne(userId, occasionId);
+
+    if (occasion.managed) {
+      throw new BadRequestException(
+        `The ${occasion.kind} occasion is derived from the user profile and cannot be deleted`,
+      );
+    }
+
+    await this.occasionRepository.remove(occasion);
+    this.logger.log(`Deleted occasion: ${occasionId}`);
+  }
+
+  /**
+   * Keep the occasions derived from the user profile in sync with the user
+   * Custom templates on existing profile occasions are preserved
+   * @param manager Entity manager of an enclosing transaction, if any
+   */
+  async syncProfileOccasions(
+    user: User,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const occasionRepository =
+      manager?.getRepository(Occasion) ?? this.occasionRepository;
+    const existing = await occasionRepository.find({
+      where: { userId: user.id, managed: true },
+    });
+    const desired = buildProfileOccasions(user);
+
+    for (const fields of desired) {
+      const current = existing.find(
+        (occasion) => occasion.kind === fields.kind,
+      );
+      await occasionRepository.save(
+        current
+          ? Object.assign(current, fields)
+          : occasionRepository.create(fields),
+      );
+    }
+
+    const stale = existing.filter(
+      (occasion) => !desired.some((fields) => fields.kind === occasion.kind),
+    );
+    if (stale.length > 0) {
+      await occasionRepository.remove(stale);
+    }
+  }
+
+  /**
+   * Find occasions falling on a local calendar date, with their users
+   * This is used by the message planner to materialize upcoming messages
+   */
+  async findDueOn(date: string): Promise<Occasion[]> {
+    const localDate = moment.utc(date);
+    const month = localDate.month() + 1; // moment months are 0-indexed
+    const day = localDate.date();
+
+    // Monthly occasions on e.g. the 31st fall on the last day of shorter months
+    const lastDayOfMonth = localDate.daysInMonth();
+    const monthlyDays =
+      day === lastDayOfMonth ? [day, ...this.range(day + 1, 31)] : [day];
+
+    // Feb 29 occasions are candidates on Feb 28 and Mar 1 of common years,
+    // the caller applies the leap-day policy to decide where they are observed
+    const leapDayCandidates =
+      !localDate.isLeapYear() &&
+      ((month === 2 && day === 28) || (month === 3 && day === 1));
+
+    return this.occasionRepository
+      .createQueryBuilder('occasion')
+      .innerJoinAndSelect('occasion.user', 'user')
+      .where(
+        new Brackets((qb) => {
+          qb.where(
+            '(occasion.recurrence = :yearly AND occasion.month = :month AND occasion.day = :day AND occasion.date < :date)',
+            { yearly: OccasionRecurrence.YEARLY, month, day, date },
+          )
+            .orWhere(
+              '(occasion.recurrence = :monthly AND occasion.day IN (:...monthlyDays) AND occasion.date < :date)',
+              { monthly: OccasionRecurrence.MONTHLY, monthlyDays },
+            )
+            .orWhere(
+              '(occasion.recurrence = :oneOff AND occasion.date = :date)',
+              { oneOff: OccasionRecurrence.ONE_OFF },
+            );
+
+          if (leapDayCandidates) {
+            qb.orWhere(
+              '(occasion.recurrence = :yearly AND occasion.month = 2 AND occasion.day = 29 AND occasion.date < :date)',
+            );
+          }
+        }),
+      )
+      .getMany();
+  }
+
+  /**
+   * Find yearly occasions of a kind that can be observed on any of the local
+   * dates, with their users; Feb 29 occasions are included as candidates around
+   * Feb 29 of common years, the caller applies the leap-day policy
+   * @param timezone Only include users in this timezone
+   */
+  async findYearlyOn(
+    kind: string,
+    dates: LocalDate[],
+    timezone?: string,
+  ): Promise<Occasion[]> {
+    const monthDays = new Map<string, { month: number; day: number }>();
+    for (const date of dates) {
+      const { month, day } = getMonthDay(date);
+      monthDays.set(`${month}-${day}`, { month, day });
+
+      const isCommonYear = !moment.utc(date).isLeapYear();
+      if (isCommonYear && ['02-28', '03-01'].includes(date.slice(5))) {
+        monthDays.set('2-29', { month: 2, day: 29 });
+      }
+    }
+
+    if (monthDays.size === 0) {
+      return [];
+    }
+
+    const query = this.occasionRepository
+      .createQueryBuilder('occasion')
+      .innerJoinAndSelect('occasion.user', 'user')
+      .where('occasion.kind = :kind', { kind })
+      .andWhere('occasion.recurrence = :yearly', {
+        yearly: OccasionRecurrence.YEARLY,
+      })
+      .andWhere(
+        new Brackets((qb) => {
+          [...monthDays.values()].forEach(({ month, day }, i) => {
+            qb.orWhere(
+              `(occasion.month = :month${i} AND occasion.day = :day${i})`,
+              { [`month${i}`]: month, [`day${i}`]: day },
+            );
+          });
+        }),
+      );
+
+    if (timezone) {
+      query.andWhere('user.timezone = :timezone', { timezone });
+    }
+
+    return query.getMany();
+  }
+
+  private async ensureUserExists(userId: string): Promise<void> {
+    const exists = await this.userRepository.exists({ where: { id: userId } });
+    if (!exists) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+  }
+
+  private assertNotProfileKind(kind: string): void {
+    if (PROFILE_OCCASION_KINDS.includes(kind)) {
+      throw new BadRequestException(
+        `Occasion kind '${kind}' is managed from the user profile`,
+      );
+    }
+  }
+
+  private range(from: number, to: number): number[] {
+    return Array.from(
+      { length: Math.max(0, to - from + 1) },
+      (_, i) => from + i,
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { Occasion, OccasionRecurrence } from './entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+import { MessageType } from '../messages/message-type.enum';
+import { LocalDate, getMonthDay } from '../common/local-date';
+
+/**
+ * Occasion kinds derived from the user profile rather than managed via the API
+ */
+export const PROFILE_OCCASION_KINDS: string[] = [
+  MessageType.BIRTHDAY,
+  MessageType.ANNIVERSARY,
+];
+
+/**
+ * Split a calendar date into the columns stored on an occasion
+ */
+export function toOccasionDate(
+  date: LocalDate,
+): Pick<Occasion, 'date' | 'month' | 'day'> {
+  return { date, ...getMonthDay(date) };
+}
+
+/**
+ * Build the occasions derived from a user's birthday and start date
+ */
+export function buildProfileOccasions(user: User): Partial<Occasion>[] {
+  const occasions: Partial<Occasion>[] = [
+    {
+      userId: user.id,
+      kind: MessageType.BIRTHDAY,
+      recurrence: OccasionRecurrence.YEARLY,
+      managed: true,
+      ...toOccasionDate(user.birthday),
+    },
+  ];
+
+  if (user.startDate) {
+    occasions.push({
+      userId: user.id,
+      kind: MessageType.ANNIVERSARY,
+      recurrence: OccasionRecurrence.YEARLY,
+      managed: true,
+      ...toOccasionDate(user.startDate),
+    });
+  }
+
+  return occasions;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { BirthdayMessage } from '../../birthday/entities/birthday-message.entity';
+import type { BirthdayMessagePayload } from '../../queue/message-payload';
+
+@Entity('message_outbox')
+// Only undispatched entries are scanned by the relay
+@Index('IDX_message_outbox_pending', ['createdAt'], {
+  where: '"dispatched_at" IS NULL',
+})
+export class OutboxEntry {
+  @PrimaryGeneratedColumn('uuid', {
+    primaryKeyConstraintName: 'PK_message_outbox',
+  })
+  id: string;
+
+  @Column({ name: 'message_id', type: 'uuid' })
+  messageId: string;
+
+  @ManyToOne(() => BirthdayMessage, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'message_id',
+    foreignKeyConstraintName: 'FK_message_outbox_message',
+  })
+  message: BirthdayMessage;
+
+  @Column({ type: 'jsonb' })
+  payload: BirthdayMessagePayload; // Published as is onto the birthday queue
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number; // Failed publish attempts
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @Column({
+    name: 'dispatched_at',
+    type: 'timestamp with time zone',
+    nullable: true,
+  })
+  dispatchedAt: Date | null; // When the broker confirmed the message
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OutboxService } from './outbox.service';
+import { OutboxEntry } from './entities/outbox-entry.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboxEntry])],
+  providers: [OutboxService],
+  exports: [OutboxService],
+})
+export class OutboxModule {}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, LessThan, Repository } from 'typeorm';
+import { OutboxEntry } from './entities/outbox-entry.entity';
+import { BirthdayMessagePayload } from '../queue/message-payload';
+
+@Injectable()
+export class OutboxService {
+  constructor(
+    @InjectRepository(OutboxEntry)
+    private readonly outboxRepository: Repository<OutboxEntry>,
+  ) {}
+
+  /**
+   * Record messages to publish
+   * Pass the entity manager of a transaction to write them atomically with
+   * the state change they belong to
+   */
+  async add(
+    payloads: BirthdayMessagePayload[],
+    manager: EntityManager = this.outboxRepository.manager,
+  ): Promise<void> {
+    if (payloads.length === 0) {
+      return;
+    }
+
+    await manager.insert(
+      OutboxEntry,
+      payloads.map((payload) => ({ messageId: payload.messageId, payload })),
+    );
+  }
+
+  /**
+   * Oldest entries that still have to be published
+   */
+  async findPending(limit: number): Promise<OutboxEntry[]> {
+    return this.outboxRepository.find({
+      where: { dispatchedAt: IsNull() },
+      order: { createdAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Mark an entry as published once the broker confirmed it
+   */
+  async markDispatched(entryId: string): Promise<void> {
+    await this.outboxRepository.update(entryId, { dispatchedAt: new Date() });
+  }
+
+  /**
+   * Record a failed publish; the entry is retried on the next relay run
+   */
+  async recordFailure(entryId: string, error: string): Promise<void> {
+    await this.outboxRepository.increment({ id: entryId }, 'attempts', 1);
+    await this.outboxRepository.update(entryId, { lastError: error });
+  }
+
+  /**
+   * Delete entries dispatched before the given instant
+   * @returns the number of deleted entries
+   */
+  async removeDispatched(before: Date): Promise<number> {
+    // Undispatched entries never match since NULL is not less than anything
+    const result = await this.outboxRepository.delete({
+      dispatchedAt: LessThan(before),
+    });
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,227 @@
+import type * as amqp from 'amqplib';
+import {
+  AmqpMessageQueue,
+  BIRTHDAY_POISON_QUEUE,
+  BIRTHDAY_QUEUE,
+  getRetryQueue,
+} from './amqp-message-queue';
+import { RETRY_DELAYS } from './birthday-producer.service';
+import { QueueDelivery } from './message-queue';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
+
+describe('AmqpMessageQueue', () => {
+  let queue: AmqpMessageQueue;
+  let deliver: (msg: amqp.ConsumeMessage) => void;
+  let setups: Record<string, (channel: amqp.Channel) => Promise<void>>;
+
+  const rawChannel = {
+    prefetch: jest.fn(),
+    assertQueue: jest.fn(),
+  };
+
+  const channel = {
+    consume: jest.fn(
+      (queue: string, onMessage: (msg: amqp.ConsumeMessage) => void) => {
+        deliver = onMessage;
+        return Promise.resolve({ consumerTag: 'consumer-1' });
+      },
+    ),
+    cancel: jest.fn(),
+    sendToQueue: jest.fn(),
+    ack: jest.fn(),
+    nack: jest.fn(),
+    close: jest.fn(),
+  };
+
+  const rabbitMq = {
+    createChannel: jest.fn(
+      (name: string, setup: (channel: amqp.Channel) => Promise<void>) => {
+        setups[name] = setup;
+        return channel;
+      },
+    ),
+  };
+
+  const payload = {
+    schemaVersion: 2,
+    messageId: '123e4567-e89b-12d3-a456-426614174001',
+    userId: '123e4567-e89b-12d3-a456-426614174000',
+    email: 'john@example.com',
+    fullName: 'John Doe',
+    messageType: 'birthday',
+    correlationId: 'correlation-1',
+  };
+
+  const message = (headers?: Record<string, unknown>): amqp.ConsumeMessage =>
+    ({
+      content: Buffer.from(JSON.stringify(payload)),
+      properties: { headers },
+    }) as unknown as amqp.ConsumeMessage;
+
+  // Deliveries are handled asynchronously from the consume callback
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  const receive = async (msg: amqp.ConsumeMessage): Promise<QueueDelivery> => {
+    let received: QueueDelivery | undefined;
+    await queue.consume((delivery) => {
+      received = delivery;
+      return Promise.resolve();
+    });
+    deliver(msg);
+    await settle();
+    return received as QueueDelivery;
+  };
+
+  beforeEach(() => {
+    setups = {};
+    queue = new AmqpMessageQueue(rabbitMq as unknown as RabbitMqService, 5);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish persistent messages onto the birthday queue', async () => {
+    await queue.publish(payload);
+
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      BIRTHDAY_QUEUE,
+      Buffer.from(JSON.stringify(payload)),
+      {
+        persistent: true,
+        messageId: payload.messageId,
+        correlationId: payload.correlationId,
+      },
+    );
+  });
+
+  it('should declare a retry queue per delay that dead-letters back to the main queue', async () => {
+    await setups['birthday-producer'](rawChannel as unknown as amqp.Channel);
+
+    for (const delay of RETRY_DELAYS) {
+      expect(rawChannel.assertQueue).toHaveBeenCalledWith(
+        getRetryQueue(delay),
+        {
+          durable: true,
+          arguments: {
+            'x-message-ttl': delay,
+            'x-dead-letter-exchange': '',
+            'x-dead-letter-routing-key': BIRTHDAY_QUEUE,
+          },
+        },
+      );
+    }
+  });
+
+  it('should consume as many messages in parallel as configured', async () => {
+    await queue.consume(() => Promise.resolve());
+    await setups['birthday-consumer'](rawChannel as unknown as amqp.Channel);
+
+    expect(rawChannel.prefetch).toHaveBeenCalledWith(5);
+  });
+
+  it('should read the attempts recorded in the message headers', async () => {
+    const delivery = await receive(message({ 'x-attempts': 2 }));
+
+    expect(delivery.payload).toEqual(payload);
+    expect(delivery.attempts).toBe(2);
+  });
+
+  it('should move invalid payloads to the poison queue without handling them', async () => {
+    const handler = jest.fn();
+    await queue.consume(handler);
+    const msg = {
+      content: Buffer.from('{"messageId":'),
+      properties: { headers: { 'x-attempts': 1 } },
+    } as unknown as amqp.ConsumeMessage;
+
+    deliver(msg);
+    await settle();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      BIRTHDAY_POISON_QUEUE,
+      msg.content,
+      {
+        persistent: true,
+        headers: {
+          'x-attempts': 1,
+          'x-poison-reason': 'Payload is not valid JSON',
+        },
+      },
+    );
+    expect(channel.ack).toHaveBeenCalledWith(msg);
+  });
+
+  it('should park retries in the queue of their delay with one more attempt', async () => {
+    const msg = message({ 'x-attempts': 1 });
+    const delivery = await receive(msg);
+
+    await delivery.retry(RETRY_DELAYS[1]);
+
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      getRetryQueue(RETRY_DELAYS[1]),
+      msg.content,
+      {
+        persistent: true,
+        messageId: payload.messageId,
+        correlationId: payload.correlationId,
+        headers: { 'x-attempts': 2 },
+      },
+    );
+    expect(channel.ack).toHaveBeenCalledWith(msg);
+  });
+
+  it('should park postponed messages without counting an attempt', async () => {
+    const msg = message({ 'x-attempts': 1 });
+    const delivery = await receive(msg);
+
+    await delivery.postpone(RETRY_DELAYS[0]);
+
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      getRetryQueue(RETRY_DELAYS[0]),
+      msg.content,
+      {
+        persistent: true,
+        messageId: payload.messageId,
+        correlationId: payload.correlationId,
+        headers: { 'x-attempts': 1 },
+      },
+    );
+    expect(channel.ack).toHaveBeenCalledWith(msg);
+  });
+
+  it('should reject dead letters without requeueing them', async () => {
+    const msg = message();
+    const delivery = await receive(msg);
+
+    await delivery.deadLetter();
+
+    expect(channel.nack).toHaveBeenCalledWith(msg, false, false);
+  });
+
+  it('should let deliveries being handled finish when stopping', async () => {
+    let finish: () => void = () => undefined;
+    await queue.consume(
+      () =>
+        new Promise((resolve) => {
+          finish = resolve;
+        }),
+    );
+    deliver(message());
+
+    let stopped = false;
+    const stopping = queue.stopConsuming().then(() => {
+      stopped = true;
+    });
+    await settle();
+
+    expect(channel.cancel).toHaveBeenCalledWith('consumer-1');
+    expect(stopped).toBe(false);
+
+    finish();
+    await stopping;
+
+    expect(stopped).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import type { ChannelWrapper } from 'amqp-connection-manager';
+import type * as amqp from 'amqplib';
+import { RETRY_DELAYS } from './birthday-producer.service';
+import {
+  BirthdayMessagePayload,
+  parseBirthdayMessagePayload,
+} from './message-payload';
+import { DeliveryHandler, MessageQueue, QueueDelivery } from './message-queue';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
+
+export const BIRTHDAY_QUEUE = 'birthday-messages';
+export const BIRTHDAY_DLQ = 'birthday-messages-dlq';
+export const BIRTHDAY_POISON_QUEUE = 'birthday-messages-poison';
+
+/**
+ * Header carrying the number of failed delivery attempts of a queued message
+ */
+export const ATTEMPTS_HEADER = 'x-attempts';
+
+/**
+ * Header carrying why a message was moved to the poison queue
+ */
+export const POISON_REASON_HEADER = 'x-poison-reason';
+
+export function getRetryQueue(delay: number): string {
+  return `${BIRTHDAY_QUEUE}-retry-${delay}ms`;
+}
+
+/**
+ * Declare the birthday queue with its dead letter, poison and retry queues
+ */
+export async function assertBirthdayQueues(
+  channel: amqp.Channel,
+): Promise<void> {
+  // Declare dead letter queue
+  await channel.assertQueue(BIRTHDAY_DLQ, {
+    durable: true,
+  });
+
+  // Declare queue for payloads that failed validation
+  await channel.assertQueue(BIRTHDAY_POISON_QUEUE, {
+    durable: true,
+  });
+
+  // Declare main queue with dead letter exchange
+  await channel.assertQueue(BIRTHDAY_QUEUE, {
+    durable: true,
+    arguments: {
+      'x-dead-letter-exchange': '',
+      'x-dead-letter-routing-key': BIRTHDAY_DLQ,
+    },
+  });
+
+  // Expired retries go back onto the main queue
+  for (const delay of RETRY_DELAYS) {
+    await channel.assertQueue(getRetryQueue(delay), {
+      durable: true,
+      arguments: {
+        'x-message-ttl': delay,
+        'x-dead-letter-exchange': '',
+        'x-dead-letter-routing-key': BIRTHDAY_QUEUE,
+      },
+    });
+  }
+}
+
+/**
+ * Birthday queue on RabbitMQ
+ * A retried message is acknowledged and parked in the retry queue of its
+ * delay, whose TTL dead-letters it back onto the birthday queue, so backoff
+ * survives restarts and never blocks the consumer. Payloads that fail
+ * validation go straight to the poison queue, since retrying cannot fix them
+ */
+export class AmqpMessageQueue implements MessageQueue, OnModuleDestroy {
+  private readonly logger = new Logger(AmqpMessageQueue.name);
+  private readonly publisher: ChannelWrapper;
+  private consumer: ChannelWrapper | null = null;
+  private consumerTag: string | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  constructor(
+    private readonly rabbitMq: RabbitMqService,
+    private readonly concurrency: number,
+  ) {
+    this.publisher = this.rabbitMq.createChannel(
+      'birthday-producer',
+      assertBirthdayQueues,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.stopConsuming();
+    await Promise.all([this.publisher.close(), this.consumer?.close()]);
+  }
+
+  async publish(payload: BirthdayMessagePayload): Promise<void> {
+    // Resolves once the broker confirmed the message; rejects after a timeout
+    // while RabbitMQ is unreachable
+    await this.publisher.sendToQueue(
+      BIRTHDAY_QUEUE,
+      Buffer.from(JSON.stringify(payload)),
+      {
+        persistent: true,
+        messageId: payload.messageId,
+        correlationId: payload.correlationId,
+      },
+    );
+  }
+
+  async consume(handler: DeliveryHandler): Promise<void> {
+    const consumer = this.rabbitMq.createChannel(
+      'birthday-consumer',
+      async (channel) => {
+        // The prefetch count bounds how many messages are handled in parallel
+        await channel.prefetch(this.concurrency);
+        await assertBirthdayQueues(channel);
+      },
+    );
+    this.consumer = consumer;
+
+    // Registered consumers are restored automatically after a reconnect
+    const { consumerTag } = await consumer.consume(BIRTHDAY_QUEUE, (msg) => {
+      if (!msg) return;
+
+      const delivery = this.deliver(consumer, msg, handler)
+        .catch((error: Error) => {
+          this.logger.error(`Unhandled delivery failure: ${error.message}`);
+        })
+        .finally(() => this.inFlight.delete(delivery));
+      this.inFlight.add(delivery);
+    });
+    this.consumerTag = consumerTag;
+  }
+
+  async stopConsuming(): Promise<void> {
+    if (this.consumer && this.consumerTag) {
+      const consumerTag = this.consumerTag;
+      this.consumerTag = null;
+      await this.consumer.cancel(consumerTag);
+    }
+
+    await Promise.allSettled(this.inFlight);
+  }
+
+  private async deliver(
+    channel: ChannelWrapper,
+    msg: amqp.ConsumeMessage,
+    handler: DeliveryHandler,
+  ): Promise<void> {
+    let payload: BirthdayMessagePayload;
+    try {
+      payload = parseBirthdayMessagePayload(msg.content.toString());
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(
+        `Moving invalid message ${msg.properties.messageId} to ${BIRTHDAY_POISON_QUEUE}: ${reason}`,
+      );
+
+      // Left unacknowledged, and redelivered later, if this publish fails
+      await channel.sendToQueue(BIRTHDAY_POISON_QUEUE, msg.content, {
+        persistent: true,
+        headers: { ...msg.properties.headers, [POISON_REASON_HEADER]: reason },
+      });
+      channel.ack(msg);
+      return;
+    }
+
+    await handler(this.createDelivery(channel, msg, payload));
+  }
+
+  private createDelivery(
+    channel: ChannelWrapper,
+    msg: amqp.ConsumeMessage,
+    payload: BirthdayMessagePayload,
+  ): QueueDelivery {
+    const attempts = getAttempts(msg);
+    const redeliverAfter = async (delay: number, nextAttempts: number) => {
+      await channel.sendToQueue(getRetryQueue(delay), msg.content, {
+        persistent: true,
+        messageId: payload.messageId,
+        correlationId: payload.correlationId,
+        headers: {
+          ...msg.properties.headers,
+          [ATTEMPTS_HEADER]: nextAttempts,
+        },
+      });
+      channel.ack(msg);
+    };
+
+    return {
+      payload,
+      attempts,
+      ack: () => {
+        channel.ack(msg);
+        return Promise.resolve();
+      },
+      retry: (delay) => redeliverAfter(delay, attempts + 1),
+      postpone: (delay) => redeliverAfter(delay, attempts),
+      deadLetter: () => {
+        channel.nack(msg, false, false); // requeue: false -> goes to DLQ
+        return Promise.resolve();
+      },
+    };
+  }
+}
+
+/**
+ * Number of failed attempts recorded on a delivered message
+ */
+function getAttempts(msg: amqp.ConsumeMessage): number {
+  const attempts = Number(msg.properties.headers?.[ATTEMPTS_HEADER]);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : 0;
+}
@@ -0,0 +1,241 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BirthdayConsumerService } from './birthday-consumer.service';
+import { RETRY_DELAYS } from './birthday-producer.service';
+import { DeliveryHandler, MESSAGE_QUEUE, QueueDelivery } from './message-queue';
+import { BirthdayService } from '../birthday/birthday.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  DeliveryResult,
+  DeliveryStatus,
+} from '../notifications/notification-channel';
+import { LockService } from '../redis/lock.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+  MessageType,
+} from '../birthday/entities/birthday-message.entity';
+
+describe('BirthdayConsumerService', () => {
+  let service: BirthdayConsumerService;
+  let birthdayService: jest.Mocked<BirthdayService>;
+  let notificationsService: jest.Mocked<NotificationsService>;
+  let lockService: jest.Mocked<LockService>;
+  let handle: DeliveryHandler;
+
+  const messageQueue = {
+    publish: jest.fn(),
+    consume: jest.fn((handler: DeliveryHandler) => {
+      handle = handler;
+      return Promise.resolve();
+    }),
+    stopConsuming: jest.fn(),
+  };
+
+  const message = {
+    id: 'message-123',
+    userId: 'user-123',
+    messageType: MessageType.BIRTHDAY,
+    status: MessageStatus.QUEUED,
+    attempts: 0,
+    expiresAt: null,
+    occasion: null,
+  } as BirthdayMessage;
+
+  const sent: DeliveryResult = {
+    deliveries: {
+      email: {
+        status: DeliveryStatus.SENT,
+        attempts: 1,
+        lastError: null,
+        sentAt: '2024-05-15T02:00:00.000Z',
+      },
+    },
+    templateId: 'template-123',
+    templateVersion: 2,
+  };
+
+  const failed: DeliveryResult = {
+    deliveries: {
+      email: {
+        status: DeliveryStatus.FAILED,
+        attempts: 1,
+        lastError: 'Timeout',
+        sentAt: null,
+      },
+    },
+    templateId: null,
+    templateVersion: null,
+  };
+
+  const delivery = (attempts = 0): jest.Mocked<QueueDelivery> => ({
+    payload: {
+      schemaVersion: 2,
+      messageId: message.id,
+      userId: message.userId,
+      email: 'john@example.com',
+      fullName: 'John Doe',
+      messageType: MessageType.BIRTHDAY,
+      correlationId: 'correlation-1',
+    },
+    attempts,
+    ack: jest.fn(),
+    retry: jest.fn(),
+    postpone: jest.fn(),
+    deadLetter: jest.fn(),
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BirthdayConsumerService,
+        {
+          provide: BirthdayService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(message),
+            recordDeliveries: jest.fn(),
+            markAsSent: jest.fn(),
+            markAsFailed: jest.fn(),
+            markAsExpired: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: { deliver: jest.fn().mockResolvedValue(sent) },
+        },
+        {
+          provide: LockService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn(),
+          },
+        },
+        {
+          provide: MESSAGE_QUEUE,
+          useValue: messageQueue,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BirthdayConsumerService>(BirthdayConsumerService);
+    birthdayService = module.get(BirthdayService);
+    notificationsService = module.get(NotificationsService);
+    lockService = module.get(LockService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stop consuming when shutting down', async () => {
+    await service.onModuleDestroy();
+
+    expect(messageQueue.stopConsuming).toHaveBeenCalled();
+  });
+
+  it('should send the message and acknowledge it', async () => {
+    const msg = delivery();
+
+    await handle(msg);
+
+    expect(notificationsService.deliver).toHaveBeenCalledWith(message);
+    expect(birthdayService.recordDeliveries).toHaveBeenCalledWith(
+      message.id,
+      sent,
+    );
+    expect(birthdayService.markAsSent).toHaveBeenCalledWith(message.id);
+    expect(msg.ack).toHaveBeenCalled();
+  });
+
+  it('should retry a failed message after its first delay', async () => {
+    notificationsService.deliver.mockResolvedValue(failed);
+    const msg = delivery();
+
+    await handle(msg);
+
+    expect(birthdayService.recordDeliveries).toHaveBeenCalledWith(
+      message.id,
+      failed,
+    );
+    expect(birthdayService.markAsFailed).toHaveBeenCalledWith(
+      message.id,
+      'email: Timeout',
+    );
+    expect(birthdayService.markAsSent).not.toHaveBeenCalled();
+    expect(msg.retry).toHaveBeenCalledWith(RETRY_DELAYS[0]);
+    expect(msg.ack).not.toHaveBeenCalled();
+    expect(msg.deadLetter).not.toHaveBeenCalled();
+  });
+
+  it('should fail a message no channel delivered', async () => {
+    notificationsService.deliver.mockResolvedValue({
+      deliveries: {
+        sms: {
+          status: DeliveryStatus.SKIPPED,
+          attempts: 0,
+          lastError: 'The sms channel is not configured',
+          sentAt: null,
+        },
+      },
+      templateId: null,
+      templateVersion: null,
+    });
+    const msg = delivery();
+
+    await handle(msg);
+
+    expect(birthdayService.markAsFailed).toHaveBeenCalledWith(
+      message.id,
+      'No channel could deliver the message: sms: The sms channel is not configured',
+    );
+    expect(birthdayService.markAsSent).not.toHaveBeenCalled();
+    expect(msg.retry).toHaveBeenCalledWith(RETRY_DELAYS[0]);
+  });
+
+  it('should back off longer with every recorded attempt', async () => {
+    notificationsService.deliver.mockResolvedValue(failed);
+    const msg = delivery(2);
+
+    await handle(msg);
+
+    expect(msg.retry).toHaveBeenCalledWith(RETRY_DELAYS[2]);
+  });
+
+  it('should dead-letter the message on its last attempt', async () => {
+    notificationsService.deliver.mockResolvedValue(failed);
+    const msg = delivery(4);
+
+    await handle(msg);
+
+    expect(birthdayService.markAsFailed).toHaveBeenCalled();
+    expect(msg.deadLetter).toHaveBeenCalled();
+    expect(msg.retry).not.toHaveBeenCalled();
+    expect(msg.ack).not.toHaveBeenCalled();
+  });
+
+  it('should postpone a copy held by another worker without failing the message', async () => {
+    lockService.acquireLock.mockResolvedValueOnce(false);
+    const msg = delivery(2);
+
+    await handle(msg);
+
+    expect(notificationsService.deliver).not.toHaveBeenCalled();
+    expect(birthdayService.markAsFailed).not.toHaveBeenCalled();
+    expect(msg.postpone).toHaveBeenCalledWith(RETRY_DELAYS[0]);
+    expect(msg.retry).not.toHaveBeenCalled();
+    expect(msg.ack).not.toHaveBeenCalled();
+  });
+
+  it('should skip cancelled messages', async () => {
+    birthdayService.findById.mockResolvedValue({
+      ...message,
+      status: MessageStatus.CANCELLED,
+    } as BirthdayMessage);
+    const msg = delivery();
+
+    await handle(msg);
+
+    expect(notificationsService.deliver).not.toHaveBeenCalled();
+    expect(msg.ack).toHaveBeenCalled();
+  });
+});
@@ -1,140 +1,89 @@
 import {
+  Inject,
   Injectable,
   Logger,
   OnModuleInit,
   OnModuleDestroy,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as amqp from 'amqplib';
+import { RETRY_DELAYS } from './birthday-producer.service';
+import { BirthdayMessagePayload } from './message-payload';
+import { MESSAGE_QUEUE, QueueDelivery } from './message-queue';
+import type { MessageQueue } from './message-queue';
 import {
-  BirthdayMessagePayload,
-  BIRTHDAY_QUEUE,
-  BIRTHDAY_DLQ,
-} from './birthday-producer.service';
-import { BirthdayService } from '../birthday/birthday.service';
-import { EmailService } from '../email/email.service';
+  BirthdayService,
+  MAX_RETRY_ATTEMPTS,
+} from '../birthday/birthday.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { DeliveryStatus } from '../notifications/notification-channel';
 import { LockService } from '../redis/lock.service';
 import { MessageStatus } from '../birthday/entities/birthday-message.entity';
 
-const MAX_RETRY_ATTEMPTS = 5;
-const RETRY_DELAYS = [1000, 5000, 15000, 60000, 300000]; // Exponential backoff
-
 @Injectable()
 export class BirthdayConsumerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(BirthdayConsumerService.name);
-  private connection: amqp.ChannelModel | null = null;
-  private channel: amqp.Channel | null = null;
 
   constructor(
-    private readonly configService: ConfigService,
     private readonly birthdayService: BirthdayService,
-    private readonly emailService: EmailService,
+    private readonly notificationsService: NotificationsService,
     private readonly lockService: LockService,
+    @Inject(MESSAGE_QUEUE) private readonly messageQueue: MessageQueue,
   ) {}
 
   async onModuleInit(): Promise<void> {
-    await this.connect();
-    await this.startConsuming();
+    await this.messageQueue.consume((delivery) =>
+      this.handleDelivery(delivery),
+    );
+    this.logger.log('Started consuming birthday messages');
   }
 
+  /**
+   * Let the messages being sent settle before shutting down
+   */
   async onModuleDestroy(): Promise<void> {
-    await this.disconnect();
+    await this.messageQueue.stopConsuming();
   }
 
-  private async connect(): Promise<void> {
-    try {
-      const url =
-        this.configService.get<string>('rabbitmq.url') || 'amqp://localhost';
-      this.connection = await amqp.connect(url);
-      this.channel = await this.connection.createChannel();
-
-      // Set prefetch to process one message at a time
-      await this.channel.prefetch(1);
-
-      // Ensure dead letter queue exists
-      await this.channel.assertQueue(BIRTHDAY_DLQ, {
-        durable: true,
-      });
-
-      // Ensure main queue exists with dead letter exchange
-      await this.channel.assertQueue(BIRTHDAY_QUEUE, {
-        durable: true,
-        arguments: {
-          'x-dead-letter-exchange': '',
-          'x-dead-letter-routing-key': BIRTHDAY_DLQ,
-        },
+  private async handleDelivery(delivery: QueueDelivery): Promise<void> {
+    const { payload } = delivery;
+    this.logger.log(
+      `Received birthday message: ${payload.messageId} (correlation ${payload.correlationId})`,
+    );
+
+    await this.processMessage(payload)
+      .then((processed) =>
+        // Another worker holds the message, e.g. a duplicate copy or an admin
+        // action; this copy comes back later without using up an attempt
+        processed ? delivery.ack() : delivery.postpone(RETRY_DELAYS[0]),
+      )
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to process message ${payload.messageId}: ${error.message}`,
+        );
+        return this.handleFailure(delivery, error);
+      })
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to handle failure of message ${payload.messageId}: ${error.message}`,
+        );
       });
-
-      this.logger.log('Consumer connected to RabbitMQ');
-    } catch (error) {
-      this.logger.error(
-        `Failed to connect to RabbitMQ: ${(error as Error).message}`,
-      );
-      void setTimeout(() => {
-        void this.connect();
-      }, 5000);
-    }
-  }
-
-  private async disconnect(): Promise<void> {
-    try {
-      if (this.channel) {
-        await this.channel.close();
-      }
-      if (this.connection) {
-        await this.connection.close();
-      }
-      this.logger.log('Consumer disconnected from RabbitMQ');
-    } catch (error) {
-      this.logger.error(`Error disconnecting: ${(error as Error).message}`);
-    }
-  }
-
-  /**
-   * Start consuming messages from the birthday queue
-   */
-  private async startConsuming(): Promise<void> {
-    if (!this.channel) {
-      this.logger.error('Channel not initialized, cannot start consuming');
-      return;
-    }
-
-    await this.channel.consume(BIRTHDAY_QUEUE, (msg) => {
-      if (!msg) return;
-
-      const payload = JSON.parse(
-        msg.content.toString(),
-      ) as BirthdayMessagePayload;
-      this.logger.log(`Received birthday message: ${payload.messageId}`);
-
-      this.processMessage(payload)
-        .then(() => {
-          this.channel!.ack(msg);
-        })
-        .catch((error: Error) => {
-          this.logger.error(
-            `Failed to process message ${payload.messageId}: ${error.message}`,
-          );
-          void this.handleFailure(msg, payload, error);
-        });
-    });
-
-    this.logger.log('Started consuming birthday messages');
   }
 
   /**
    * Process a single birthday message
+   * @returns false when another worker is processing the message
    */
-  private async processMessage(payload: BirthdayMessagePayload): Promise<void> {
+  private async processMessage(
+    payload: BirthdayMessagePayload,
+  ): Promise<boolean> {
     // Acquire a processing lock to prevent duplicate sends
     const lockKey = `process-${payload.messageId}`;
     const lockAcquired = await this.lockService.acquireLock(lockKey, 120); // 2 min TTL
 
     if (!lockAcquired) {
       this.logger.warn(
-        `Could not acquire lock for message ${payload.messageId}`,
+        `Could not acquire lock for message ${payload.messageId}, retrying later`,
       );
-      throw new Error('Could not acquire processing lock');
+      return false;
     }
 
     try {
@@ -142,25 +91,70 @@ export class BirthdayConsumerService implements OnModuleInit, OnModuleDestroy {
       const message = await this.birthdayService.findById(payload.messageId);
       if (!message) {
         this.logger.warn(`Message ${payload.messageId} not found in database`);
-        return;
+        return true;
       }
 
       if (message.status === MessageStatus.SENT) {
         this.logger.debug(
           `Message ${payload.messageId} already sent, skipping`,
         );
-        return;
+        return true;
       }
 
-      // Send the email
-      await this.emailService.sendBirthdayEmail(
-        payload.email,
-        payload.fullName,
-      );
+      if (message.status === MessageStatus.CANCELLED) {
+        this.logger.debug(`Message ${payload.messageId} cancelled, skipping`);
+        return true;
+      }
+
+      // Failed for good, e.g. force-failed by an administrator while queued
+      if (
+        message.status === MessageStatus.FAILED &&
+        message.attempts >= MAX_RETRY_ATTEMPTS
+      ) {
+        this.logger.debug(
+          `Message ${payload.messageId} has no attempts left, skipping`,
+        );
+        return true;
+      }
+
+      // Messages retried or stuck in the queue past their occasion day are dropped
+      if (message.expiresAt && message.expiresAt <= new Date()) {
+        await this.birthdayService.markAsExpired(payload.messageId);
+        return true;
+      }
+
+      // Send on the user's channels using the occasion's template or the one
+      // for the stored type; channels delivered by earlier attempts are skipped
+      const result = await this.notificationsService.deliver(message);
+      await this.birthdayService.recordDeliveries(message.id, result);
+
+      const deliveries = Object.entries(result.deliveries);
+      const failures = deliveries
+        .filter(([, delivery]) => delivery.status === DeliveryStatus.FAILED)
+        .map(([channel, delivery]) => `${channel}: ${delivery.lastError}`);
+      if (failures.length > 0) {
+        throw new Error(failures.join('; '));
+      }
+
+      // Every channel was skipped, e.g. an unconfigured provider
+      if (
+        !deliveries.some(
+          ([, delivery]) => delivery.status === DeliveryStatus.SENT,
+        )
+      ) {
+        throw new Error(
+          `No channel could deliver the message: ${deliveries
+            .map(([channel, delivery]) => `${channel}: ${delivery.lastError}`)
+            .join('; ')}`,
+        );
+      }
 
       // Mark as sent
       await this.birthdayService.markAsSent(payload.messageId);
-      this.logger.log(`Successfully sent birthday message to ${payload.email}`);
+      this.logger.log(
+        `Successfully sent ${message.messageType} message ${payload.messageId}`,
+      );
+      return true;
     } finally {
       await this.lockService.releaseLock(lockKey);
     }
@@ -168,37 +162,33 @@ export class BirthdayConsumerService implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Handle message processing failure with retry logic
+   * The message is scheduled for redelivery after its backoff delay and
+   * settled right away, so the consumer keeps processing other messages
    */
   private async handleFailure(
-    msg: amqp.ConsumeMessage,
-    payload: BirthdayMessagePayload,
+    delivery: QueueDelivery,
     error: Error,
   ): Promise<void> {
-    // Get the message from database to check attempt count
-    const message = await this.birthdayService.findById(payload.messageId);
-    const attempts = message?.attempts || 0;
+    const { payload } = delivery;
+    const attempts = delivery.attempts + 1;
+    await this.birthdayService.markAsFailed(payload.messageId, error.message);
 
     if (attempts >= MAX_RETRY_ATTEMPTS) {
-      // Max retries reached, reject and move to DLQ
+      // Max retries reached, move to DLQ
       this.logger.error(
         `Max retries reached for message ${payload.messageId}, moving to DLQ`,
       );
-      await this.birthdayService.markAsFailed(payload.messageId, error.message);
-      this.channel!.reject(msg, false); // requeue: false -> goes to DLQ
-    } else {
-      // Mark as failed and requeue with delay
-      await this.birthdayService.markAsFailed(payload.messageId, error.message);
-
-      // Wait before requeuing (exponential backoff)
-      const delay =
-        RETRY_DELAYS[attempts] || RETRY_DELAYS[RETRY_DELAYS.length - 1];
-      this.logger.log(
-        `Retrying message ${payload.messageId} in ${delay}ms (attempt ${attempts + 1})`,
-      );
-
-      setTimeout(() => {
-        this.channel!.nack(msg, false, true); // requeue: true
-      }, delay);
+      await delivery.deadLetter();
+      return;
     }
+
+    // Exponential backoff
+    const delay =
+      RETRY_DELAYS[attempts - 1] ?? RETRY_DELAYS[RETRY_DELAYS.length - 1];
+    this.logger.log(
+      `Retrying message ${payload.messageId} in ${delay}ms (attempt ${attempts + 1})`,
+    );
+
+    await delivery.retry(delay);
   }
 }
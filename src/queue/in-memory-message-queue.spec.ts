@@ -0,0 +1,124 @@
+import { InMemoryMessageQueue } from './in-memory-message-queue';
+import { QueueDelivery } from './message-queue';
+import { BirthdayMessagePayload } from './message-payload';
+
+describe('InMemoryMessageQueue', () => {
+  let queue: InMemoryMessageQueue;
+
+  const payload = (id: number): BirthdayMessagePayload => ({
+    schemaVersion: 2,
+    messageId: `123e4567-e89b-12d3-a456-42661417400${id}`,
+    userId: '123e4567-e89b-12d3-a456-426614174000',
+    email: 'john@example.com',
+    fullName: 'John Doe',
+    messageType: 'birthday',
+    correlationId: `correlation-${id}`,
+  });
+
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    queue = new InMemoryMessageQueue(2);
+  });
+
+  afterEach(async () => {
+    await queue.stopConsuming();
+  });
+
+  it('should deliver messages published before and after consuming', async () => {
+    const received: string[] = [];
+    await queue.publish(payload(1));
+
+    await queue.consume((delivery) => {
+      received.push(delivery.payload.messageId);
+      return delivery.ack();
+    });
+    await queue.publish(payload(2));
+    await settle();
+
+    expect(received).toEqual([payload(1).messageId, payload(2).messageId]);
+  });
+
+  it('should handle no more messages in parallel than configured', async () => {
+    const finishers: (() => void)[] = [];
+    await queue.consume(
+      () =>
+        new Promise((resolve) => {
+          finishers.push(resolve);
+        }),
+    );
+
+    await queue.publish(payload(1));
+    await queue.publish(payload(2));
+    await queue.publish(payload(3));
+    await settle();
+
+    expect(finishers).toHaveLength(2);
+
+    finishers[0]();
+    await settle();
+
+    expect(finishers).toHaveLength(3);
+    finishers.forEach((finish) => finish());
+  });
+
+  it('should redeliver retried messages after the delay with one more attempt', async () => {
+    jest.useFakeTimers();
+    const deliveries: QueueDelivery[] = [];
+    await queue.consume((delivery) => {
+      deliveries.push(delivery);
+      return deliveries.length === 1 ? delivery.retry(1000) : delivery.ack();
+    });
+
+    await queue.publish(payload(1));
+    await jest.advanceTimersByTimeAsync(999);
+
+    expect(deliveries).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect(deliveries).toHaveLength(2);
+    expect(deliveries[1].attempts).toBe(1);
+    jest.useRealTimers();
+  });
+
+  it('should redeliver postponed messages with the same attempts', async () => {
+    jest.useFakeTimers();
+    const deliveries: QueueDelivery[] = [];
+    await queue.consume((delivery) => {
+      deliveries.push(delivery);
+      return deliveries.length === 1 ? delivery.postpone(1000) : delivery.ack();
+    });
+
+    await queue.publish(payload(1));
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(deliveries).toHaveLength(2);
+    expect(deliveries[1].attempts).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('should keep dead letters', async () => {
+    await queue.consume((delivery) => delivery.deadLetter());
+
+    await queue.publish(payload(1));
+    await settle();
+
+    expect(queue.getDeadLetters()).toEqual([payload(1)]);
+  });
+
+  it('should set invalid payloads aside without handling them', async () => {
+    const handler = jest.fn();
+    await queue.consume(handler);
+
+    await queue.publish({
+      messageId: 'not-a-uuid',
+    } as BirthdayMessagePayload);
+    await settle();
+
+    expect(handler).not.toHaveBeenCalled();
+    const [poison] = queue.getPoisonMessages();
+    expect(poison.content).toBe(JSON.stringify({ messageId: 'not-a-uuid' }));
+    expect(poison.reason).toContain('messageId must be a UUID');
+  });
+});
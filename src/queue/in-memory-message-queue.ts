@@ -0,0 +1,142 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  BirthdayMessagePayload,
+  parseBirthdayMessagePayload,
+} from './message-payload';
+import { DeliveryHandler, MessageQueue, QueueDelivery } from './message-queue';
+
+interface QueuedMessage {
+  content: string; // Serialized like on a broker, so consuming validates it
+  attempts: number;
+}
+
+export interface PoisonMessage {
+  content: string;
+  reason: string;
+}
+
+/**
+ * Birthday queue held in process memory, for running the whole pipeline
+ * locally or in tests without a broker
+ * Queued, retrying, dead-lettered and poison messages are lost on restart;
+ * the recovery job requeues the queued and failed ones from the database after
+ * a while, dead-lettered and poison messages stay lost
+ */
+export class InMemoryMessageQueue implements MessageQueue, OnModuleDestroy {
+  private readonly logger = new Logger(InMemoryMessageQueue.name);
+  private readonly queue: QueuedMessage[] = [];
+  private readonly deadLetters: BirthdayMessagePayload[] = [];
+  private readonly poisonMessages: PoisonMessage[] = [];
+  private readonly retryTimers = new Set<NodeJS.Timeout>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private handler: DeliveryHandler | null = null;
+
+  constructor(private readonly concurrency: number) {}
+
+  async onModuleDestroy(): Promise<void> {
+    await this.stopConsuming();
+  }
+
+  publish(payload: BirthdayMessagePayload): Promise<void> {
+    this.enqueue({ content: JSON.stringify(payload), attempts: 0 });
+    return Promise.resolve();
+  }
+
+  consume(handler: DeliveryHandler): Promise<void> {
+    this.handler = handler;
+    this.drain();
+    return Promise.resolve();
+  }
+
+  async stopConsuming(): Promise<void> {
+    this.handler = null;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+
+    await Promise.allSettled(this.inFlight);
+  }
+
+  /**
+   * Messages that ran out of attempts, oldest first
+   */
+  getDeadLetters(): BirthdayMessagePayload[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Messages whose payload failed validation, oldest first
+   */
+  getPoisonMessages(): PoisonMessage[] {
+    return [...this.poisonMessages];
+  }
+
+  private enqueue(message: QueuedMessage): void {
+    this.queue.push(message);
+    this.drain();
+  }
+
+  /**
+   * Hand out queued messages while there is room for more in flight
+   */
+  private drain(): void {
+    while (
+      this.handler &&
+      this.inFlight.size < this.concurrency &&
+      this.queue.length > 0
+    ) {
+      const message = this.queue.shift() as QueuedMessage;
+      const delivery = this.deliver(message, this.handler)
+        .catch((error: Error) => {
+          this.logger.error(`Unhandled delivery failure: ${error.message}`);
+        })
+        .finally(() => {
+          this.inFlight.delete(delivery);
+          this.drain();
+        });
+      this.inFlight.add(delivery);
+    }
+  }
+
+  private async deliver(
+    message: QueuedMessage,
+    handler: DeliveryHandler,
+  ): Promise<void> {
+    let payload: BirthdayMessagePayload;
+    try {
+      payload = parseBirthdayMessagePayload(message.content);
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Moving invalid message to poison messages: ${reason}`);
+      this.poisonMessages.push({ content: message.content, reason });
+      return;
+    }
+
+    await handler(this.createDelivery(message, payload));
+  }
+
+  private createDelivery(
+    message: QueuedMessage,
+    payload: BirthdayMessagePayload,
+  ): QueueDelivery {
+    const redeliverAfter = (delay: number, attempts: number) => {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.enqueue({ ...message, attempts });
+      }, delay);
+      this.retryTimers.add(timer);
+      return Promise.resolve();
+    };
+
+    return {
+      payload,
+      attempts: message.attempts,
+      ack: () => Promise.resolve(),
+      retry: (delay) => redeliverAfter(delay, message.attempts + 1),
+      postpone: (delay) => redeliverAfter(delay, message.attempts),
+      deadLetter: () => {
+        this.deadLetters.push(payload);
+        return Promise.resolve();
+      },
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  PAYLOAD_SCHEMA_VERSION,
+  parseBirthdayMessagePayload,
+} from './message-payload';
+
+describe('parseBirthdayMessagePayload', () => {
+  const messageId = '123e4567-e89b-12d3-a456-426614174001';
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const current = {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    messageId,
+    userId,
+    email: 'john@example.com',
+    fullName: 'John Doe',
+    messageType: 'anniversary',
+    correlationId: '9b2d6f0e-4c1a-4a8e-9d1c-2f3e4a5b6c7d',
+  };
+
+  it('should accept current payloads as they are', () => {
+    expect(parseBirthdayMessagePayload(JSON.stringify(current))).toEqual(
+      current,
+    );
+  });
+
+  it('should upgrade v1 payloads', () => {
+    const payload = parseBirthdayMessagePayload(
+      JSON.stringify({
+        messageId,
+        userId,
+        email: 'john@example.com',
+        fullName: 'John Doe',
+      }),
+    );
+
+    expect(payload).toEqual({
+      schemaVersion: PAYLOAD_SCHEMA_VERSION,
+      messageId,
+      userId,
+      email: 'john@example.com',
+      fullName: 'John Doe',
+      messageType: 'birthday',
+      correlationId: messageId,
+    });
+  });
+
+  it('should require the fields added in v2 from v2 payloads', () => {
+    const payload = { ...current, messageType: undefined };
+
+    expect(() => parseBirthdayMessagePayload(JSON.stringify(payload))).toThrow(
+      /messageType/,
+    );
+  });
+
+  it('should reject unknown schema versions', () => {
+    expect(() =>
+      parseBirthdayMessagePayload(
+        JSON.stringify({ ...current, schemaVersion: 3 }),
+      ),
+    ).toThrow(/schemaVersion/);
+  });
+
+  it('should reject payloads that are not JSON objects', () => {
+    expect(() => parseBirthdayMessagePayload('not json')).toThrow(
+      'Payload is not valid JSON',
+    );
+    expect(() => parseBirthdayMessagePayload('[]')).toThrow(
+      'Payload is not a JSON object',
+    );
+  });
+
+  it('should reject message ids that are not UUIDs', () => {
+    expect(() =>
+      parseBirthdayMessagePayload(
+        JSON.stringify({ ...current, messageId: 'message-123' }),
+      ),
+    ).toThrow('messageId must be a UUID');
+  });
+});
@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { plainToInstance } from 'class-transformer';
+import {
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateIf,
+  validateSync,
+} from 'class-validator';
+import {
+  BirthdayMessage,
+  MessageType,
+} from '../birthday/entities/birthday-message.entity';
+
+/**
+ * Version of the payloads published from now on
+ * v1 payloads have no schemaVersion, an optional messageType and no
+ * correlationId; they are upgraded when consumed
+ */
+export const PAYLOAD_SCHEMA_VERSION = 2;
+
+export interface BirthdayMessagePayload {
+  schemaVersion: number;
+  messageId: string;
+  userId: string;
+  email: string;
+  fullName: string;
+  messageType: string; // Informational; the consumer uses the stored type
+  correlationId: string; // Identifies one queueing of the message in logs and headers
+}
+
+/**
+ * Build the queue payload for a message loaded with its user relation
+ */
+export function buildBirthdayMessagePayload(
+  message: BirthdayMessage,
+): BirthdayMessagePayload {
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    messageId: message.id,
+    userId: message.userId,
+    email: message.user.email,
+    fullName: `${message.user.firstName} ${message.user.lastName}`,
+    messageType: message.messageType,
+    correlationId: randomUUID(),
+  };
+}
+
+const isVersion1 = (payload: PayloadSchema) =>
+  payload.schemaVersion === undefined || payload.schemaVersion === 1;
+
+class PayloadSchema {
+  @IsOptional()
+  @IsIn([1, PAYLOAD_SCHEMA_VERSION])
+  schemaVersion?: number;
+
+  @IsUUID()
+  messageId: string;
+
+  @IsUUID()
+  userId: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  fullName: string;
+
+  @ValidateIf(
+    (payload: PayloadSchema) =>
+      !isVersion1(payload) || payload.messageType !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  messageType?: string;
+
+  @ValidateIf((payload: PayloadSchema) => !isVersion1(payload))
+  @IsString()
+  @IsNotEmpty()
+  correlationId?: string;
+}
+
+/**
+ * Parse and validate a queued payload of any supported version, upgraded to
+ * the current one
+ * @throws Error describing why the payload is invalid
+ */
+export function parseBirthdayMessagePayload(
+  content: string,
+): BirthdayMessagePayload {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error('Payload is not valid JSON');
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Payload is not a JSON object');
+  }
+
+  const payload = plainToInstance(PayloadSchema, raw);
+  const errors = validateSync(payload);
+  if (errors.length > 0) {
+    throw new Error(
+      errors
+        .flatMap((error) => Object.values(error.constraints ?? {}))
+        .join(', '),
+    );
+  }
+
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    messageId: payload.messageId,
+    userId: payload.userId,
+    email: payload.email,
+    fullName: payload.fullName,
+    // v1 payloads without a type were all queued before other occasions existed
+    messageType: payload.messageType ?? MessageType.BIRTHDAY,
+    // The message id is the best correlation available for v1 payloads
+    correlationId: payload.correlationId ?? payload.messageId,
+  };
+}
@@ -0,0 +1,77 @@
+import { ConfigService } from '@nestjs/config';
+import type { BirthdayMessagePayload } from './message-payload';
+
+/**
+ * Injection token of the configured MessageQueue
+ */
+export const MESSAGE_QUEUE = 'MESSAGE_QUEUE';
+
+export enum QueueTransport {
+  AMQP = 'amqp',
+  MEMORY = 'memory',
+}
+
+/**
+ * Transport selected by queue.transport; RabbitMQ unless configured otherwise
+ */
+export function getQueueTransport(
+  configService: ConfigService,
+): QueueTransport {
+  const transport = configService.get<string>('queue.transport');
+  return transport === QueueTransport.MEMORY
+    ? QueueTransport.MEMORY
+    : QueueTransport.AMQP;
+}
+
+/**
+ * A birthday message delivered to the consumer, settled exactly once
+ */
+export interface QueueDelivery {
+  payload: BirthdayMessagePayload;
+  attempts: number; // Failed delivery attempts before this one
+
+  /**
+   * Remove the message from the queue
+   */
+  ack(): Promise<void>;
+
+  /**
+   * Deliver the message again after the delay with one more failed attempt
+   */
+  retry(delay: number): Promise<void>;
+
+  /**
+   * Deliver the message again after the delay without counting an attempt,
+   * for a message that could not be handled yet rather than one that failed
+   */
+  postpone(delay: number): Promise<void>;
+
+  /**
+   * Give up on the message and move it to the dead letter queue
+   */
+  deadLetter(): Promise<void>;
+}
+
+export type DeliveryHandler = (delivery: QueueDelivery) => Promise<void>;
+
+/**
+ * Queue carrying birthday messages from the outbox relay to the consumer
+ */
+export interface MessageQueue {
+  /**
+   * Resolves once the transport accepted the message for delivery
+   */
+  publish(payload: BirthdayMessagePayload): Promise<void>;
+
+  /**
+   * Hand deliveries to the handler, as many in parallel as configured
+   * Payloads are validated first; invalid ones are moved to the poison queue
+   * without reaching the handler
+   */
+  consume(handler: DeliveryHandler): Promise<void>;
+
+  /**
+   * Stop handing out deliveries and wait for the ones being handled
+   */
+  stopConsuming(): Promise<void>;
+}
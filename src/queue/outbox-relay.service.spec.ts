@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OutboxRelayService } from './outbox-relay.service';
+import { BirthdayProducerService } from './birthday-producer.service';
+import { BirthdayMessagePayload } from './message-payload';
+import { OutboxService } from '../outbox/outbox.service';
+import { OutboxEntry } from '../outbox/entities/outbox-entry.entity';
+import { LockService } from '../redis/lock.service';
+
+describe('OutboxRelayService', () => {
+  let service: OutboxRelayService;
+  let outboxService: jest.Mocked<OutboxService>;
+  let birthdayProducer: jest.Mocked<BirthdayProducerService>;
+  let lockService: jest.Mocked<LockService>;
+
+  const createEntry = (id: string): OutboxEntry =>
+    ({
+      id,
+      messageId: `message-${id}`,
+      payload: {
+        messageId: `message-${id}`,
+        userId: 'user-123',
+        email: 'john@example.com',
+        fullName: 'John Doe',
+      } as BirthdayMessagePayload,
+      attempts: 0,
+    }) as OutboxEntry;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxRelayService,
+        {
+          provide: OutboxService,
+          useValue: {
+            findPending: jest.fn().mockResolvedValue([]),
+            markDispatched: jest.fn(),
+            recordFailure: jest.fn(),
+            removeDispatched: jest.fn(),
+          },
+        },
+        {
+          provide: BirthdayProducerService,
+          useValue: { publishBirthdayMessage: jest.fn() },
+        },
+        {
+          provide: LockService,
+          useValue: {
+            acquireLock: jest.fn().mockResolvedValue(true),
+            releaseLock: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OutboxRelayService>(OutboxRelayService);
+    outboxService = module.get(OutboxService);
+    birthdayProducer = module.get(BirthdayProducerService);
+    lockService = module.get(LockService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('relayPendingEntries', () => {
+    it('should skip if lock cannot be acquired', async () => {
+      lockService.acquireLock.mockResolvedValue(false);
+
+      await service.relayPendingEntries();
+
+      expect(outboxService.findPending).not.toHaveBeenCalled();
+    });
+
+    it('should mark entries dispatched once the broker confirmed them', async () => {
+      const entries = [createEntry('1'), createEntry('2')];
+      outboxService.findPending.mockResolvedValueOnce(entries);
+
+      await service.relayPendingEntries();
+
+      expect(birthdayProducer.publishBirthdayMessage).toHaveBeenCalledWith(
+        entries[0].payload,
+      );
+      expect(outboxService.markDispatched).toHaveBeenCalledWith('1');
+      expect(outboxService.markDispatched).toHaveBeenCalledWith('2');
+      expect(lockService.releaseLock).toHaveBeenCalledWith('outbox-relay-lock');
+    });
+
+    it('should record the failure and stop when publishing fails', async () => {
+      outboxService.findPending.mockResolvedValueOnce([
+        createEntry('1'),
+        createEntry('2'),
+      ]);
+      birthdayProducer.publishBirthdayMessage.mockRejectedValue(
+        new Error('Timeout'),
+      );
+
+      await service.relayPendingEntries();
+
+      expect(birthdayProducer.publishBirthdayMessage).toHaveBeenCalledTimes(1);
+      expect(outboxService.recordFailure).toHaveBeenCalledWith('1', 'Timeout');
+      expect(outboxService.markDispatched).not.toHaveBeenCalled();
+      expect(lockService.releaseLock).toHaveBeenCalledWith('outbox-relay-lock');
+    });
+    it('should stop publishing before the lock expires', async () => {
+      jest.useFakeTimers({ now: new Date('2024-07-25T12:00:00Z') });
+      outboxService.findPending.mockResolvedValueOnce([
+        createEntry('1'),
+        createEntry('2'),
+      ]);
+      // A slow broker confirms the first entry after 30 seconds
+      birthdayProducer.publishBirthdayMessage.mockImplementationOnce(() => {
+        jest.setSystemTime(new Date('2024-07-25T12:00:30Z'));
+        return Promise.resolve();
+      });
+
+      await service.relayPendingEntries();
+      jest.useRealTimers();
+
+      expect(lockService.acquireLock).toHaveBeenCalledWith(
+        'outbox-relay-lock',
+        60,
+      );
+      expect(birthdayProducer.publishBirthdayMessage).toHaveBeenCalledTimes(1);
+      expect(outboxService.markDispatched).toHaveBeenCalledWith('1');
+      expect(outboxService.markDispatched).not.toHaveBeenCalledWith('2');
+      expect(lockService.releaseLock).toHaveBeenCalledWith('outbox-relay-lock');
+    });
+  });
+
+  describe('removeDispatchedEntries', () => {
+    it('should remove entries dispatched more than a week ago', async () => {
+      jest.useFakeTimers({ now: new Date('2024-07-25T03:00:00Z') });
+      outboxService.removeDispatched.mockResolvedValue(3);
+
+      await service.removeDispatchedEntries();
+
+      expect(outboxService.removeDispatched).toHaveBeenCalledWith(
+        new Date('2024-07-18T03:00:00Z'),
+      );
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as moment from 'moment-timezone';
+import { BirthdayProducerService } from './birthday-producer.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { LockService } from '../redis/lock.service';
+
+const RELAY_BATCH_SIZE = 500;
+const RELAY_LOCK_TTL_SECONDS = 60;
+// A run stops publishing well before its lock expires, since the last publish
+// may still wait up to 10 seconds for its confirm; the next run continues
+const RELAY_RUN_LIMIT_MS = 30_000;
+const RETENTION_DAYS = 7; // Dispatched entries are kept this long for troubleshooting
+
+/**
+ * Publishes outbox entries onto the birthday queue
+ * An entry is marked dispatched only after the broker confirmed it, so a crash
+ * at worst publishes it twice, which the consumer's sent check absorbs
+ */
+@Injectable()
+export class OutboxRelayService {
+  private readonly logger = new Logger(OutboxRelayService.name);
+
+  constructor(
+    private readonly outboxService: OutboxService,
+    private readonly birthdayProducer: BirthdayProducerService,
+    private readonly lockService: LockService,
+  ) {}
+
+  /**
+   * Relay job running every second
+   */
+  @Cron(CronExpression.EVERY_SECOND)
+  async relayPendingEntries(): Promise<void> {
+    const lockKey = 'outbox-relay-lock';
+    const lockAcquired = await this.lockService.acquireLock(
+      lockKey,
+      RELAY_LOCK_TTL_SECONDS,
+    );
+
+    if (!lockAcquired) {
+      return; // Still running here or on another instance
+    }
+
+    const deadline = Date.now() + RELAY_RUN_LIMIT_MS;
+    try {
+      let entries = await this.outboxService.findPending(RELAY_BATCH_SIZE);
+
+      while (entries.length > 0) {
+        for (const entry of entries) {
+          // Another instance may take over once the lock expires
+          if (Date.now() >= deadline) {
+            return;
+          }
+
+          try {
+            await this.birthdayProducer.publishBirthdayMessage(entry.payload);
+          } catch (error: unknown) {
+            const errorMessage =
+              error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error(
+              `Failed to publish outbox entry ${entry.id}: ${errorMessage}`,
+            );
+            await this.outboxService.recordFailure(entry.id, errorMessage);
+            return; // The broker is likely unavailable, retry on the next run
+          }
+
+          await this.outboxService.markDispatched(entry.id);
+        }
+
+        if (entries.length < RELAY_BATCH_SIZE) {
+          break;
+        }
+        entries = await this.outboxService.findPending(RELAY_BATCH_SIZE);
+      }
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      const errorStack = error instanceof Error ? error.stack : undefined;
+      this.logger.error(`Error in outbox relay: ${errorMessage}`, errorStack);
+    } finally {
+      await this.lockService.releaseLock(lockKey);
+    }
+  }
+
+  /**
+   * Cleanup job removing dispatched entries past their retention
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async removeDispatchedEntries(): Promise<void> {
+    const removed = await this.outboxService.removeDispatched(
+      moment.utc().subtract(RETENTION_DAYS, 'days').toDate(),
+    );
+    if (removed > 0) {
+      this.logger.log(`Removed ${removed} dispatched outbox entries`);
+    }
+  }
+}
@@ -1,13 +1,45 @@
-import { Module, forwardRef } from '@nestjs/common';
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { BirthdayProducerService } from './birthday-producer.service';
 import { BirthdayConsumerService } from './birthday-consumer.service';
+import { OutboxRelayService } from './outbox-relay.service';
+import {
+  MESSAGE_QUEUE,
+  MessageQueue,
+  QueueTransport,
+  getQueueTransport,
+} from './message-queue';
+import { AmqpMessageQueue } from './amqp-message-queue';
+import { InMemoryMessageQueue } from './in-memory-message-queue';
 import { BirthdayModule } from '../birthday/birthday.module';
-import { EmailModule } from '../email/email.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { OutboxModule } from '../outbox/outbox.module';
 import { RedisModule } from '../redis/redis.module';
+import { RabbitMqService } from '../rabbitmq/rabbitmq.service';
 
 @Module({
-  imports: [forwardRef(() => BirthdayModule), EmailModule, RedisModule],
-  providers: [BirthdayProducerService, BirthdayConsumerService],
+  imports: [BirthdayModule, NotificationsModule, OutboxModule, RedisModule],
+  providers: [
+    {
+      provide: MESSAGE_QUEUE,
+      inject: [ConfigService, RabbitMqService],
+      useFactory: (
+        configService: ConfigService,
+        rabbitMq: RabbitMqService,
+      ): MessageQueue => {
+        // Messages each process handles in parallel
+        const concurrency =
+          configService.get<number>('queue.consumerConcurrency') || 1;
+
+        return getQueueTransport(configService) === QueueTransport.MEMORY
+          ? new InMemoryMessageQueue(concurrency)
+          : new AmqpMessageQueue(rabbitMq, concurrency);
+      },
+    },
+    BirthdayProducerService,
+    BirthdayConsumerService,
+    OutboxRelayService,
+  ],
   exports: [BirthdayProducerService],
 })
 export class QueueModule {}
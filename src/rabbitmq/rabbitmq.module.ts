@@ -0,0 +1,9 @@
+import { Module, Global } from '@nestjs/common';
+import { RabbitMqService } from './rabbitmq.service';
+
+@Global()
+@Module({
+  providers: [RabbitMqService],
+  exports: [RabbitMqService],
+})
+export class RabbitMqModule {}
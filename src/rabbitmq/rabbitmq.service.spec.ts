@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import * as amqp from 'amqp-connection-manager';
+import { RabbitMqService } from './rabbitmq.service';
+
+jest.mock('amqp-connection-manager');
+
+describe('RabbitMqService', () => {
+  let service: RabbitMqService;
+  let connection: EventEmitter & {
+    isConnected: jest.Mock;
+    createChannel: jest.Mock;
+    close: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    connection = Object.assign(new EventEmitter(), {
+      isConnected: jest.fn().mockReturnValue(false),
+      createChannel: jest.fn(() => new EventEmitter()),
+      close: jest.fn(),
+    });
+    (amqp.connect as jest.Mock).mockReturnValue(connection);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RabbitMqService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('amqp://rabbitmq') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RabbitMqService>(RabbitMqService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open one managed connection with the first channel', () => {
+    expect(amqp.connect).not.toHaveBeenCalled();
+
+    service.createChannel('birthday-producer', jest.fn());
+    service.createChannel('birthday-consumer', jest.fn());
+
+    expect(amqp.connect).toHaveBeenCalledTimes(1);
+    expect(amqp.connect).toHaveBeenCalledWith(['amqp://rabbitmq']);
+  });
+
+  it('should create confirm channels that replay their setup', () => {
+    const setup = jest.fn();
+
+    service.createChannel('birthday-producer', setup);
+
+    expect(connection.createChannel).toHaveBeenCalledWith({
+      name: 'birthday-producer',
+      setup,
+      publishTimeout: 10000,
+    });
+  });
+
+  it('should report why the connection dropped until it reconnects', () => {
+    service.createChannel('birthday-producer', jest.fn());
+    connection.emit('disconnect', { err: new Error('Heartbeat timeout') });
+
+    expect(service.getConnectionState()).toEqual({
+      connected: false,
+      error: 'Heartbeat timeout',
+    });
+
+    connection.isConnected.mockReturnValue(true);
+    connection.emit('connect', {});
+
+    expect(service.getConnectionState()).toEqual({
+      connected: true,
+      error: null,
+    });
+  });
+
+  it('should report no connection before the first channel', () => {
+    expect(service.getConnectionState()).toEqual({
+      connected: false,
+      error: 'Not connected',
+    });
+  });
+
+  it('should close the connection on shutdown', async () => {
+    service.createChannel('birthday-producer', jest.fn());
+    await service.onApplicationShutdown();
+
+    expect(connection.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,100 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as amqp from 'amqp-connection-manager';
+import type { ConfirmChannel } from 'amqplib';
+
+const PUBLISH_TIMEOUT_MS = 10000; // Fail publishes instead of buffering them indefinitely while disconnected
+
+export interface RabbitMqConnectionState {
+  connected: boolean;
+  error: string | null; // Why the last connection attempt failed or dropped
+}
+
+/**
+ * Single RabbitMQ connection shared by every producer and consumer
+ * The connection opens with the first channel, so nothing connects when the
+ * memory queue transport is used, and reconnects on its own; channels
+ * created here replay their setup (queue assertions, prefetch) and
+ * re-register their consumers after each reconnect
+ */
+@Injectable()
+export class RabbitMqService implements OnApplicationShutdown {
+  private readonly logger = new Logger(RabbitMqService.name);
+  private connection: amqp.AmqpConnectionManager | null = null;
+  private lastError: string | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Create a confirm channel whose setup runs on every (re)connect
+   */
+  createChannel(
+    name: string,
+    setup: (channel: ConfirmChannel) => Promise<void>,
+  ): amqp.ChannelWrapper {
+    const channel = this.connect().createChannel({
+      name,
+      setup,
+      publishTimeout: PUBLISH_TIMEOUT_MS,
+    });
+
+    channel.on('error', (error: Error) => {
+      this.logger.error(`Channel ${name} setup failed: ${error.message}`);
+    });
+
+    return channel;
+  }
+
+  getConnectionState(): RabbitMqConnectionState {
+    if (!this.connection) {
+      return { connected: false, error: 'Not connected' };
+    }
+
+    const connected = this.connection.isConnected();
+    return { connected, error: connected ? null : this.lastError };
+  }
+
+  /**
+   * Close the connection once every module has stopped using it
+   */
+  async onApplicationShutdown(): Promise<void> {
+    if (!this.connection) {
+      return;
+    }
+
+    try {
+      await this.connection.close();
+      this.logger.log('Disconnected from RabbitMQ');
+    } catch (error) {
+      this.logger.error(
+        `Error disconnecting from RabbitMQ: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private connect(): amqp.AmqpConnectionManager {
+    if (this.connection) {
+      return this.connection;
+    }
+
+    const url =
+      this.configService.get<string>('rabbitmq.url') || 'amqp://localhost';
+    const connection = amqp.connect([url]);
+
+    connection.on('connect', () => {
+      this.lastError = null;
+      this.logger.log('Connected to RabbitMQ');
+    });
+    connection.on('disconnect', ({ err }) => {
+      this.lastError = err?.message ?? 'Disconnected';
+      this.logger.warn(`Disconnected from RabbitMQ: ${this.lastError}`);
+    });
+    connection.on('connectFailed', ({ err }) => {
+      this.lastError = err.message;
+      this.logger.error(`Failed to connect to RabbitMQ: ${err.message}`);
+    });
+
+    this.connection = connection;
+    return connection;
+  }
+}
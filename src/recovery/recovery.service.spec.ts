@@ -1,18 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { RecoveryService } from './recovery.service';
+import {
+  ORPHANED_FAILURE_AGE_MS,
+  ORPHANED_QUEUED_AGE_MS,
+  RecoveryService,
+} from './recovery.service';
+import { RETRY_DELAYS } from '../queue/birthday-producer.service';
 import { BirthdayService } from '../birthday/birthday.service';
-import { BirthdayProducerService } from '../queue/birthday-producer.service';
 import { LockService } from '../redis/lock.service';
 import {
   BirthdayMessage,
   MessageStatus,
+  MessageType,
 } from '../birthday/entities/birthday-message.entity';
 import { User } from '../users/entities/user.entity';
 
 describe('RecoveryService', () => {
   let service: RecoveryService;
   let birthdayService: jest.Mocked<BirthdayService>;
-  let birthdayProducer: jest.Mocked<BirthdayProducerService>;
   let lockService: jest.Mocked<LockService>;
 
   const mockUser: Partial<User> = {
@@ -22,19 +26,12 @@ describe('RecoveryService', () => {
     email: 'john@example.com',
   };
 
-  const mockMessage: Partial<BirthdayMessage> = {
-    id: 'message-123',
-    userId: 'user-123',
-    user: mockUser as User,
-    status: MessageStatus.PENDING,
-    attempts: 0,
-  };
-
   const mockFailedMessage: Partial<BirthdayMessage> = {
     id: 'message-456',
     userId: 'user-456',
     user: { ...mockUser, id: 'user-456', email: 'jane@example.com' } as User,
     status: MessageStatus.FAILED,
+    messageType: MessageType.BIRTHDAY,
     attempts: 2,
   };
 
@@ -45,16 +42,10 @@ describe('RecoveryService', () => {
         {
           provide: BirthdayService,
           useValue: {
-            getPendingMessagesToQueue: jest.fn(),
+            getOrphanedQueuedMessages: jest.fn().mockResolvedValue([]),
             getFailedMessagesForRetry: jest.fn(),
-            markAsQueued: jest.fn(),
-            resetToPending: jest.fn(),
-          },
-        },
-        {
-          provide: BirthdayProducerService,
-          useValue: {
-            publishBirthdayMessage: jest.fn(),
+            queueMessages: jest.fn(),
+            markAsCancelled: jest.fn(),
           },
         },
         {
@@ -69,7 +60,6 @@ describe('RecoveryService', () => {
 
     service = module.get<RecoveryService>(RecoveryService);
     birthdayService = module.get(BirthdayService);
-    birthdayProducer = module.get(BirthdayProducerService);
     lockService = module.get(LockService);
   });
 
@@ -83,46 +73,65 @@ describe('RecoveryService', () => {
 
       await service.recoverUnsentMessages();
 
-      expect(birthdayService.getPendingMessagesToQueue).not.toHaveBeenCalled();
+      expect(birthdayService.getFailedMessagesForRetry).not.toHaveBeenCalled();
     });
 
-    it('should recover pending messages when lock is acquired', async () => {
+    it('should retry failed messages', async () => {
       lockService.acquireLock.mockResolvedValue(true);
-      birthdayService.getPendingMessagesToQueue.mockResolvedValue([
-        mockMessage as BirthdayMessage,
+      birthdayService.getFailedMessagesForRetry.mockResolvedValue([
+        mockFailedMessage as BirthdayMessage,
+      ]);
+      birthdayService.queueMessages.mockResolvedValue([
+        mockFailedMessage as BirthdayMessage,
       ]);
-      birthdayService.getFailedMessagesForRetry.mockResolvedValue([]);
-      birthdayProducer.publishBirthdayMessage.mockResolvedValue();
-      birthdayService.markAsQueued.mockResolvedValue();
 
       await service.recoverUnsentMessages();
 
-      expect(birthdayProducer.publishBirthdayMessage).toHaveBeenCalledWith({
-        messageId: 'message-123',
-        userId: 'user-123',
-        email: 'john@example.com',
-        fullName: 'John Doe',
-      });
-      expect(birthdayService.markAsQueued).toHaveBeenCalledWith('message-123');
+      expect(birthdayService.queueMessages).toHaveBeenCalledWith(
+        [mockFailedMessage],
+        MessageStatus.FAILED,
+      );
       expect(lockService.releaseLock).toHaveBeenCalledWith('recovery-job-lock');
     });
 
-    it('should retry failed messages', async () => {
+    it('should not requeue messages parked for a broker retry', async () => {
+      const now = new Date('2024-05-15T13:00:00Z');
+      jest.useFakeTimers({ now });
+      lockService.acquireLock.mockResolvedValue(true);
+      birthdayService.getFailedMessagesForRetry.mockResolvedValue([]);
+
+      await service.recoverUnsentMessages();
+      jest.useRealTimers();
+
+      // Failed just before the longest retry delay, so still in the broker
+      const parkedAt = now.getTime() - Math.max(...RETRY_DELAYS);
+      const [failedBefore] =
+        birthdayService.getFailedMessagesForRetry.mock.calls[0];
+      expect(failedBefore.getTime()).toBe(
+        now.getTime() - ORPHANED_FAILURE_AGE_MS,
+      );
+      expect(failedBefore.getTime()).toBeLessThan(parkedAt);
+      expect(birthdayService.queueMessages).not.toHaveBeenCalled();
+    });
+
+    it('should cancel failed messages of opted-out users', async () => {
       lockService.acquireLock.mockResolvedValue(true);
-      birthdayService.getPendingMessagesToQueue.mockResolvedValue([]);
       birthdayService.getFailedMessagesForRetry.mockResolvedValue([
-        mockFailedMessage as BirthdayMessage,
+        {
+          ...mockFailedMessage,
+          user: {
+            ...mockUser,
+            subscriptions: { [MessageType.BIRTHDAY]: false },
+          } as User,
+        } as BirthdayMessage,
       ]);
-      birthdayService.resetToPending.mockResolvedValue();
-      birthdayProducer.publishBirthdayMessage.mockResolvedValue();
-      birthdayService.markAsQueued.mockResolvedValue();
 
       await service.recoverUnsentMessages();
 
-      expect(birthdayService.resetToPending).toHaveBeenCalledWith(
+      expect(birthdayService.markAsCancelled).toHaveBeenCalledWith(
         'message-456',
       );
-      expect(birthdayProducer.publishBirthdayMessage).toHaveBeenCalledTimes(1);
+      expect(birthdayService.queueMessages).not.toHaveBeenCalled();
     });
 
     it('should skip messages without associated user', async () => {
@@ -130,23 +139,49 @@ describe('RecoveryService', () => {
         id: 'message-789',
         userId: 'user-789',
         user: undefined,
-        status: MessageStatus.PENDING,
+        status: MessageStatus.FAILED,
+        attempts: 1,
       };
 
       lockService.acquireLock.mockResolvedValue(true);
-      birthdayService.getPendingMessagesToQueue.mockResolvedValue([
+      birthdayService.getFailedMessagesForRetry.mockResolvedValue([
         messageWithoutUser as BirthdayMessage,
       ]);
+
+      await service.recoverUnsentMessages();
+
+      expect(birthdayService.queueMessages).not.toHaveBeenCalled();
+    });
+
+    it('should requeue queued messages that lost their copy on the queue', async () => {
+      const now = new Date('2024-05-15T13:00:00Z');
+      jest.useFakeTimers({ now });
+      const queuedMessage = {
+        ...mockFailedMessage,
+        status: MessageStatus.QUEUED,
+      } as BirthdayMessage;
+      lockService.acquireLock.mockResolvedValue(true);
+      birthdayService.getOrphanedQueuedMessages.mockResolvedValue([
+        queuedMessage,
+      ]);
       birthdayService.getFailedMessagesForRetry.mockResolvedValue([]);
+      birthdayService.queueMessages.mockResolvedValue([queuedMessage]);
 
       await service.recoverUnsentMessages();
+      jest.useRealTimers();
 
-      expect(birthdayProducer.publishBirthdayMessage).not.toHaveBeenCalled();
+      expect(birthdayService.getOrphanedQueuedMessages).toHaveBeenCalledWith(
+        new Date(now.getTime() - ORPHANED_QUEUED_AGE_MS),
+      );
+      expect(birthdayService.queueMessages).toHaveBeenCalledWith(
+        [queuedMessage],
+        MessageStatus.QUEUED,
+      );
     });
 
     it('should release lock even on error', async () => {
       lockService.acquireLock.mockResolvedValue(true);
-      birthdayService.getPendingMessagesToQueue.mockRejectedValue(
+      birthdayService.getFailedMessagesForRetry.mockRejectedValue(
         new Error('Database error'),
       );
 
@@ -1,10 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
-import { BirthdayService } from '../birthday/birthday.service';
-import { BirthdayProducerService } from '../queue/birthday-producer.service';
+import {
+  BirthdayService,
+  MAX_RETRY_ATTEMPTS,
+} from '../birthday/birthday.service';
+import {
+  BirthdayMessage,
+  MessageStatus,
+} from '../birthday/entities/birthday-message.entity';
 import { LockService } from '../redis/lock.service';
-
-const MAX_RETRY_ATTEMPTS = 5;
+import { isSubscribed } from '../users/subscriptions';
+import { RETRY_DELAYS } from '../queue/birthday-producer.service';
+
+/**
+ * Failed messages wait for their retry in the broker's delay queues
+ * Only the ones left untouched for longer than the longest delay lost their
+ * queued copy, e.g. to a restart with the in-memory transport
+ */
+export const ORPHANED_FAILURE_AGE_MS = Math.max(...RETRY_DELAYS) + 10 * 60_000;
+
+/**
+ * Queued messages are normally consumed within seconds of being published
+ * The ones without a pending outbox entry left queued for this long lost their
+ * copy on the queue, e.g. to a restart with the in-memory transport
+ */
+export const ORPHANED_QUEUED_AGE_MS = 30 * 60_000;
 
 @Injectable()
 export class RecoveryService {
@@ -12,13 +32,13 @@ export class RecoveryService {
 
   constructor(
     private readonly birthdayService: BirthdayService,
-    private readonly birthdayProducer: BirthdayProducerService,
     private readonly lockService: LockService,
   ) {}
 
   /**
    * Recovery job running every 5 minutes
-   * Picks up pending and failed messages that should have been sent
+   * Picks up queued and failed messages whose copy on the queue was lost
+   * Pending messages are queued by the dispatcher once they are due
    */
   @Cron('*/5 * * * *') // Every 5 minutes
   async recoverUnsentMessages(): Promise<void> {
@@ -33,8 +53,8 @@ export class RecoveryService {
     try {
       this.logger.log('Starting message recovery job...');
 
-      // Recover pending messages that should have been queued
-      await this.recoverPendingMessages();
+      // Requeue queued messages that never reached a consumer
+      await this.requeueOrphanedQueuedMessages();
 
       // Retry failed messages that haven't exceeded max attempts
       await this.retryFailedMessages();
@@ -51,67 +71,55 @@ export class RecoveryService {
   }
 
   /**
-   * Recover pending messages that should have been sent
-   * This handles the case where the service was down during the scheduled time
+   * Requeue queued messages whose outbox entry was dispatched long ago
+   * without any consumer picking them up
    */
-  private async recoverPendingMessages(): Promise<void> {
-    const pendingMessages =
-      await this.birthdayService.getPendingMessagesToQueue();
+  private async requeueOrphanedQueuedMessages(): Promise<void> {
+    const queuedMessages = await this.birthdayService.getOrphanedQueuedMessages(
+      new Date(Date.now() - ORPHANED_QUEUED_AGE_MS),
+    );
 
-    if (pendingMessages.length === 0) {
-      this.logger.debug('No pending messages to recover');
+    if (queuedMessages.length === 0) {
+      this.logger.debug('No orphaned queued messages to requeue');
       return;
     }
 
     this.logger.log(
-      `Found ${pendingMessages.length} pending message(s) to recover`,
+      `Found ${queuedMessages.length} orphaned queued message(s) to requeue`,
     );
-
-    for (const message of pendingMessages) {
-      if (!message.user) {
-        this.logger.warn(
-          `Message ${message.id} has no associated user, skipping`,
-        );
-        continue;
-      }
-
-      try {
-        await this.birthdayProducer.publishBirthdayMessage({
-          messageId: message.id,
-          userId: message.userId,
-          email: message.user.email,
-          fullName: `${message.user.firstName} ${message.user.lastName}`,
-        });
-
-        await this.birthdayService.markAsQueued(message.id);
-        this.logger.log(`Recovered and queued message ${message.id}`);
-      } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : 'Unknown error';
-        this.logger.error(
-          `Failed to recover message ${message.id}: ${errorMessage}`,
-        );
-      }
-    }
+    await this.requeueMessages(queuedMessages, MessageStatus.QUEUED);
   }
 
   /**
-   * Retry failed messages that haven't exceeded max retry attempts
+   * Retry failed messages that haven't exceeded max retry attempts and are
+   * no longer waiting for a retry in the broker
    */
   private async retryFailedMessages(): Promise<void> {
-    const failedMessages =
-      await this.birthdayService.getFailedMessagesForRetry(MAX_RETRY_ATTEMPTS);
+    const failedMessages = await this.birthdayService.getFailedMessagesForRetry(
+      new Date(Date.now() - ORPHANED_FAILURE_AGE_MS),
+      MAX_RETRY_ATTEMPTS,
+    );
 
     if (failedMessages.length === 0) {
-      this.logger.debug('No failed messages to retry');
+      this.logger.debug('No orphaned failed messages to retry');
       return;
     }
 
     this.logger.log(
       `Found ${failedMessages.length} failed message(s) to retry`,
     );
+    await this.requeueMessages(failedMessages, MessageStatus.FAILED);
+  }
 
-    for (const message of failedMessages) {
+  /**
+   * Queue messages in the given status again through the outbox, cancelling
+   * the ones of users who opted out in the meantime
+   */
+  private async requeueMessages(
+    messages: BirthdayMessage[],
+    status: MessageStatus,
+  ): Promise<void> {
+    for (const message of messages) {
       if (!message.user) {
         this.logger.warn(
           `Message ${message.id} has no associated user, skipping`,
@@ -120,23 +128,27 @@ export class RecoveryService {
       }
 
       try {
-        // Reset status to pending and re-queue
-        await this.birthdayService.resetToPending(message.id);
-
-        await this.birthdayProducer.publishBirthdayMessage({
-          messageId: message.id,
-          userId: message.userId,
-          email: message.user.email,
-          fullName: `${message.user.firstName} ${message.user.lastName}`,
-        });
-
-        await this.birthdayService.markAsQueued(message.id);
-        this.logger.log(`Retrying failed message ${message.id}`);
+        if (!isSubscribed(message.user, message.messageType)) {
+          await this.birthdayService.markAsCancelled(message.id);
+          this.logger.log(
+            `Cancelled ${status} message ${message.id} of an opted-out user`,
+          );
+          continue;
+        }
+
+        // Re-queue through the outbox unless it changed since it was read
+        const [queued] = await this.birthdayService.queueMessages(
+          [message],
+          status,
+        );
+        if (queued) {
+          this.logger.log(`Requeued ${status} message ${message.id}`);
+        }
       } catch (error: unknown) {
         const errorMessage =
           error instanceof Error ? error.message : 'Unknown error';
         this.logger.error(
-          `Failed to retry message ${message.id}: ${errorMessage}`,
+          `Failed to requeue message ${message.id}: ${errorMessage}`,
         );
       }
     }
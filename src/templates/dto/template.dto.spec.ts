@@ -0,0 +1,22 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateTemplateDto } from './template.dto';
+
+describe('UpdateTemplateDto', () => {
+  const validateUpdate = (body: object) =>
+    validate(plainToInstance(UpdateTemplateDto, body));
+
+  it('should accept a partial update', async () => {
+    expect(await validateUpdate({})).toHaveLength(0);
+    expect(await validateUpdate({ subject: 'Hi {{firstName}}' })).toHaveLength(
+      0,
+    );
+    expect(await validateUpdate({ bodyHtml: null })).toHaveLength(0);
+  });
+
+  it('should reject null for required fields', async () => {
+    for (const body of [{ subject: null }, { bodyText: null }]) {
+      expect(await validateUpdate(body)).toHaveLength(1);
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsLocale,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { KIND_PATTERN } from '../../occasions/dto/create-occasion.dto';
+import { IsLocalDate } from '../../common/validators/local-date.validator';
+import type { LocalDate } from '../../common/local-date';
+
+const MESSAGE_TYPE_MESSAGE =
+  'messageType must be a lowercase identifier (e.g., birthday, name-day)';
+
+export class CreateTemplateDto {
+  @ApiProperty({
+    example: 'birthday',
+    description: 'Built-in message type or custom occasion kind',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Matches(KIND_PATTERN, { message: MESSAGE_TYPE_MESSAGE })
+  messageType: string;
+
+  @ApiProperty({ example: 'pt-BR', description: 'BCP 47 language tag' })
+  @IsLocale()
+  @MaxLength(35)
+  locale: string;
+
+  @ApiProperty({ example: 'Feliz aniversário, {{firstName}}!' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  subject: string;
+
+  @ApiProperty({
+    example: 'Parabéns pelos seus {{age}} anos, {{fullName}}!',
+    description: 'Text body',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  bodyText: string;
+
+  @ApiPropertyOptional({
+    example: '<p>Parabéns pelos seus <b>{{age}}</b> anos, {{fullName}}!</p>',
+    description: 'HTML body; variable values are HTML-escaped',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(20000)
+  bodyHtml?: string;
+}
+
+export class UpdateTemplateDto {
+  @ApiPropertyOptional({ example: 'Feliz aniversário, {{firstName}}!' })
+  @ValidateIf((_, value) => value !== undefined) // Unlike @IsOptional, rejects null
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  subject?: string;
+
+  @ApiPropertyOptional({
+    example: 'Parabéns pelos seus {{age}} anos, {{fullName}}!',
+  })
+  @ValidateIf((_, value) => value !== undefined)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  bodyText?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: '<p>Parabéns, {{fullName}}!</p>',
+    description: 'HTML body, null to remove it',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(20000)
+  bodyHtml?: string | null;
+}
+
+export class ListTemplatesQueryDto {
+  @ApiPropertyOptional({ example: 'birthday' })
+  @IsString()
+  @IsOptional()
+  messageType?: string;
+
+  @ApiPropertyOptional({ example: 'pt-BR' })
+  @IsString()
+  @IsOptional()
+  locale?: string;
+}
+
+export class PreviewTemplateDto {
+  @ApiPropertyOptional({
+    description: 'User to render the template for; sample data when omitted',
+  })
+  @IsUUID()
+  @IsOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-05-15',
+    description: "Occasion date (defaults to today in the user's timezone)",
+  })
+  @IsLocalDate()
+  @IsOptional()
+  occasionDate?: LocalDate;
+}
+
+export class EmailPayloadDto {
+  @ApiProperty({ example: 'jane.doe@example.com' })
+  email: string;
+
+  @ApiProperty({ example: "Hey, Jane Doe it's your birthday" })
+  message: string;
+
+  @ApiPropertyOptional({ example: 'Happy birthday, Jane!' })
+  subject?: string;
+
+  @ApiPropertyOptional({ example: "<p>Hey, Jane Doe it's your birthday</p>" })
+  html?: string;
+}
+
+export class TemplatePreviewDto {
+  @ApiProperty()
+  templateId: string;
+
+  @ApiProperty({ example: 3 })
+  templateVersion: number;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'User rendered for, null for sample data',
+  })
+  userId: string | null;
+
+  @ApiProperty({
+    type: EmailPayloadDto,
+    description: 'Body the email service would post to the email provider',
+  })
+  payload: EmailPayloadDto;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { MessageTemplate } from './message-template.entity';
+
+@Entity('message_template_versions')
+@Unique('UQ_message_template_versions_template_version', [
+  'templateId',
+  'version',
+])
+export class MessageTemplateVersion {
+  @PrimaryGeneratedColumn('uuid', {
+    primaryKeyConstraintName: 'PK_message_template_versions',
+  })
+  id: string;
+
+  @Column({ name: 'template_id', type: 'uuid' })
+  templateId: string;
+
+  @ManyToOne(() => MessageTemplate, { onDelete: 'CASCADE' })
+  @JoinColumn({
+    name: 'template_id',
+    foreignKeyConstraintName: 'FK_message_template_versions_template',
+  })
+  template: MessageTemplate;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ length: 255 })
+  subject: string;
+
+  @Column({ name: 'body_text', type: 'text' })
+  bodyText: string;
+
+  @Column({ name: 'body_html', type: 'text', nullable: true })
+  bodyHtml: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date; // When this version became current
+}
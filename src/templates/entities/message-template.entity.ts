@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
+} from 'typeorm';
+
+@Entity('message_templates')
+// One template in use per message type and locale
+@Index('UQ_message_templates_type_locale', ['messageType', 'locale'], {
+  unique: true,
+  where: '"deleted_at" IS NULL',
+})
+export class MessageTemplate {
+  @PrimaryGeneratedColumn('uuid', {
+    primaryKeyConstraintName: 'PK_message_templates',
+  })
+  id: string;
+
+  @Column({ name: 'message_type', length: 50 })
+  messageType: string; // Built-in message type or custom occasion kind
+
+  @Column({ length: 35 })
+  locale: string; // BCP 47 language tag, e.g. 'en' or 'pt-BR'
+
+  @Column({ length: 255 })
+  subject: string;
+
+  @Column({ name: 'body_text', type: 'text' })
+  bodyText: string;
+
+  @Column({ name: 'body_html', type: 'text', nullable: true })
+  bodyHtml: string | null; // Values are HTML-escaped when rendered
+
+  @Column({ type: 'int', default: 1 })
+  version: number; // Incremented on every change, see MessageTemplateVersion
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  @DeleteDateColumn({ name: 'deleted_at', nullable: true })
+  deletedAt: Date | null; // Deleted templates are kept for their versions
+}
@@ -0,0 +1,167 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { TemplatesService } from './templates.service';
+import {
+  CreateTemplateDto,
+  ListTemplatesQueryDto,
+  PreviewTemplateDto,
+  TemplatePreviewDto,
+  UpdateTemplateDto,
+} from './dto/template.dto';
+import { MessageTemplate } from './entities/message-template.entity';
+import { MessageTemplateVersion } from './entities/message-template-version.entity';
+
+@ApiTags('templates')
+@Controller('templates')
+export class TemplatesController {
+  constructor(private readonly templatesService: TemplatesService) {}
+
+  /**
+   * POST /templates - Create a template for a message type and locale
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a message template' })
+  @ApiResponse({
+    status: 201,
+    description: 'Template created as version 1',
+    type: MessageTemplate,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or unknown template variable',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A template for this message type and locale exists',
+  })
+  async create(
+    @Body() createTemplateDto: CreateTemplateDto,
+  ): Promise<MessageTemplate> {
+    return this.templatesService.create(createTemplateDto);
+  }
+
+  /**
+   * GET /templates - List templates
+   */
+  @Get()
+  @ApiOperation({ summary: 'List message templates' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of templates',
+    type: [MessageTemplate],
+  })
+  async findAll(
+    @Query() query: ListTemplatesQueryDto,
+  ): Promise<MessageTemplate[]> {
+    return this.templatesService.findAll(query);
+  }
+
+  /**
+   * GET /templates/:id - Get a template by ID
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a message template by ID' })
+  @ApiParam({ name: 'id', description: 'Template UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template found',
+    type: MessageTemplate,
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<MessageTemplate> {
+    return this.templatesService.findOne(id);
+  }
+
+  /**
+   * GET /templates/:id/versions - Get the version history of a template
+   */
+  @Get(':id/versions')
+  @ApiOperation({ summary: 'Get the versions of a message template' })
+  @ApiParam({ name: 'id', description: 'Template UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Versions, the current one first',
+    type: [MessageTemplateVersion],
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async findVersions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<MessageTemplateVersion[]> {
+    return this.templatesService.findVersions(id);
+  }
+
+  /**
+   * PUT /templates/:id - Update a template as a new version
+   */
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a message template' })
+  @ApiParam({ name: 'id', description: 'Template UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Template updated to its next version',
+    type: MessageTemplate,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or unknown template variable',
+  })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+  ): Promise<MessageTemplate> {
+    return this.templatesService.update(id, updateTemplateDto);
+  }
+
+  /**
+   * DELETE /templates/:id - Delete a template
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a message template' })
+  @ApiParam({ name: 'id', description: 'Template UUID' })
+  @ApiResponse({ status: 204, description: 'Template deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.templatesService.remove(id);
+  }
+
+  /**
+   * POST /templates/:id/preview - Render a template as it would be emailed
+   */
+  @Post(':id/preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a message template',
+    description:
+      'Renders the template for a user, or for sample data, and returns the exact body posted to the email provider',
+  })
+  @ApiParam({ name: 'id', description: 'Template UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Rendered email payload',
+    type: TemplatePreviewDto,
+  })
+  @ApiResponse({ status: 404, description: 'Template or user not found' })
+  async preview(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() previewTemplateDto: PreviewTemplateDto,
+  ): Promise<TemplatePreviewDto> {
+    return this.templatesService.preview(id, previewTemplateDto);
+  }
+}
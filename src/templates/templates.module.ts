@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+import { MessageTemplate } from './entities/message-template.entity';
+import { MessageTemplateVersion } from './entities/message-template-version.entity';
+import { UsersModule } from '../users/users.module';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([MessageTemplate, MessageTemplateVersion]),
+    UsersModule,
+    EmailModule,
+  ],
+  controllers: [TemplatesController],
+  providers: [TemplatesService],
+  exports: [TemplatesService],
+})
+export class TemplatesModule {}
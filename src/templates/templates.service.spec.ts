@@ -0,0 +1,401 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TemplatesService } from './templates.service';
+import { MessageTemplate } from './entities/message-template.entity';
+import { MessageTemplateVersion } from './entities/message-template-version.entity';
+import {
+  BirthdayMessage,
+  MessageType,
+} from '../birthday/entities/birthday-message.entity';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { UnsubscribeTokenService } from '../users/unsubscribe-token.service';
+import { EmailExtras, EmailService } from '../email/email.service';
+
+describe('TemplatesService', () => {
+  let service: TemplatesService;
+
+  const entityManager = {
+    save: jest.fn((_entity: unknown, template: MessageTemplate) =>
+      Promise.resolve({ ...template, id: template.id ?? 'template-123' }),
+    ),
+    insert: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((template: Partial<MessageTemplate>) => template),
+    exists: jest.fn(),
+    softRemove: jest.fn(),
+    manager: {
+      transaction: jest.fn(
+        (work: (manager: typeof entityManager) => Promise<unknown>) =>
+          work(entityManager),
+      ),
+    },
+  };
+
+  const mockVersionRepository = {
+    find: jest.fn(),
+  };
+
+  const usersService = {
+    findOne: jest.fn(),
+  };
+
+  const unsubscribeTokenService = {
+    getUnsubscribeUrl: jest.fn(),
+  };
+
+  const emailService = {
+    buildPayload: jest.fn(
+      (email: string, message: string, extras: EmailExtras) => ({
+        email,
+        message,
+        ...extras,
+      }),
+    ),
+  };
+
+  const template = (locale: string, subject: string): MessageTemplate =>
+    ({
+      id: `template-${locale}`,
+      messageType: MessageType.BIRTHDAY,
+      locale,
+      subject,
+      bodyText: `${subject} {{fullName}} turns {{age}}`,
+      bodyHtml: `<p>${subject} {{fullName}}</p>`,
+      version: 2,
+    }) as MessageTemplate;
+
+  const user = {
+    id: 'user-123',
+    firstName: 'João',
+    lastName: 'Silva',
+    email: 'joao@example.com',
+    birthday: '1990-05-15',
+    startDate: '2018-03-01',
+    timezone: 'America/Sao_Paulo',
+    locale: 'pt-BR',
+  } as User;
+
+  const buildMessage = (overrides: Partial<BirthdayMessage> = {}) =>
+    ({
+      id: 'message-123',
+      user,
+      messageType: MessageType.BIRTHDAY,
+      occasionDate: '2024-05-15',
+      occasion: null,
+      ...overrides,
+    }) as BirthdayMessage;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplatesService,
+        {
+          provide: getRepositoryToken(MessageTemplate),
+          useValue: mockRepository,
+        },
+        {
+          provide: getRepositoryToken(MessageTemplateVersion),
+          useValue: mockVersionRepository,
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: UnsubscribeTokenService, useValue: unsubscribeTokenService },
+        { provide: EmailService, useValue: emailService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('en') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TemplatesService>(TemplatesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findForLocale', () => {
+    it('should prefer the most specific locale', async () => {
+      mockRepository.find.mockResolvedValue([
+        template('en', 'Happy birthday'),
+        template('pt', 'Feliz aniversário'),
+      ]);
+
+      const result = await service.findForLocale(MessageType.BIRTHDAY, 'pt-BR');
+
+      expect(result?.subject).toBe('Feliz aniversário');
+    });
+
+    it('should return null when no template is stored', async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      const result = await service.findForLocale('name-day', 'de');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('render', () => {
+    it("should render the template for the user's locale", async () => {
+      mockRepository.find.mockResolvedValue([template('pt-BR', 'Parabéns')]);
+
+      const result = await service.render(buildMessage());
+
+      expect(result).toEqual({
+        subject: 'Parabéns',
+        text: 'Parabéns João Silva turns 34',
+        html: '<p>Parabéns João Silva</p>',
+        templateId: 'template-pt-BR',
+        templateVersion: 2,
+      });
+    });
+
+    it('should count years from the original date of the occasion', async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      const result = await service.render(
+        buildMessage({
+          messageType: MessageType.ANNIVERSARY,
+          occasion: {
+            date: '2018-03-01',
+            template: '{{years}} years, {{firstName}}!',
+          } as Occasion,
+        }),
+      );
+
+      expect(result.subject).toBe('Happy work anniversary, João!');
+      expect(result.text).toBe('6 years, João!');
+      expect(result.templateId).toBeNull();
+      expect(result.templateVersion).toBeNull();
+    });
+
+    it("should use an occasion's own template as the text body", async () => {
+      mockRepository.find.mockResolvedValue([template('en', 'Hi')]);
+
+      const result = await service.render(
+        buildMessage({
+          occasion: { template: 'Happy birthday, {{firstName}}!' } as Occasion,
+        }),
+      );
+
+      expect(result).toEqual({
+        subject: 'Hi',
+        text: 'Happy birthday, João!',
+        html: null,
+        templateId: 'template-en',
+        templateVersion: 2,
+      });
+    });
+  });
+
+  describe('create', () => {
+    const createTemplateDto = {
+      messageType: MessageType.BIRTHDAY,
+      locale: 'pt-BR',
+      subject: 'Feliz aniversário, {{firstName}}!',
+      bodyText: 'Parabéns, {{fullName}}!',
+    };
+
+    it('should save the template and its first version', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.create(createTemplateDto);
+
+      expect(result.version).toBe(1);
+      expect(result.bodyHtml).toBeNull();
+      expect(entityManager.insert).toHaveBeenCalledWith(
+        MessageTemplateVersion,
+        {
+          templateId: 'template-123',
+          version: 1,
+          subject: 'Feliz aniversário, {{firstName}}!',
+          bodyText: 'Parabéns, {{fullName}}!',
+          bodyHtml: null,
+        },
+      );
+    });
+
+    it('should reject a second template for the same type and locale', async () => {
+      mockRepository.findOne.mockResolvedValue(template('pt-BR', 'Parabéns'));
+
+      await expect(service.create(createTemplateDto)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(entityManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should report a template created concurrently as a conflict', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+      entityManager.save.mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key'), { code: '23505' }),
+      );
+
+      await expect(service.create(createTemplateDto)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should reject unknown variables', async () => {
+      await expect(
+        service.create({
+          ...createTemplateDto,
+          bodyText: 'Parabéns, {{nickname}}!',
+        }),
+      ).rejects.toThrow('Unknown template variable(s): nickname');
+      expect(mockRepository.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should save the change as the next version', async () => {
+      entityManager.findOne.mockResolvedValue(template('pt-BR', 'Parabéns'));
+
+      const result = await service.update('template-pt-BR', {
+        subject: 'Feliz aniversário!',
+        bodyHtml: null,
+      });
+
+      expect(result.version).toBe(3);
+      expect(entityManager.findOne).toHaveBeenCalledWith(MessageTemplate, {
+        where: { id: 'template-pt-BR' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(entityManager.insert).toHaveBeenCalledWith(
+        MessageTemplateVersion,
+        {
+          templateId: 'template-pt-BR',
+          version: 3,
+          subject: 'Feliz aniversário!',
+          bodyText: 'Parabéns {{fullName}} turns {{age}}',
+          bodyHtml: null,
+        },
+      );
+    });
+
+    it('should not bump the version of an invalid change', async () => {
+      entityManager.findOne.mockResolvedValue(template('pt-BR', 'Parabéns'));
+
+      await expect(
+        service.update('template-pt-BR', { subject: 'Oi {{nome}}' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(entityManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should not save a version when nothing changed', async () => {
+      const stored = template('pt-BR', 'Parabéns');
+      entityManager.findOne.mockResolvedValue(stored);
+      mockRepository.findOne.mockResolvedValue(stored);
+
+      for (const updateTemplateDto of [{}, { subject: 'Parabéns' }]) {
+        const result = await service.update(
+          'template-pt-BR',
+          updateTemplateDto,
+        );
+
+        expect(result.version).toBe(2);
+      }
+      expect(entityManager.save).not.toHaveBeenCalled();
+      expect(entityManager.insert).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown template', async () => {
+      entityManager.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.update('non-existent', { subject: 'Hi' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findVersions', () => {
+    it('should list the versions of a template, the current one first', async () => {
+      mockRepository.exists.mockResolvedValue(true);
+      mockVersionRepository.find.mockResolvedValue([]);
+
+      await service.findVersions('template-en');
+
+      expect(mockRepository.exists).toHaveBeenCalledWith({
+        where: { id: 'template-en' },
+        withDeleted: true,
+      });
+      expect(mockVersionRepository.find).toHaveBeenCalledWith({
+        where: { templateId: 'template-en' },
+        order: { version: 'DESC' },
+      });
+    });
+  });
+
+  describe('remove', () => {
+    it('should soft-delete the template to keep its versions', async () => {
+      const stored = template('en', 'Hi');
+      mockRepository.findOne.mockResolvedValue(stored);
+
+      await service.remove('template-en');
+
+      expect(mockRepository.softRemove).toHaveBeenCalledWith(stored);
+    });
+  });
+
+  describe('preview', () => {
+    it('should build the email payload for a user', async () => {
+      mockRepository.findOne.mockResolvedValue(template('pt-BR', 'Parabéns'));
+      usersService.findOne.mockResolvedValue(user);
+      unsubscribeTokenService.getUnsubscribeUrl.mockReturnValue(
+        'https://example.com/unsubscribe/token',
+      );
+
+      const result = await service.preview('template-pt-BR', {
+        userId: 'user-123',
+        occasionDate: '2024-05-15',
+      });
+
+      expect(unsubscribeTokenService.getUnsubscribeUrl).toHaveBeenCalledWith(
+        'user-123',
+        MessageType.BIRTHDAY,
+      );
+      expect(result).toEqual({
+        templateId: 'template-pt-BR',
+        templateVersion: 2,
+        userId: 'user-123',
+        payload: {
+          email: 'joao@example.com',
+          message:
+            'Parabéns João Silva turns 34\n\nUnsubscribe: https://example.com/unsubscribe/token',
+          subject: 'Parabéns',
+          html: '<p>Parabéns João Silva</p>\n<p><a href="https://example.com/unsubscribe/token">Unsubscribe</a></p>',
+        },
+      });
+    });
+
+    it('should render sample data without a user', async () => {
+      mockRepository.findOne.mockResolvedValue(template('en', 'Hi'));
+      unsubscribeTokenService.getUnsubscribeUrl.mockReturnValue(null);
+
+      const result = await service.preview('template-en', {
+        occasionDate: '2024-05-15',
+      });
+
+      expect(usersService.findOne).not.toHaveBeenCalled();
+      expect(result.userId).toBeNull();
+      expect(result.payload).toEqual({
+        email: 'jane.doe@example.com',
+        message: 'Hi Jane Doe turns 34',
+        subject: 'Hi',
+        html: '<p>Hi Jane Doe</p>',
+      });
+    });
+  });
+});
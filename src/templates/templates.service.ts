@@ -0,0 +1,384 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { MessageTemplate } from './entities/message-template.entity';
+import { MessageTemplateVersion } from './entities/message-template-version.entity';
+import {
+  CreateTemplateDto,
+  ListTemplatesQueryDto,
+  PreviewTemplateDto,
+  TemplatePreviewDto,
+  UpdateTemplateDto,
+} from './dto/template.dto';
+import {
+  MessageTemplateContent,
+  buildTemplateVariables,
+  findUnknownVariables,
+  getLocaleFallbacks,
+  renderMessageTemplate,
+} from '../messages/template-engine';
+import { MessageType, getDefaultTemplate } from '../messages/message-type.enum';
+import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { Occasion } from '../occasions/entities/occasion.entity';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { UnsubscribeTokenService } from '../users/unsubscribe-token.service';
+import { EmailService } from '../email/email.service';
+import { composeEmail } from '../notifications/channels/email.channel';
+import { LocalDate, todayIn } from '../common/local-date';
+
+interface DatabaseError extends Error {
+  code?: string;
+}
+
+/**
+ * A rendered message and the stored template it was rendered from
+ */
+export interface RenderedMessage extends MessageTemplateContent {
+  templateId: string | null; // null for the built-in template
+  templateVersion: number | null;
+}
+
+/**
+ * Recipient of previews rendered without a user
+ */
+const SAMPLE_USER = Object.assign(new User(), {
+  id: '00000000-0000-0000-0000-000000000000',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  email: 'jane.doe@example.com',
+  birthday: '1990-05-15',
+  birthdayMonth: 5,
+  birthdayDay: 15,
+  startDate: '2018-03-01',
+  timezone: 'UTC',
+  sendTime: null,
+  leapDayPolicy: null,
+  locale: null,
+  phoneNumber: null,
+  notificationChannels: [],
+  optedOut: false,
+  subscriptions: {},
+} satisfies Omit<User, 'fullName' | 'createdAt' | 'updatedAt'>);
+
+@Injectable()
+export class TemplatesService {
+  private readonly logger = new Logger(TemplatesService.name);
+  private readonly defaultLocale: string;
+
+  constructor(
+    @InjectRepository(MessageTemplate)
+    private readonly templateRepository: Repository<MessageTemplate>,
+    @InjectRepository(MessageTemplateVersion)
+    private readonly versionRepository: Repository<MessageTemplateVersion>,
+    private readonly usersService: UsersService,
+    private readonly unsubscribeTokenService: UnsubscribeTokenService,
+    private readonly emailService: EmailService,
+    configService: ConfigService,
+  ) {
+    this.defaultLocale =
+      configService.get<string>('templates.defaultLocale') ?? 'en';
+  }
+
+  /**
+   * Find templates, optionally of one message type or locale
+   */
+  async findAll(query: ListTemplatesQueryDto): Promise<MessageTemplate[]> {
+    return this.templateRepository.find({
+      where: {
+        ...(query.messageType ? { messageType: query.messageType } : {}),
+        ...(query.locale ? { locale: query.locale } : {}),
+      },
+      order: { messageType: 'ASC', locale: 'ASC' },
+    });
+  }
+
+  /**
+   * Find a template by ID
+   */
+  async findOne(id: string): Promise<MessageTemplate> {
+    const template = await this.templateRepository.findOne({ where: { id } });
+    if (!template) {
+      throw new NotFoundException(`Template with ID ${id} not found`);
+    }
+    return template;
+  }
+
+  /**
+   * Find every version of a template, the current one first
+   * Versions of deleted templates stay available, since messages refer to them
+   */
+  async findVersions(id: string): Promise<MessageTemplateVersion[]> {
+    const exists = await this.templateRepository.exists({
+      where: { id },
+      withDeleted: true,
+    });
+    if (!exists) {
+      throw new NotFoundException(`Template with ID ${id} not found`);
+    }
+    return this.versionRepository.find({
+      where: { templateId: id },
+      order: { version: 'DESC' },
+    });
+  }
+
+  /**
+   * Create the template of a message type for a locale as version 1
+   */
+  async create(createTemplateDto: CreateTemplateDto): Promise<MessageTemplate> {
+    const { messageType, locale } = createTemplateDto;
+    this.assertKnownVariables(createTemplateDto);
+
+    const existing = await this.templateRepository.findOne({
+      where: { messageType, locale },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A ${messageType} template for locale ${locale} already exists`,
+      );
+    }
+
+    const template = this.templateRepository.create({
+      ...createTemplateDto,
+      bodyHtml: createTemplateDto.bodyHtml ?? null,
+      version: 1,
+    });
+    let savedTemplate: MessageTemplate;
+    try {
+      savedTemplate = await this.templateRepository.manager.transaction(
+        (manager) => this.saveVersion(manager, template),
+      );
+    } catch (error: unknown) {
+      // Created concurrently for the same type and locale
+      if ((error as DatabaseError).code === '23505') {
+        throw new ConflictException(
+          `A ${messageType} template for locale ${locale} already exists`,
+        );
+      }
+      throw error;
+    }
+    this.logger.log(
+      `Created ${messageType} template ${savedTemplate.id} for locale ${locale}`,
+    );
+
+    return savedTemplate;
+  }
+
+  /**
+   * Update a template, which makes the change its next version
+   * The template row stays locked until the version is saved, so concurrent
+   * updates get consecutive versions
+   */
+  async update(
+    id: string,
+    updateTemplateDto: UpdateTemplateDto,
+  ): Promise<MessageTemplate> {
+    const updatedTemplate = await this.templateRepository.manager.transaction(
+      async (manager: EntityManager) => {
+        const template = await manager.findOne(MessageTemplate, {
+          where: { id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!template) {
+          throw new NotFoundException(`Template with ID ${id} not found`);
+        }
+
+        // Fields left out of the request are undefined on the DTO instance
+        const changes = Object.fromEntries(
+          Object.entries(updateTemplateDto).filter(
+            ([field, value]) =>
+              value !== undefined &&
+              value !== template[field as keyof UpdateTemplateDto],
+          ),
+        );
+        if (Object.keys(changes).length === 0) {
+          return null;
+        }
+
+        Object.assign(template, changes);
+        this.assertKnownVariables(template);
+        template.version += 1;
+
+        return this.saveVersion(manager, template);
+      },
+    );
+    if (!updatedTemplate) {
+      // Nothing changed, so there is no new version to save
+      return this.findOne(id);
+    }
+    this.logger.log(
+      `Updated template ${id} to version ${updatedTemplate.version}`,
+    );
+
+    return updatedTemplate;
+  }
+
+  /**
+   * Remove a template, which is soft-deleted so that its versions stay
+   * available to the messages rendered with them
+   */
+  async remove(id: string): Promise<void> {
+    const template = await this.findOne(id);
+    await this.templateRepository.softRemove(template);
+    this.logger.log(`Deleted template: ${id}`);
+  }
+
+  /**
+   * Render a message loaded with its user and occasion in the user's locale
+   * An occasion's own template replaces the text body and drops the HTML one
+   */
+  async render(message: BirthdayMessage): Promise<RenderedMessage> {
+    const { user, occasion } = message;
+    const template = await this.findForLocale(message.messageType, user.locale);
+    const content = template
+      ? this.toContent(template)
+      : getDefaultTemplate(message.messageType);
+
+    return {
+      ...this.renderFor(
+        occasion?.template
+          ? { subject: content.subject, text: occasion.template, html: null }
+          : content,
+        user,
+        message.messageType,
+        message.occasionDate,
+        occasion,
+      ),
+      templateId: template?.id ?? null,
+      templateVersion: template?.version ?? null,
+    };
+  }
+
+  /**
+   * Render a template for a user, or for sample data, into the exact body
+   * the email service posts for it, unsubscribe link included
+   */
+  async preview(
+    id: string,
+    previewTemplateDto: PreviewTemplateDto,
+  ): Promise<TemplatePreviewDto> {
+    const template = await this.findOne(id);
+    const user = previewTemplateDto.userId
+      ? await this.usersService.findOne(previewTemplateDto.userId)
+      : SAMPLE_USER;
+
+    const { subject, text, html } = this.renderFor(
+      this.toContent(template),
+      user,
+      template.messageType,
+      previewTemplateDto.occasionDate ?? todayIn(user.timezone),
+    );
+    const email = composeEmail({
+      content: text,
+      html,
+      unsubscribeUrl: this.unsubscribeTokenService.getUnsubscribeUrl(
+        user.id,
+        template.messageType,
+      ),
+    });
+
+    return {
+      templateId: template.id,
+      templateVersion: template.version,
+      userId: previewTemplateDto.userId ?? null,
+      payload: this.emailService.buildPayload(user.email, email.message, {
+        subject,
+        html: email.html,
+      }),
+    };
+  }
+
+  /**
+   * Find the stored template of a message type for a locale
+   * Falls back to the locale's language, then to the default locale
+   * @returns the template, or null when the built-in one applies
+   */
+  async findForLocale(
+    messageType: string,
+    locale: string | null | undefined,
+  ): Promise<MessageTemplate | null> {
+    const locales = getLocaleFallbacks(locale, this.defaultLocale);
+    const templates = await this.templateRepository.find({
+      where: { messageType, locale: In(locales) },
+    });
+
+    for (const candidate of locales) {
+      const template = templates.find((t) => t.locale === candidate);
+      if (template) {
+        return template;
+      }
+    }
+    return null;
+  }
+
+  private renderFor(
+    content: MessageTemplateContent,
+    user: User,
+    messageType: string,
+    occasionDate: LocalDate,
+    occasion?: Occasion | null,
+  ): MessageTemplateContent {
+    // {{years}} counts from the occasion's original date
+    const since =
+      occasion?.date ??
+      ((messageType as MessageType) === MessageType.ANNIVERSARY
+        ? user.startDate
+        : user.birthday);
+
+    return renderMessageTemplate(
+      content,
+      buildTemplateVariables(user, occasionDate, since),
+    );
+  }
+
+  private toContent(template: MessageTemplate): MessageTemplateContent {
+    return {
+      subject: template.subject,
+      text: template.bodyText,
+      html: template.bodyHtml,
+    };
+  }
+
+  /**
+   * Save a template together with a snapshot of its current version
+   */
+  private async saveVersion(
+    manager: EntityManager,
+    template: MessageTemplate,
+  ): Promise<MessageTemplate> {
+    const savedTemplate = await manager.save(MessageTemplate, template);
+    await manager.insert(MessageTemplateVersion, {
+      templateId: savedTemplate.id,
+      version: savedTemplate.version,
+      subject: savedTemplate.subject,
+      bodyText: savedTemplate.bodyText,
+      bodyHtml: savedTemplate.bodyHtml,
+    });
+    return savedTemplate;
+  }
+
+  /**
+   * Reject placeholders that would always render empty, e.g. typos
+   */
+  private assertKnownVariables(
+    template: Pick<MessageTemplate, 'subject' | 'bodyText'> & {
+      bodyHtml?: string | null;
+    },
+  ): void {
+    const unknown = findUnknownVariables(
+      [template.subject, template.bodyText, template.bodyHtml ?? ''].join('\n'),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown template variable(s): ${unknown.join(', ')}`,
+      );
+    }
+  }
+}
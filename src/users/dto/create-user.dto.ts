@@ -2,12 +2,24 @@ import {
   IsString,
   IsNotEmpty,
   IsEmail,
-  IsDateString,
   MaxLength,
   IsOptional,
+  IsEnum,
+  IsPhoneNumber,
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsBoolean,
+  IsLocale,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { IsIANATimezone } from '../../common/validators/timezone.validator';
+import { IsTimeOfDay } from '../../common/validators/time-of-day.validator';
+import { IsLocalDate } from '../../common/validators/local-date.validator';
+import { IsSubscriptions } from '../../common/validators/subscriptions.validator';
+import type { LocalDate } from '../../common/local-date';
+import { LeapDayPolicy } from '../../occasions/leap-day-policy.enum';
+import { NotificationChannelType } from '../../notifications/notification-channel';
+import type { MessageSubscriptions } from '../subscriptions';
 
 export class CreateUserDto {
   @ApiProperty({ example: 'John', description: 'First name of the user' })
@@ -35,9 +47,17 @@ export class CreateUserDto {
     example: '1990-05-15',
     description: 'Birthday in ISO date format (YYYY-MM-DD)',
   })
-  @IsDateString()
+  @IsLocalDate({ notInFuture: true })
   @IsNotEmpty()
-  birthday: string; // ISO date string, e.g., '1990-05-15'
+  birthday: LocalDate; // e.g., '1990-05-15'
+
+  @ApiPropertyOptional({
+    example: '2018-03-01',
+    description: 'Work start date in ISO date format, used for anniversaries',
+  })
+  @IsLocalDate()
+  @IsOptional()
+  startDate?: LocalDate;
 
   @ApiProperty({
     example: 'Asia/Jakarta',
@@ -48,6 +68,74 @@ export class CreateUserDto {
   @MaxLength(100)
   @IsIANATimezone()
   timezone: string; // IANA timezone, e.g., 'America/New_York'
+
+  @ApiPropertyOptional({
+    example: '08:30',
+    description:
+      'Preferred local delivery time in 24-hour HH:mm format (defaults to 09:00)',
+  })
+  @IsOptional()
+  @IsTimeOfDay()
+  sendTime?: string;
+
+  @ApiPropertyOptional({
+    enum: LeapDayPolicy,
+    example: LeapDayPolicy.MAR_1,
+    description:
+      'When Feb 29 occasions are celebrated in common years (defaults to the LEAP_DAY_POLICY setting)',
+  })
+  @IsOptional()
+  @IsEnum(LeapDayPolicy)
+  leapDayPolicy?: LeapDayPolicy;
+
+  @ApiPropertyOptional({
+    example: 'pt-BR',
+    description:
+      'Language tag choosing the message templates (defaults to the DEFAULT_LOCALE setting)',
+  })
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  locale?: string;
+
+  @ApiPropertyOptional({
+    example: '+61412345678',
+    description: 'Phone number in international format, required for SMS',
+  })
+  @IsOptional()
+  @IsPhoneNumber()
+  phoneNumber?: string;
+
+  @ApiPropertyOptional({
+    enum: NotificationChannelType,
+    isArray: true,
+    example: [NotificationChannelType.EMAIL, NotificationChannelType.SMS],
+    description: 'Channels messages go out on (defaults to email)',
+  })
+  @IsOptional()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(NotificationChannelType, { each: true })
+  notificationChannels?: NotificationChannelType[];
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Whether the user opted out of all messages',
+  })
+  @IsOptional()
+  @IsBoolean()
+  optedOut?: boolean;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'boolean' },
+    example: { anniversary: false },
+    description:
+      'Subscription flag per message type; types without a flag are subscribed',
+  })
+  @IsOptional()
+  @IsSubscriptions()
+  subscriptions?: MessageSubscriptions;
 }
 
 export class UpdateUserDto {
@@ -79,9 +167,17 @@ export class UpdateUserDto {
     example: '1990-05-15',
     description: 'Birthday in ISO date format',
   })
-  @IsDateString()
+  @IsLocalDate({ notInFuture: true })
   @IsOptional()
-  birthday?: string;
+  birthday?: LocalDate;
+
+  @ApiPropertyOptional({
+    example: '2018-03-01',
+    description: 'Work start date in ISO date format',
+  })
+  @IsLocalDate()
+  @IsOptional()
+  startDate?: LocalDate;
 
   @ApiPropertyOptional({
     example: 'Asia/Jakarta',
@@ -92,4 +188,74 @@ export class UpdateUserDto {
   @MaxLength(100)
   @IsIANATimezone()
   timezone?: string;
+
+  @ApiPropertyOptional({
+    example: '08:30',
+    description: 'Preferred local delivery time in 24-hour HH:mm format',
+  })
+  @IsOptional()
+  @IsTimeOfDay()
+  sendTime?: string;
+
+  @ApiPropertyOptional({
+    enum: LeapDayPolicy,
+    example: LeapDayPolicy.MAR_1,
+    description: 'When Feb 29 occasions are celebrated in common years',
+  })
+  @IsOptional()
+  @IsEnum(LeapDayPolicy)
+  leapDayPolicy?: LeapDayPolicy;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: 'pt-BR',
+    description:
+      'Language tag choosing the message templates, null for the default locale',
+  })
+  @IsOptional()
+  @IsLocale()
+  @MaxLength(35)
+  locale?: string | null;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    example: '+61412345678',
+    description: 'Phone number in international format, null to remove it',
+  })
+  @IsOptional()
+  @IsPhoneNumber()
+  phoneNumber?: string | null;
+
+  @ApiPropertyOptional({
+    enum: NotificationChannelType,
+    isArray: true,
+    example: [NotificationChannelType.EMAIL, NotificationChannelType.SMS],
+    description: 'Channels messages go out on',
+  })
+  @IsOptional()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(NotificationChannelType, { each: true })
+  notificationChannels?: NotificationChannelType[];
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Whether the user opted out of all messages',
+  })
+  @IsOptional()
+  @IsBoolean()
+  optedOut?: boolean;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'boolean' },
+    example: { anniversary: false },
+    description:
+      'Subscription flags per message type, merged into the current ones',
+  })
+  @IsOptional()
+  @IsSubscriptions()
+  subscriptions?: MessageSubscriptions;
 }
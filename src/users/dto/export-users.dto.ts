@@ -0,0 +1,24 @@
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { UserFileFormat } from './import-users.dto';
+
+export class ExportUsersQueryDto {
+  @ApiPropertyOptional({
+    enum: UserFileFormat,
+    default: UserFileFormat.CSV,
+    description: 'File format of the export',
+  })
+  @IsEnum(UserFileFormat)
+  @IsOptional()
+  format?: UserFileFormat;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: "Include the status of each user's latest message",
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  includeLastMessage?: boolean;
+}
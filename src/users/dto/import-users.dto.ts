@@ -0,0 +1,92 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * File formats supported by the bulk import and export
+ */
+export enum UserFileFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+/**
+ * User fields holding arrays, objects or booleans, written to CSV cells as JSON
+ */
+export const JSON_CSV_COLUMNS: readonly string[] = [
+  'notificationChannels',
+  'optedOut',
+  'subscriptions',
+];
+
+/**
+ * Columns of an export that an import ignores, so exports can be imported
+ */
+export const GENERATED_COLUMNS: readonly string[] = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'lastMessageType',
+  'lastMessageStatus',
+  'lastMessageOccasionDate',
+  'lastMessageScheduledFor',
+  'lastMessageSentAt',
+];
+
+export enum ImportRowStatus {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  REJECTED = 'rejected',
+}
+
+export class ImportUsersQueryDto {
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Validate and report the result without saving anything',
+  })
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
+
+export class ImportUserRowResultDto {
+  @ApiProperty({ example: 1, description: '1-based position of the record' })
+  row: number;
+
+  @ApiPropertyOptional({ example: 'john.doe@example.com' })
+  email?: string;
+
+  @ApiProperty({ enum: ImportRowStatus })
+  status: ImportRowStatus;
+
+  @ApiPropertyOptional({ description: 'ID of the created or updated user' })
+  userId?: string;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['timezone must be a valid IANA timezone'],
+    description: 'Reasons the record was rejected',
+  })
+  errors?: string[];
+}
+
+export class ImportUsersReportDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty({ example: 3 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  created: number;
+
+  @ApiProperty({ example: 1 })
+  updated: number;
+
+  @ApiProperty({ example: 1 })
+  rejected: number;
+
+  @ApiProperty({ type: [ImportUserRowResultDto] })
+  rows: ImportUserRowResultDto[];
+}
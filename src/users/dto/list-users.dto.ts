@@ -0,0 +1,95 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { Paginated } from '../../common/pagination';
+import { User } from '../entities/user.entity';
+
+export enum UserSortField {
+  CREATED_AT = 'createdAt',
+  EMAIL = 'email',
+  LAST_NAME = 'lastName',
+  BIRTHDAY = 'birthday',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+export class ListUsersQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    example: 'Asia/Jakarta',
+    description: 'Only users in this IANA timezone',
+  })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    example: 5,
+    minimum: 1,
+    maximum: 12,
+    description: 'Only users with a birthday in this month',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  @IsOptional()
+  birthdayMonth?: number;
+
+  @ApiPropertyOptional({
+    example: 'doe',
+    description: 'Case-insensitive search in email, first and last name',
+  })
+  @IsString()
+  @MaxLength(255)
+  @IsOptional()
+  search?: string;
+
+  @ApiPropertyOptional({
+    example: '2024-01-01T00:00:00Z',
+    description: 'Only users created after this instant',
+  })
+  @IsDateString()
+  @IsOptional()
+  createdAfter?: string;
+
+  @ApiPropertyOptional({
+    enum: UserSortField,
+    default: UserSortField.CREATED_AT,
+  })
+  @IsEnum(UserSortField)
+  @IsOptional()
+  sortBy?: UserSortField;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.ASC })
+  @IsEnum(SortOrder)
+  @IsOptional()
+  sortOrder?: SortOrder;
+}
+
+export class PaginatedUsersDto implements Paginated<User> {
+  @ApiProperty({ type: [User] })
+  data: User[];
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page, null on the last page',
+  })
+  nextCursor: string | null;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
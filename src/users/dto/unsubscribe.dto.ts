@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnsubscribeResultDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  userId: string;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    example: 'birthday',
+    description: 'Message type unsubscribed from, null for all messages',
+  })
+  messageType: string | null;
+
+  @ApiProperty({
+    example: 'You will no longer receive birthday messages',
+  })
+  message: string;
+}
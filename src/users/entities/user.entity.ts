@@ -6,6 +6,11 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import { LeapDayPolicy } from '../../occasions/leap-day-policy.enum';
+import { localDateTransformer } from '../../common/local-date';
+import type { LocalDate } from '../../common/local-date';
+import { NotificationChannelType } from '../../notifications/notification-channel';
+import type { MessageSubscriptions } from '../subscriptions';
 
 @Entity('users')
 @Index(['birthdayMonth', 'birthdayDay', 'timezone']) // Index for fast birthday lookups
@@ -22,8 +27,8 @@ export class User {
   @Column({ name: 'email', length: 255, unique: true })
   email: string;
 
-  @Column({ type: 'date' })
-  birthday: Date;
+  @Column({ type: 'date', transformer: localDateTransformer })
+  birthday: LocalDate;
 
   @Column({ name: 'birthday_month', type: 'int' })
   birthdayMonth: number;
@@ -31,9 +36,49 @@ export class User {
   @Column({ name: 'birthday_day', type: 'int' })
   birthdayDay: number;
 
+  @Column({
+    name: 'start_date',
+    type: 'date',
+    nullable: true,
+    transformer: localDateTransformer,
+  })
+  startDate: LocalDate | null; // Hire/start date used for work anniversaries
+
   @Column({ length: 100 })
   timezone: string; // e.g., 'America/New_York', 'Australia/Melbourne'
 
+  @Column({ name: 'send_time', type: 'varchar', length: 5, nullable: true })
+  sendTime: string | null; // Preferred local delivery time (HH:mm), defaults to scheduler.defaultSendTime
+
+  @Column({
+    name: 'leap_day_policy',
+    type: 'enum',
+    enum: LeapDayPolicy,
+    nullable: true,
+  })
+  leapDayPolicy: LeapDayPolicy | null; // Overrides scheduler.leapDayPolicy for Feb 29 occasions
+
+  @Column({ type: 'varchar', length: 35, nullable: true })
+  locale: string | null; // BCP 47 tag choosing message templates, defaults to templates.defaultLocale
+
+  @Column({ name: 'phone_number', type: 'varchar', length: 32, nullable: true })
+  phoneNumber: string | null; // E.164 number used by the SMS channel
+
+  @Column({
+    name: 'notification_channels',
+    type: 'enum',
+    enum: NotificationChannelType,
+    array: true,
+    default: [NotificationChannelType.EMAIL],
+  })
+  notificationChannels: NotificationChannelType[]; // Channels every message to the user goes out on
+
+  @Column({ name: 'opted_out', default: false })
+  optedOut: boolean; // Opted out of all messages
+
+  @Column({ type: 'jsonb', default: () => "'{}'" })
+  subscriptions: MessageSubscriptions; // Per message type opt-outs, e.g. { anniversary: false }
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
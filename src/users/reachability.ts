@@ -0,0 +1,18 @@
+import type { User } from './entities/user.entity';
+import { NotificationChannelType } from '../notifications/notification-channel';
+
+/**
+ * Why a user could not be reached on the channels they chose, or null when
+ * they can
+ */
+export function findUnreachableReason(
+  user: Pick<User, 'notificationChannels' | 'phoneNumber'>,
+): string | null {
+  if (
+    user.notificationChannels?.includes(NotificationChannelType.SMS) &&
+    !user.phoneNumber
+  ) {
+    return 'phoneNumber is required for SMS notifications';
+  }
+  return null;
+}
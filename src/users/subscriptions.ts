@@ -0,0 +1,16 @@
+import type { User } from './entities/user.entity';
+
+/**
+ * Subscription flag per message type; types without a flag are subscribed
+ */
+export type MessageSubscriptions = Record<string, boolean>;
+
+/**
+ * Check if a user still wants to receive messages of a type
+ */
+export function isSubscribed(
+  user: Pick<User, 'optedOut' | 'subscriptions'>,
+  messageType: string,
+): boolean {
+  return !user.optedOut && user.subscriptions?.[messageType] !== false;
+}
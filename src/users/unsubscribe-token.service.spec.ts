@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { UnsubscribeTokenService } from './unsubscribe-token.service';
+
+describe('UnsubscribeTokenService', () => {
+  const userId = '123e4567-e89b-12d3-a456-426614174000';
+  let config: Record<string, string>;
+
+  const createService = async (): Promise<UnsubscribeTokenService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UnsubscribeTokenService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    return module.get<UnsubscribeTokenService>(UnsubscribeTokenService);
+  };
+
+  beforeEach(() => {
+    config = {
+      'unsubscribe.secret': 'test-secret',
+      'unsubscribe.publicUrl': 'https://birthdays.example.com/',
+    };
+  });
+
+  it('should read back the payload of a token it created', async () => {
+    const service = await createService();
+
+    expect(service.verify(service.create(userId, 'birthday'))).toEqual({
+      userId,
+      messageType: 'birthday',
+    });
+    expect(service.verify(service.create(userId))).toEqual({
+      userId,
+      messageType: null,
+    });
+  });
+
+  it('should reject tampered tokens', async () => {
+    const service = await createService();
+    const [, signature] = service.create(userId, 'birthday').split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ u: 'another-user', t: 'birthday' }),
+    ).toString('base64url');
+
+    expect(() => service.verify(`${forged}.${signature}`)).toThrow(
+      BadRequestException,
+    );
+    expect(() => service.verify('not-a-token')).toThrow(BadRequestException);
+  });
+
+  it('should reject tokens signed with another secret', async () => {
+    const token = (await createService()).create(userId);
+    config['unsubscribe.secret'] = 'rotated-secret';
+
+    const service = await createService();
+
+    expect(() => service.verify(token)).toThrow(BadRequestException);
+  });
+
+  it('should build unsubscribe links from the public URL', async () => {
+    const service = await createService();
+
+    const url = service.getUnsubscribeUrl(userId, 'birthday');
+
+    expect(url).toMatch(
+      /^https:\/\/birthdays\.example\.com\/unsubscribe\/[\w-]+\.[\w-]+$/,
+    );
+  });
+
+  it('should be disabled without a secret', async () => {
+    config['unsubscribe.secret'] = '';
+    const service = await createService();
+
+    expect(service.getUnsubscribeUrl(userId, 'birthday')).toBeNull();
+    expect(() => service.verify('a.b')).toThrow(ServiceUnavailableException);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  Injectable,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * What an unsubscribe token opts a user out of
+ */
+export interface UnsubscribeTokenPayload {
+  userId: string;
+  messageType: string | null; // null for all messages
+}
+
+/**
+ * Creates and verifies the HMAC-signed tokens of unsubscribe links
+ * A token is the base64url JSON payload and its SHA-256 signature joined by a dot
+ * Tokens do not expire, so links in old emails keep working
+ */
+@Injectable()
+export class UnsubscribeTokenService {
+  private readonly secret: string;
+  private readonly publicUrl: string;
+
+  constructor(configService: ConfigService) {
+    this.secret = configService.get<string>('unsubscribe.secret') ?? '';
+    this.publicUrl = (
+      configService.get<string>('unsubscribe.publicUrl') ?? ''
+    ).replace(/\/+$/, '');
+  }
+
+  create(userId: string, messageType: string | null = null): string {
+    this.assertEnabled();
+    const body = Buffer.from(
+      JSON.stringify({ u: userId, t: messageType }),
+    ).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  /**
+   * Read the payload of a token signed with the configured secret
+   * @throws BadRequestException if the token is malformed or its signature is invalid
+   */
+  verify(token: string): UnsubscribeTokenPayload {
+    this.assertEnabled();
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new BadRequestException('Invalid unsubscribe token');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const actual = Buffer.from(signature);
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new BadRequestException('Invalid unsubscribe token');
+    }
+
+    try {
+      const { u, t } = JSON.parse(
+        Buffer.from(body, 'base64url').toString('utf8'),
+      ) as { u: unknown; t: unknown };
+      if (typeof u !== 'string' || (t !== null && typeof t !== 'string')) {
+        throw new Error('Unexpected payload');
+      }
+      return { userId: u, messageType: t };
+    } catch {
+      throw new BadRequestException('Invalid unsubscribe token');
+    }
+  }
+
+  /**
+   * Build the link that opts a user out of a message type
+   * @returns the link, or null when unsubscribe links are not configured
+   */
+  getUnsubscribeUrl(userId: string, messageType: string): string | null {
+    if (!this.secret || !this.publicUrl) {
+      return null;
+    }
+    return `${this.publicUrl}/unsubscribe/${this.create(userId, messageType)}`;
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  private assertEnabled(): void {
+    if (!this.secret) {
+      throw new ServiceUnavailableException(
+        'Unsubscribe links require UNSUBSCRIBE_SECRET',
+      );
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { UnsubscribeTokenService } from './unsubscribe-token.service';
+import { UnsubscribeResultDto } from './dto/unsubscribe.dto';
+
+@ApiTags('users')
+@Controller('unsubscribe')
+export class UnsubscribeController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly unsubscribeTokenService: UnsubscribeTokenService,
+  ) {}
+
+  /**
+   * GET /unsubscribe/:token - Opt out through the link sent in emails
+   */
+  @Get(':token')
+  @ApiOperation({
+    summary: 'Unsubscribe with a signed token',
+    description:
+      'Opts the user out of the message type in the token, or of all messages',
+  })
+  @ApiParam({ name: 'token', description: 'Signed unsubscribe token' })
+  @ApiResponse({
+    status: 200,
+    description: 'User unsubscribed',
+    type: UnsubscribeResultDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid unsubscribe token' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({
+    status: 503,
+    description: 'Unsubscribe links are not configured',
+  })
+  async unsubscribe(
+    @Param('token') token: string,
+  ): Promise<UnsubscribeResultDto> {
+    const { userId, messageType } = this.unsubscribeTokenService.verify(token);
+    await this.usersService.unsubscribe(userId, messageType);
+
+    return {
+      userId,
+      messageType,
+      message: messageType
+        ? `You will no longer receive ${messageType} messages`
+        : 'You will no longer receive any messages',
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MoreThan } from 'typeorm';
+import { UsersExportService } from './users-export.service';
+import { User } from './entities/user.entity';
+import {
+  BirthdayMessage,
+  MessageStatus,
+} from '../birthday/entities/birthday-message.entity';
+import { UserFileFormat } from './dto/import-users.dto';
+import { NotificationChannelType } from '../notifications/notification-channel';
+
+describe('UsersExportService', () => {
+  let service: UsersExportService;
+
+  const createUser = (id: string, overrides: Partial<User> = {}): User =>
+    ({
+      id,
+      firstName: 'John',
+      lastName: 'Doe',
+      email: `${id}@example.com`,
+      birthday: '1990-05-15',
+      startDate: null,
+      timezone: 'America/New_York',
+      sendTime: null,
+      leapDayPolicy: null,
+      locale: null,
+      phoneNumber: null,
+      notificationChannels: [],
+      optedOut: false,
+      subscriptions: {},
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-02T00:00:00Z'),
+      ...overrides,
+    }) as User;
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockQueryBuilder = {
+    distinctOn: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    addOrderBy: jest.fn().mockReturnThis(),
+    getMany: jest.fn(),
+  };
+
+  const mockMessageRepository = {
+    createQueryBuilder: jest.fn(() => mockQueryBuilder),
+  };
+
+  const collect = async (lines: AsyncGenerator<string>): Promise<string[]> => {
+    const result: string[] = [];
+    for await (const line of lines) {
+      result.push(line);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersExportService,
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        {
+          provide: getRepositoryToken(BirthdayMessage),
+          useValue: mockMessageRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<UsersExportService>(UsersExportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should export users as CSV with a header row', async () => {
+    mockUserRepository.find.mockResolvedValueOnce([
+      createUser('user-1', {
+        lastName: 'Doe, Jr.',
+        locale: 'pt-BR',
+        phoneNumber: '+14155550100',
+        notificationChannels: [
+          NotificationChannelType.EMAIL,
+          NotificationChannelType.SMS,
+        ],
+        subscriptions: { anniversary: false },
+      }),
+    ]);
+
+    const lines = await collect(service.export(UserFileFormat.CSV));
+
+    expect(lines).toEqual([
+      'id,firstName,lastName,email,birthday,startDate,timezone,sendTime,leapDayPolicy,locale,phoneNumber,notificationChannels,optedOut,subscriptions,createdAt,updatedAt\n',
+      'user-1,John,"Doe, Jr.",user-1@example.com,1990-05-15,,America/New_York,,,pt-BR,+14155550100,"[""email"",""sms""]",false,"{""anniversary"":false}",2024-01-01T00:00:00.000Z,2024-01-02T00:00:00.000Z\n',
+    ]);
+    expect(mockMessageRepository.createQueryBuilder).not.toHaveBeenCalled();
+  });
+
+  it('should export users as NDJSON with their last message', async () => {
+    mockUserRepository.find.mockResolvedValueOnce([
+      createUser('user-1'),
+      createUser('user-2'),
+    ]);
+    mockQueryBuilder.getMany.mockResolvedValueOnce([
+      {
+        userId: 'user-1',
+        messageType: 'birthday',
+        status: MessageStatus.SENT,
+        occasionDate: '2024-05-15',
+        scheduledFor: new Date('2024-05-15T13:00:00Z'),
+        sentAt: new Date('2024-05-15T13:00:05Z'),
+      },
+    ]);
+
+    const lines = await collect(service.export(UserFileFormat.NDJSON, true));
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(
+      expect.objectContaining({
+        id: 'user-1',
+        notificationChannels: [],
+        optedOut: false,
+        subscriptions: {},
+        lastMessageStatus: 'sent',
+        lastMessageSentAt: '2024-05-15T13:00:05.000Z',
+      }),
+    );
+    expect(JSON.parse(lines[1])).toEqual(
+      expect.objectContaining({ id: 'user-2', lastMessageStatus: null }),
+    );
+    expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+      'message.userId IN (:...userIds)',
+      { userIds: ['user-1', 'user-2'] },
+    );
+  });
+
+  it('should read users page by page after the last exported ID', async () => {
+    const fullPage = Array.from({ length: 1000 }, (_, i) =>
+      createUser(`user-${String(i).padStart(4, '0')}`),
+    );
+    mockUserRepository.find
+      .mockResolvedValueOnce(fullPage)
+      .mockResolvedValueOnce([createUser('user-1000')]);
+
+    const lines = await collect(service.export(UserFileFormat.NDJSON));
+
+    expect(lines).toHaveLength(1001);
+    expect(mockUserRepository.find).toHaveBeenCalledTimes(2);
+    expect(mockUserRepository.find).toHaveBeenLastCalledWith({
+      where: { id: MoreThan('user-0999') },
+      order: { id: 'ASC' },
+      take: 1000,
+    });
+  });
+});
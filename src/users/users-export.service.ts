@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import { User } from './entities/user.entity';
+import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { JSON_CSV_COLUMNS, UserFileFormat } from './dto/import-users.dto';
+import { formatCsvRow } from '../common/csv';
+
+const EXPORT_PAGE_SIZE = 1000;
+
+const USER_COLUMNS = [
+  'id',
+  'firstName',
+  'lastName',
+  'email',
+  'birthday',
+  'startDate',
+  'timezone',
+  'sendTime',
+  'leapDayPolicy',
+  'locale',
+  'phoneNumber',
+  'notificationChannels',
+  'optedOut',
+  'subscriptions',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const LAST_MESSAGE_COLUMNS = [
+  'lastMessageType',
+  'lastMessageStatus',
+  'lastMessageOccasionDate',
+  'lastMessageScheduledFor',
+  'lastMessageSentAt',
+] as const;
+
+type ExportValue =
+  | string
+  | number
+  | boolean
+  | null
+  | string[]
+  | Record<string, boolean>;
+
+@Injectable()
+export class UsersExportService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(BirthdayMessage)
+    private readonly messageRepository: Repository<BirthdayMessage>,
+  ) {}
+
+  /**
+   * Stream all users as CSV or NDJSON lines
+   * Users are read page by page in ID order (keyset pagination), so the table
+   * is never loaded into memory at once
+   */
+  async *export(
+    format: UserFileFormat,
+    includeLastMessage: boolean = false,
+  ): AsyncGenerator<string> {
+    const columns: readonly string[] = includeLastMessage
+      ? [...USER_COLUMNS, ...LAST_MESSAGE_COLUMNS]
+      : USER_COLUMNS;
+
+    if (format === UserFileFormat.CSV) {
+      yield `${formatCsvRow([...columns])}\n`;
+    }
+
+    let lastId: string | undefined;
+    for (;;) {
+      const users = await this.userRepository.find({
+        where: lastId ? { id: MoreThan(lastId) } : {},
+        order: { id: 'ASC' },
+        take: EXPORT_PAGE_SIZE,
+      });
+
+      const lastMessages = includeLastMessage
+        ? await this.findLastMessages(users.map((user) => user.id))
+        : new Map<string, BirthdayMessage>();
+
+      for (const user of users) {
+        const record = this.toRecord(user, lastMessages.get(user.id));
+        yield format === UserFileFormat.CSV
+          ? `${formatCsvRow(columns.map((column) => this.toCsvValue(column, record[column])))}\n`
+          : `${JSON.stringify(this.pick(record, columns))}\n`;
+      }
+
+      if (users.length < EXPORT_PAGE_SIZE) {
+        return;
+      }
+      lastId = users[users.length - 1].id;
+    }
+  }
+
+  /**
+   * Find the most recently scheduled message of each user
+   */
+  private async findLastMessages(
+    userIds: string[],
+  ): Promise<Map<string, BirthdayMessage>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const messages = await this.messageRepository
+      .createQueryBuilder('message')
+      .distinctOn(['message.userId'])
+      .where('message.userId IN (:...userIds)', { userIds })
+      .orderBy('message.userId')
+      .addOrderBy('message.scheduledFor', 'DESC')
+      .getMany();
+
+    return new Map(messages.map((message) => [message.userId, message]));
+  }
+
+  private toRecord(
+    user: User,
+    lastMessage?: BirthdayMessage,
+  ): Record<string, ExportValue> {
+    return {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      birthday: user.birthday,
+      startDate: user.startDate,
+      timezone: user.timezone,
+      sendTime: user.sendTime,
+      leapDayPolicy: user.leapDayPolicy,
+      locale: user.locale,
+      phoneNumber: user.phoneNumber,
+      notificationChannels: user.notificationChannels,
+      optedOut: user.optedOut,
+      subscriptions: user.subscriptions,
+      createdAt: user.createdAt.toISOString(),
+      updatedAt: user.updatedAt.toISOString(),
+      lastMessageType: lastMessage?.messageType ?? null,
+      lastMessageStatus: lastMessage?.status ?? null,
+      lastMessageOccasionDate: lastMessage?.occasionDate ?? null,
+      lastMessageScheduledFor: lastMessage?.scheduledFor.toISOString() ?? null,
+      lastMessageSentAt: lastMessage?.sentAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * CSV has no arrays, objects or booleans, so those cells hold JSON
+   */
+  private toCsvValue(
+    column: string,
+    value: ExportValue,
+  ): string | number | null {
+    return value !== null && JSON_CSV_COLUMNS.includes(column)
+      ? JSON.stringify(value)
+      : (value as string | number | null);
+  }
+
+  private pick(
+    record: Record<string, ExportValue>,
+    columns: readonly string[],
+  ): Record<string, ExportValue> {
+    return Object.fromEntries(
+      columns.map((column) => [column, record[column]]),
+    );
+  }
+}
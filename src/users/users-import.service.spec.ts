@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { getDataSourceToken } from '@nestjs/typeorm';
+import { UsersImportService } from './users-import.service';
+import { User } from './entities/user.entity';
+import { OccasionsService } from '../occasions/occasions.service';
+import { UserFileFormat, ImportRowStatus } from './dto/import-users.dto';
+
+describe('UsersImportService', () => {
+  let service: UsersImportService;
+
+  const existingUser: Partial<User> = {
+    id: 'user-existing',
+    firstName: 'Jane',
+    lastName: 'Smith',
+    email: 'jane@example.com',
+    birthday: '1985-01-01',
+    birthdayMonth: 1,
+    birthdayDay: 1,
+    timezone: 'Asia/Jakarta',
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+    create: jest.fn((fields: Partial<User>) => ({ ...fields }) as User),
+    save: jest.fn((user: User) =>
+      Promise.resolve(Object.assign(user, { id: user.id ?? 'user-new' })),
+    ),
+  };
+
+  const mockManager = {
+    getRepository: jest.fn(() => mockUserRepository),
+  };
+
+  const mockDataSource = {
+    transaction: jest.fn(
+      (work: (manager: typeof mockManager) => Promise<unknown>) =>
+        work(mockManager),
+    ),
+  };
+
+  const mockOccasionsService = {
+    syncProfileOccasions: jest.fn(),
+  };
+
+  const csv = [
+    'firstName,lastName,email,birthday,timezone,sendTime',
+    'John,Doe,john@example.com,1990-05-15,America/New_York,08:30',
+    'Jane,Doe,jane@example.com,1985-01-01,Asia/Jakarta,',
+    'Bad,Zone,bad@example.com,1990-05-15,Mars/Olympus,',
+  ].join('\n');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersImportService,
+        { provide: getDataSourceToken(), useValue: mockDataSource },
+        { provide: OccasionsService, useValue: mockOccasionsService },
+      ],
+    }).compile();
+
+    service = module.get<UsersImportService>(UsersImportService);
+    mockUserRepository.find.mockResolvedValue([{ ...existingUser }]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create, update and reject rows from CSV', async () => {
+    const report = await service.import(csv, UserFileFormat.CSV);
+
+    expect(report).toEqual(
+      expect.objectContaining({
+        dryRun: false,
+        total: 3,
+        created: 1,
+        updated: 1,
+        rejected: 1,
+      }),
+    );
+    expect(report.rows[0]).toEqual({
+      row: 1,
+      email: 'john@example.com',
+      status: ImportRowStatus.CREATED,
+      userId: 'user-new',
+    });
+    expect(report.rows[1]).toEqual(
+      expect.objectContaining({
+        row: 2,
+        status: ImportRowStatus.UPDATED,
+        userId: 'user-existing',
+      }),
+    );
+    expect(report.rows[2]).toEqual(
+      expect.objectContaining({
+        row: 3,
+        status: ImportRowStatus.REJECTED,
+        errors: [expect.stringContaining('IANA timezone') as string],
+      }),
+    );
+    expect(mockUserRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'john@example.com',
+        sendTime: '08:30',
+        birthdayMonth: 5,
+        birthdayDay: 15,
+      }),
+    );
+    expect(mockOccasionsService.syncProfileOccasions).toHaveBeenCalledTimes(2);
+    expect(mockOccasionsService.syncProfileOccasions).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'jane@example.com' }),
+      mockManager,
+    );
+  });
+
+  it('should not save anything in dry-run mode', async () => {
+    const report = await service.import(csv, UserFileFormat.CSV, true);
+
+    expect(report).toEqual(
+      expect.objectContaining({ dryRun: true, created: 1, updated: 1 }),
+    );
+    expect(mockUserRepository.save).not.toHaveBeenCalled();
+    expect(mockOccasionsService.syncProfileOccasions).not.toHaveBeenCalled();
+  });
+
+  it('should import NDJSON and reject malformed lines', async () => {
+    const ndjson = [
+      JSON.stringify({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+        birthday: '1990-05-15',
+        timezone: 'America/New_York',
+      }),
+      '{not json',
+      '',
+      '["an", "array"]',
+    ].join('\n');
+
+    const report = await service.import(ndjson, UserFileFormat.NDJSON);
+
+    expect(report.created).toBe(1);
+    expect(report.rows.slice(1)).toEqual([
+      {
+        row: 2,
+        status: ImportRowStatus.REJECTED,
+        errors: ['Line is not valid JSON'],
+      },
+      {
+        row: 3,
+        status: ImportRowStatus.REJECTED,
+        errors: ['Line must be a JSON object'],
+      },
+    ]);
+  });
+
+  it('should reject users who cannot be reached on their channels', async () => {
+    const ndjson = [
+      JSON.stringify({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john@example.com',
+        birthday: '1990-05-15',
+        timezone: 'America/New_York',
+        notificationChannels: ['email', 'sms'],
+      }),
+      JSON.stringify({
+        firstName: 'Jane',
+        lastName: 'Smith',
+        email: 'jane@example.com',
+        birthday: '1985-01-01',
+        timezone: 'Asia/Jakarta',
+        notificationChannels: ['sms'],
+      }),
+    ].join('\n');
+    mockUserRepository.find.mockResolvedValue([
+      { ...existingUser, phoneNumber: '+6281234567890' },
+    ]);
+
+    const report = await service.import(ndjson, UserFileFormat.NDJSON);
+
+    expect(report.rows[0]).toEqual({
+      row: 1,
+      email: 'john@example.com',
+      status: ImportRowStatus.REJECTED,
+      errors: ['phoneNumber is required for SMS notifications'],
+    });
+    expect(report.rows[1].errors).toBeUndefined();
+    expect(report.rows[1].status).toBe(ImportRowStatus.UPDATED);
+    expect(mockUserRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('should import an export with its JSON cells', async () => {
+    const report = await service.import(
+      [
+        'id,firstName,lastName,email,birthday,timezone,phoneNumber,notificationChannels,optedOut,subscriptions,createdAt',
+        'user-1,John,Doe,john@example.com,1990-05-15,America/New_York,+14155550100,"[""email"",""sms""]",true,"{""anniversary"":false}",2024-01-01T00:00:00.000Z',
+        'user-2,Jim,Doe,jim@example.com,1990-05-15,America/New_York,,[email,false,,',
+      ].join('\n'),
+      UserFileFormat.CSV,
+    );
+
+    expect(report.rows[0].status).toBe(ImportRowStatus.CREATED);
+    expect(mockUserRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        notificationChannels: ['email', 'sms'],
+        optedOut: true,
+        subscriptions: { anniversary: false },
+      }),
+    );
+    expect(mockUserRepository.create.mock.calls[0][0]).not.toHaveProperty('id');
+    expect(report.rows[1].errors).toEqual([
+      'notificationChannels must be valid JSON',
+    ]);
+  });
+
+  it('should reject duplicate emails and unknown columns', async () => {
+    const report = await service.import(
+      [
+        'firstName,lastName,email,birthday,timezone,role',
+        'John,Doe,john@example.com,1990-05-15,America/New_York,',
+        'John,Doe,john@example.com,1990-05-15,America/New_York,',
+        'Jim,Doe,jim@example.com,1990-05-15,America/New_York,admin',
+      ].join('\n'),
+      UserFileFormat.CSV,
+    );
+
+    expect(report.rows[1].errors).toEqual(['email already appears in row 1']);
+    expect(report.rows[2].errors).toEqual(['property role should not exist']);
+  });
+
+  it('should reject rows with a wrong number of columns', async () => {
+    const report = await service.import(
+      'firstName,lastName\nJohn,Doe,extra',
+      UserFileFormat.CSV,
+    );
+
+    expect(report.rows[0].errors).toEqual(['Expected 2 columns but found 3']);
+  });
+
+  it('should report rows of a failed batch as rejected', async () => {
+    mockDataSource.transaction.mockRejectedValueOnce(
+      new Error('connection lost'),
+    );
+
+    const report = await service.import(csv, UserFileFormat.CSV);
+
+    expect(report.rejected).toBe(3);
+    expect(report.rows[0].errors).toEqual(['Batch failed: connection lost']);
+  });
+
+  it('should throw BadRequestException for an empty import', async () => {
+    await expect(service.import('', UserFileFormat.CSV)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
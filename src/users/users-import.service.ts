@@ -0,0 +1,282 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource, In } from 'typeorm';
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, validate } from 'class-validator';
+import { User } from './entities/user.entity';
+import { CreateUserDto } from './dto/create-user.dto';
+import {
+  UserFileFormat,
+  GENERATED_COLUMNS,
+  JSON_CSV_COLUMNS,
+  ImportRowStatus,
+  ImportUserRowResultDto,
+  ImportUsersReportDto,
+} from './dto/import-users.dto';
+import { findUnreachableReason } from './reachability';
+import { OccasionsService } from '../occasions/occasions.service';
+import { getMonthDay } from '../common/local-date';
+import { parseCsv } from '../common/csv';
+
+const IMPORT_BATCH_SIZE = 500;
+
+interface ParsedRecord {
+  row: number; // 1-based position of the record, excluding the CSV header
+  record?: Record<string, unknown>;
+  error?: string;
+}
+
+interface ValidRecord {
+  row: number;
+  dto: CreateUserDto;
+}
+
+@Injectable()
+export class UsersImportService {
+  private readonly logger = new Logger(UsersImportService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly occasionsService: OccasionsService,
+  ) {}
+
+  /**
+   * Import users from CSV or NDJSON, upserting them by email
+   * Records are validated like CreateUserDto and saved in batches, each batch
+   * inside its own transaction; in dry-run mode nothing is saved
+   */
+  async import(
+    body: string,
+    format: UserFileFormat,
+    dryRun: boolean = false,
+  ): Promise<ImportUsersReportDto> {
+    const records = this.parseRecords(body, format);
+    if (records.length === 0) {
+      throw new BadRequestException('The import does not contain any records');
+    }
+
+    const rows: ImportUserRowResultDto[] = [];
+    const validRecords: ValidRecord[] = [];
+    const rowsByEmail = new Map<string, number>();
+
+    for (const { row, record, error } of records) {
+      if (!record) {
+        rows.push(this.rejected(row, [error ?? 'Invalid record']));
+        continue;
+      }
+
+      const dto = plainToInstance(CreateUserDto, record);
+      const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      if (errors.length > 0) {
+        rows.push(this.rejected(row, this.formatErrors(errors), dto.email));
+        continue;
+      }
+
+      const firstRow = rowsByEmail.get(dto.email);
+      if (firstRow !== undefined) {
+        rows.push(
+          this.rejected(
+            row,
+            [`email already appears in row ${firstRow}`],
+            dto.email,
+          ),
+        );
+        continue;
+      }
+
+      rowsByEmail.set(dto.email, row);
+      validRecords.push({ row, dto });
+    }
+
+    for (let i = 0; i < validRecords.length; i += IMPORT_BATCH_SIZE) {
+      const batch = validRecords.slice(i, i + IMPORT_BATCH_SIZE);
+      try {
+        rows.push(...(await this.upsertBatch(batch, dryRun)));
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Failed to import batch: ${errorMessage}`);
+        rows.push(
+          ...batch.map(({ row, dto }) =>
+            this.rejected(row, [`Batch failed: ${errorMessage}`], dto.email),
+          ),
+        );
+      }
+    }
+
+    rows.sort((a, b) => a.row - b.row);
+    const count = (status: ImportRowStatus) =>
+      rows.filter((row) => row.status === status).length;
+
+    const report: ImportUsersReportDto = {
+      dryRun,
+      total: rows.length,
+      created: count(ImportRowStatus.CREATED),
+      updated: count(ImportRowStatus.UPDATED),
+      rejected: count(ImportRowStatus.REJECTED),
+      rows,
+    };
+
+    this.logger.log(
+      `${dryRun ? 'Dry-run import' : 'Imported'} ${report.total} user(s): ${report.created} created, ${report.updated} updated, ${report.rejected} rejected`,
+    );
+    return report;
+  }
+
+  /**
+   * Create or update the users of a batch in a single transaction
+   */
+  private async upsertBatch(
+    batch: ValidRecord[],
+    dryRun: boolean,
+  ): Promise<ImportUserRowResultDto[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const userRepository = manager.getRepository(User);
+      const existingUsers = await userRepository.find({
+        where: { email: In(batch.map(({ dto }) => dto.email)) },
+      });
+      const existingByEmail = new Map(
+        existingUsers.map((user) => [user.email, user]),
+      );
+
+      const results: ImportUserRowResultDto[] = [];
+      for (const { row, dto } of batch) {
+        const existing = existingByEmail.get(dto.email);
+        const { month, day } = getMonthDay(dto.birthday);
+        // Columns missing from the record keep the stored values
+        const fields = Object.fromEntries(
+          Object.entries({
+            ...dto,
+            birthdayMonth: month,
+            birthdayDay: day,
+          }).filter(([, value]) => value !== undefined),
+        ) as Partial<User>;
+        const user = existing
+          ? Object.assign(existing, fields)
+          : userRepository.create(fields);
+
+        // Checked on the merged user, which may already have a phone number
+        const unreachable = findUnreachableReason(user);
+        if (unreachable) {
+          results.push(this.rejected(row, [unreachable], dto.email));
+          continue;
+        }
+
+        if (!dryRun) {
+          await userRepository.save(user);
+          await this.occasionsService.syncProfileOccasions(user, manager);
+        }
+
+        results.push({
+          row,
+          email: dto.email,
+          status: existing ? ImportRowStatus.UPDATED : ImportRowStatus.CREATED,
+          userId: user.id,
+        });
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Parse the request body into records keyed by CreateUserDto property names
+   * Generated columns of an export are dropped, so exports can be imported
+   * @throws BadRequestException if the CSV cannot be parsed at all
+   */
+  private parseRecords(body: string, format: UserFileFormat): ParsedRecord[] {
+    if (format === UserFileFormat.NDJSON) {
+      return body
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== '')
+        .map((line, index) => this.parseJsonLine(line, index + 1));
+    }
+
+    let csvRows: string[][];
+    try {
+      csvRows = parseCsv(body);
+    } catch (error: unknown) {
+      throw new BadRequestException(
+        `Invalid CSV: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const [header = [], ...dataRows] = csvRows;
+    const columns = header.map((column) => column.trim());
+
+    return dataRows.map((fields, index) => {
+      const row = index + 1;
+      if (fields.length !== columns.length) {
+        return {
+          row,
+          error: `Expected ${columns.length} columns but found ${fields.length}`,
+        };
+      }
+
+      // Empty cells are treated as missing values so optional columns can be blank
+      const record: Record<string, unknown> = {};
+      for (const [i, column] of columns.entries()) {
+        const value = fields[i].trim();
+        if (value === '' || GENERATED_COLUMNS.includes(column)) {
+          continue;
+        }
+        if (!JSON_CSV_COLUMNS.includes(column)) {
+          record[column] = value;
+          continue;
+        }
+
+        try {
+          record[column] = JSON.parse(value);
+        } catch {
+          return { row, error: `${column} must be valid JSON` };
+        }
+      }
+      return { row, record };
+    });
+  }
+
+  private withoutGeneratedColumns(
+    record: Record<string, unknown>,
+  ): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(record).filter(
+        ([column]) => !GENERATED_COLUMNS.includes(column),
+      ),
+    );
+  }
+
+  private parseJsonLine(line: string, row: number): ParsedRecord {
+    try {
+      const record: unknown = JSON.parse(line);
+      if (
+        typeof record !== 'object' ||
+        record === null ||
+        Array.isArray(record)
+      ) {
+        return { row, error: 'Line must be a JSON object' };
+      }
+      return {
+        row,
+        record: this.withoutGeneratedColumns(record as Record<string, unknown>),
+      };
+    } catch {
+      return { row, error: 'Line is not valid JSON' };
+    }
+  }
+
+  private formatErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+  }
+
+  private rejected(
+    row: number,
+    errors: string[],
+    email?: string,
+  ): ImportUserRowResultDto {
+    return { row, email, status: ImportRowStatus.REJECTED, errors };
+  }
+}
@@ -9,16 +9,51 @@ import {
   HttpCode,
   HttpStatus,
   ParseUUIDPipe,
+  Headers,
+  Query,
+  UnsupportedMediaTypeException,
+  StreamableFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Readable } from 'stream';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiConsumes,
+  ApiBody,
+  ApiProduces,
+} from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { UsersImportService } from './users-import.service';
+import { UsersExportService } from './users-export.service';
 import { CreateUserDto, UpdateUserDto } from './dto/create-user.dto';
+import {
+  UserFileFormat,
+  ImportUsersQueryDto,
+  ImportUsersReportDto,
+} from './dto/import-users.dto';
+import { ExportUsersQueryDto } from './dto/export-users.dto';
+import { ListUsersQueryDto, PaginatedUsersDto } from './dto/list-users.dto';
 import { User } from './entities/user.entity';
 
+/**
+ * Content types accepted by the import endpoint and the format they map to
+ */
+export const IMPORT_CONTENT_TYPES: Record<string, UserFileFormat> = {
+  'text/csv': UserFileFormat.CSV,
+  'application/x-ndjson': UserFileFormat.NDJSON,
+  'application/jsonl': UserFileFormat.NDJSON,
+};
+
 @ApiTags('users')
 @Controller('user')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly usersImportService: UsersImportService,
+    private readonly usersExportService: UsersExportService,
+  ) {}
 
   /**
    * POST /user - Create a new user
@@ -38,13 +73,82 @@ export class UsersController {
   }
 
   /**
-   * GET /user - Get all users (for testing/admin purposes)
+   * POST /user/import - Create or update users in bulk from CSV or NDJSON
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import users from CSV or NDJSON',
+    description:
+      'Upserts users by email. CSV needs a header row with the CreateUserDto property names; NDJSON has one CreateUserDto object per line.',
+  })
+  @ApiConsumes(...Object.keys(IMPORT_CONTENT_TYPES))
+  @ApiBody({
+    schema: {
+      type: 'string',
+      example:
+        'firstName,lastName,email,birthday,timezone\nJohn,Doe,john.doe@example.com,1990-05-15,America/New_York',
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-row import report',
+    type: ImportUsersReportDto,
+  })
+  @ApiResponse({ status: 400, description: 'Malformed or empty import' })
+  @ApiResponse({ status: 415, description: 'Unsupported content type' })
+  async import(
+    @Body() body: string,
+    @Headers('content-type') contentType: string | undefined,
+    @Query() query: ImportUsersQueryDto,
+  ): Promise<ImportUsersReportDto> {
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase() ?? '';
+    const format = IMPORT_CONTENT_TYPES[mediaType];
+    if (!format || typeof body !== 'string') {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type must be one of: ${Object.keys(IMPORT_CONTENT_TYPES).join(', ')}`,
+      );
+    }
+
+    return this.usersImportService.import(body, format, query.dryRun);
+  }
+
+  /**
+   * GET /user - List users page by page with filters and sorting
    */
   @Get()
-  @ApiOperation({ summary: 'Get all users' })
-  @ApiResponse({ status: 200, description: 'List of all users', type: [User] })
-  async findAll(): Promise<User[]> {
-    return this.usersService.findAll();
+  @ApiOperation({ summary: 'List users' })
+  @ApiResponse({
+    status: 200,
+    description: 'A page of users',
+    type: PaginatedUsersDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  async findAll(@Query() query: ListUsersQueryDto): Promise<PaginatedUsersDto> {
+    return this.usersService.findAll(query);
+  }
+
+  /**
+   * GET /user/export - Stream all users as CSV or NDJSON
+   */
+  @Get('export')
+  @ApiOperation({ summary: 'Export all users as CSV or NDJSON' })
+  @ApiProduces('text/csv', 'application/x-ndjson')
+  @ApiResponse({ status: 200, description: 'Streamed export file' })
+  export(@Query() query: ExportUsersQueryDto): StreamableFile {
+    const format = query.format ?? UserFileFormat.CSV;
+    const lines = this.usersExportService.export(
+      format,
+      query.includeLastMessage,
+    );
+
+    return new StreamableFile(Readable.from(lines), {
+      type:
+        format === UserFileFormat.CSV
+          ? 'text/csv; charset=utf-8'
+          : 'application/x-ndjson; charset=utf-8',
+      disposition: `attachment; filename="users.${format}"`,
+    });
   }
 
   /**
@@ -2,12 +2,23 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { UsersImportService } from './users-import.service';
+import { UsersExportService } from './users-export.service';
+import { UnsubscribeController } from './unsubscribe.controller';
+import { UnsubscribeTokenService } from './unsubscribe-token.service';
 import { User } from './entities/user.entity';
+import { BirthdayMessage } from '../birthday/entities/birthday-message.entity';
+import { OccasionsModule } from '../occasions/occasions.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
-  controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  imports: [TypeOrmModule.forFeature([User, BirthdayMessage]), OccasionsModule],
+  controllers: [UsersController, UnsubscribeController],
+  providers: [
+    UsersService,
+    UsersImportService,
+    UsersExportService,
+    UnsubscribeTokenService,
+  ],
+  exports: [UsersService, UnsubscribeTokenService],
 })
 export class UsersModule {}
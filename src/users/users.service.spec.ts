@@ -2,7 +2,15 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { UsersService } from './users.service';
 import { User } from './entities/user.entity';
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import { OccasionsService } from '../occasions/occasions.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SortOrder, UserSortField } from './dto/list-users.dto';
+import { decodeCursor, encodeCursor } from '../common/pagination';
+import { NotificationChannelType } from '../notifications/notification-channel';
 
 describe('UsersService', () => {
   let service: UsersService;
@@ -12,7 +20,7 @@ describe('UsersService', () => {
     firstName: 'John',
     lastName: 'Doe',
     email: 'john.doe@example.com',
-    birthday: new Date('1990-05-15'),
+    birthday: '1990-05-15',
     birthdayMonth: 5,
     birthdayDay: 15,
     timezone: 'America/New_York',
@@ -29,6 +37,10 @@ describe('UsersService', () => {
     createQueryBuilder: jest.fn(),
   };
 
+  const mockOccasionsService = {
+    syncProfileOccasions: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -37,6 +49,10 @@ describe('UsersService', () => {
           provide: getRepositoryToken(User),
           useValue: mockRepository,
         },
+        {
+          provide: OccasionsService,
+          useValue: mockOccasionsService,
+        },
       ],
     }).compile();
 
@@ -66,10 +82,48 @@ describe('UsersService', () => {
       expect(result).toEqual(mockUser);
       expect(mockRepository.create).toHaveBeenCalledWith({
         ...createUserDto,
-        birthday: expect.any(Date) as Date,
         birthdayMonth: 5,
         birthdayDay: 15,
       });
+      expect(mockOccasionsService.syncProfileOccasions).toHaveBeenCalledWith(
+        mockUser,
+      );
+    });
+
+    it('should store the start date used for anniversaries', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockUser);
+      mockRepository.save.mockResolvedValue(mockUser);
+
+      await service.create({ ...createUserDto, startDate: '2018-03-01' });
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          startDate: '2018-03-01',
+        }),
+      );
+    });
+
+    it('should derive month and day independently of the server timezone', async () => {
+      const originalTimezone = process.env.TZ;
+      process.env.TZ = 'America/Los_Angeles';
+      mockRepository.findOne.mockResolvedValue(null);
+      mockRepository.create.mockReturnValue(mockUser);
+      mockRepository.save.mockResolvedValue(mockUser);
+
+      try {
+        await service.create({ ...createUserDto, birthday: '1990-01-01' });
+      } finally {
+        process.env.TZ = originalTimezone;
+      }
+
+      expect(mockRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          birthday: '1990-01-01',
+          birthdayMonth: 1,
+          birthdayDay: 1,
+        }),
+      );
     });
 
     it('should throw ConflictException if email already exists', async () => {
@@ -82,13 +136,139 @@ describe('UsersService', () => {
   });
 
   describe('findAll', () => {
-    it('should return an array of users', async () => {
-      mockRepository.find.mockResolvedValue([mockUser as User]);
+    const createQueryBuilderMock = (users: Partial<User>[]) => ({
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue(users),
+    });
+
+    const createUsers = (count: number): Partial<User>[] =>
+      Array.from({ length: count }, (_, i) => ({
+        ...mockUser,
+        id: `user-${i}`,
+        email: `user-${i}@example.com`,
+      }));
+
+    it('should return the first page with a cursor to the next one', async () => {
+      const queryBuilder = createQueryBuilderMock(createUsers(3));
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      const result = await service.findAll({
+        limit: 2,
+        sortBy: UserSortField.EMAIL,
+      });
+
+      expect(result.data.map((user) => user.id)).toEqual(['user-0', 'user-1']);
+      expect(result.hasMore).toBe(true);
+      expect(decodeCursor(result.nextCursor!)).toEqual({
+        sortBy: UserSortField.EMAIL,
+        value: 'user-1@example.com',
+        id: 'user-1',
+      });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('user.email', 'ASC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('user.id', 'ASC');
+      expect(queryBuilder.limit).toHaveBeenCalledWith(3);
+    });
+
+    it('should return no cursor on the last page', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock(createUsers(1)),
+      );
 
       const result = await service.findAll();
 
-      expect(result).toEqual([mockUser]);
-      expect(mockRepository.find).toHaveBeenCalled();
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should apply filters', async () => {
+      const queryBuilder = createQueryBuilderMock([]);
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+      await service.findAll({
+        timezone: 'Asia/Jakarta',
+        birthdayMonth: 5,
+        search: '50%_doe',
+        createdAfter: '2024-01-01T00:00:00Z',
+      });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'user.timezone = :timezone',
+        { timezone: 'Asia/Jakarta' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'user.birthdayMonth = :birthdayMonth',
+        { birthdayMonth: 5 },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('user.email ILIKE :search'),
+        { search: '%50\\%\\_doe%' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'user.createdAt > :createdAfter',
+        { createdAfter: new Date('2024-01-01T00:00:00Z') },
+      );
+    });
+
+    it('should continue after the cursor in descending order', async () => {
+      const queryBuilder = createQueryBuilderMock([]);
+      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+      const cursor = encodeCursor({
+        sortBy: UserSortField.CREATED_AT,
+        value: '2024-01-01T00:00:00.000Z',
+        id: '123e4567-e89b-12d3-a456-426614174001',
+      });
+
+      await service.findAll({ cursor, sortOrder: SortOrder.DESC });
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('user.id < :cursorId'),
+        {
+          cursorValue: new Date('2024-01-01T00:00:00.000Z'),
+          cursorId: '123e4567-e89b-12d3-a456-426614174001',
+        },
+      );
+    });
+
+    it('should reject a cursor created for another sort order', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+      const cursor = encodeCursor({
+        sortBy: UserSortField.EMAIL,
+        value: 'a@example.com',
+        id: 'user-1',
+      });
+
+      await expect(
+        service.findAll({ cursor, sortBy: UserSortField.LAST_NAME }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(service.findAll({ cursor: 'not-a-cursor' })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject a cursor with tampered values', async () => {
+      mockRepository.createQueryBuilder.mockReturnValue(
+        createQueryBuilderMock([]),
+      );
+      const tampered = [
+        { value: 'yesterday', id: '123e4567-e89b-12d3-a456-426614174001' },
+        { value: '2024-01-01T00:00:00.000Z', id: "1' OR '1'='1" },
+        { value: 42, id: '123e4567-e89b-12d3-a456-426614174001' },
+      ];
+
+      for (const position of tampered) {
+        const cursor = encodeCursor({
+          sortBy: UserSortField.CREATED_AT,
+          ...position,
+        });
+        await expect(service.findAll({ cursor })).rejects.toThrow(
+          'Invalid cursor',
+        );
+      }
     });
   });
 
@@ -133,6 +313,40 @@ describe('UsersService', () => {
       await service.update(mockUser.id!, updateDtoWithBirthday);
 
       expect(mockRepository.save).toHaveBeenCalled();
+      expect(mockOccasionsService.syncProfileOccasions).toHaveBeenCalledWith(
+        expect.objectContaining({ birthdayMonth: 12, birthdayDay: 25 }),
+      );
+    });
+
+    it('should reject SMS notifications without a phone number', async () => {
+      mockRepository.findOne.mockResolvedValue({ ...mockUser } as User);
+
+      await expect(
+        service.update(mockUser.id!, {
+          notificationChannels: [
+            NotificationChannelType.EMAIL,
+            NotificationChannelType.SMS,
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should merge subscription flags into the current ones', async () => {
+      mockRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        subscriptions: { birthday: false },
+      } as User);
+      mockRepository.save.mockImplementation((user) => Promise.resolve(user));
+
+      const result = await service.update(mockUser.id!, {
+        subscriptions: { anniversary: false },
+      });
+
+      expect(result.subscriptions).toEqual({
+        birthday: false,
+        anniversary: false,
+      });
     });
 
     it('should throw NotFoundException if user not found', async () => {
@@ -144,6 +358,34 @@ describe('UsersService', () => {
     });
   });
 
+  describe('unsubscribe', () => {
+    beforeEach(() => {
+      mockRepository.findOne.mockResolvedValue({
+        ...mockUser,
+        optedOut: false,
+        subscriptions: { birthday: true },
+      } as User);
+      mockRepository.save.mockImplementation((user) => Promise.resolve(user));
+    });
+
+    it('should opt the user out of one message type', async () => {
+      const result = await service.unsubscribe(mockUser.id!, 'anniversary');
+
+      expect(result.optedOut).toBe(false);
+      expect(result.subscriptions).toEqual({
+        birthday: true,
+        anniversary: false,
+      });
+    });
+
+    it('should opt the user out of all messages without a type', async () => {
+      const result = await service.unsubscribe(mockUser.id!, null);
+
+      expect(result.optedOut).toBe(true);
+      expect(result.subscriptions).toEqual({ birthday: true });
+    });
+  });
+
   describe('remove', () => {
     it('should remove a user successfully', async () => {
       mockRepository.findOne.mockResolvedValue(mockUser as User);
@@ -162,31 +404,4 @@ describe('UsersService', () => {
       );
     });
   });
-
-  describe('findUsersWithBirthdayInTimezones', () => {
-    it('should return empty array if no timezones provided', async () => {
-      const result = await service.findUsersWithBirthdayInTimezones(5, 15, []);
-
-      expect(result).toEqual([]);
-    });
-
-    it('should query users with matching birthday and timezone', async () => {
-      const queryBuilder = {
-        where: jest.fn().mockReturnThis(),
-        andWhere: jest.fn().mockReturnThis(),
-        getMany: jest.fn().mockResolvedValue([mockUser]),
-      };
-      mockRepository.createQueryBuilder.mockReturnValue(queryBuilder as any);
-
-      const result = await service.findUsersWithBirthdayInTimezones(5, 15, [
-        'America/New_York',
-      ]);
-
-      expect(result).toEqual([mockUser]);
-      expect(queryBuilder.where).toHaveBeenCalledWith(
-        'user.birthdayMonth = :month',
-        { month: 5 },
-      );
-    });
-  });
 });
@@ -2,12 +2,43 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { User } from './entities/user.entity';
 import { CreateUserDto, UpdateUserDto } from './dto/create-user.dto';
+import { OccasionsService } from '../occasions/occasions.service';
+import { getMonthDay, isLocalDate } from '../common/local-date';
+import {
+  ListUsersQueryDto,
+  PaginatedUsersDto,
+  SortOrder,
+  UserSortField,
+} from './dto/list-users.dto';
+import { DEFAULT_PAGE_SIZE } from '../common/dto/pagination-query.dto';
+import {
+  PageCursor,
+  decodePageCursor,
+  encodeCursor,
+  parseCursorDate,
+} from '../common/pagination';
+import { findUnreachableReason } from './reachability';
+
+// Sort expressions; timestamps are truncated to the millisecond precision of cursors
+const SORT_EXPRESSIONS: Record<UserSortField, string> = {
+  [UserSortField.CREATED_AT]: "date_trunc('milliseconds', user.createdAt)",
+  [UserSortField.EMAIL]: 'user.email',
+  [UserSortField.LAST_NAME]: 'user.lastName',
+  [UserSortField.BIRTHDAY]: 'user.birthday',
+};
+
+interface UserCursor {
+  sortBy: UserSortField;
+  value: string;
+  id: string;
+}
 
 @Injectable()
 export class UsersService {
@@ -16,6 +47,7 @@ export class UsersService {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly occasionsService: OccasionsService,
   ) {}
 
   /**
@@ -31,29 +63,97 @@ export class UsersService {
       throw new ConflictException('User with this email already exists');
     }
 
-    // Parse birthday to extract month and day for indexing
-    const birthdayDate = new Date(createUserDto.birthday);
-    const birthdayMonth = birthdayDate.getMonth() + 1; // getMonth() is 0-indexed
-    const birthdayDay = birthdayDate.getDate();
+    // Derive month and day for indexing from the local date, never via Date
+    const { month: birthdayMonth, day: birthdayDay } = getMonthDay(
+      createUserDto.birthday,
+    );
 
     const user = this.userRepository.create({
       ...createUserDto,
-      birthday: birthdayDate,
       birthdayMonth,
       birthdayDay,
     });
+    this.assertReachable(user);
 
     const savedUser = await this.userRepository.save(user);
+    await this.occasionsService.syncProfileOccasions(savedUser);
     this.logger.log(`Created user: ${savedUser.id} - ${savedUser.email}`);
 
     return savedUser;
   }
 
   /**
-   * Find all users
+   * Find a page of users matching the filters
+   * Uses keyset pagination on the sort column and ID, so pages stay stable and
+   * fast regardless of how deep the client pages
    */
-  async findAll(): Promise<User[]> {
-    return this.userRepository.find();
+  async findAll(query: ListUsersQueryDto = {}): Promise<PaginatedUsersDto> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const sortBy = query.sortBy ?? UserSortField.CREATED_AT;
+    const order = query.sortOrder === SortOrder.DESC ? 'DESC' : 'ASC';
+    const sortExpression = SORT_EXPRESSIONS[sortBy];
+
+    const queryBuilder = this.userRepository.createQueryBuilder('user');
+
+    if (query.timezone) {
+      queryBuilder.andWhere('user.timezone = :timezone', {
+        timezone: query.timezone,
+      });
+    }
+
+    if (query.birthdayMonth) {
+      queryBuilder.andWhere('user.birthdayMonth = :birthdayMonth', {
+        birthdayMonth: query.birthdayMonth,
+      });
+    }
+
+    if (query.search) {
+      queryBuilder.andWhere(
+        '(user.email ILIKE :search OR user.firstName ILIKE :search OR user.lastName ILIKE :search)',
+        { search: `%${query.search.replace(/[\\%_]/g, '\\$&')}%` },
+      );
+    }
+
+    if (query.createdAfter) {
+      queryBuilder.andWhere('user.createdAt > :createdAfter', {
+        createdAfter: new Date(query.createdAfter),
+      });
+    }
+
+    if (query.cursor) {
+      const cursor = this.decodeUserCursor(query.cursor, sortBy);
+      const operator = order === 'ASC' ? '>' : '<';
+      queryBuilder.andWhere(
+        `(${sortExpression} ${operator} :cursorValue OR (${sortExpression} = :cursorValue AND user.id ${operator} :cursorId))`,
+        { cursorValue: cursor.value, cursorId: cursor.id },
+      );
+    }
+
+    // Fetch one extra user to know whether there is a next page
+    const users = await queryBuilder
+      .orderBy(sortExpression, order)
+      .addOrderBy('user.id', order)
+      .limit(limit + 1)
+      .getMany();
+
+    const hasMore = users.length > limit;
+    const data = users.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      hasMore,
+      nextCursor: hasMore
+        ? encodeCursor({
+            sortBy,
+            value:
+              sortBy === UserSortField.CREATED_AT
+                ? last.createdAt.toISOString()
+                : String(last[sortBy]),
+            id: last.id,
+          } satisfies UserCursor)
+        : null,
+    };
   }
 
   /**
@@ -83,20 +183,27 @@ export class UsersService {
       }
     }
 
+    const previousSubscriptions = user.subscriptions;
+    Object.assign(user, updateUserDto);
+    this.assertReachable(user);
+
+    // Subscription flags are merged, so one type can be changed on its own
+    if (updateUserDto.subscriptions) {
+      user.subscriptions = {
+        ...previousSubscriptions,
+        ...updateUserDto.subscriptions,
+      };
+    }
+
     // If birthday is being updated, recalculate month and day
     if (updateUserDto.birthday) {
-      const birthdayDate = new Date(updateUserDto.birthday);
-      Object.assign(user, {
-        ...updateUserDto,
-        birthday: birthdayDate,
-        birthdayMonth: birthdayDate.getMonth() + 1,
-        birthdayDay: birthdayDate.getDate(),
-      });
-    } else {
-      Object.assign(user, updateUserDto);
+      const { month, day } = getMonthDay(updateUserDto.birthday);
+      user.birthdayMonth = month;
+      user.birthdayDay = day;
     }
 
     const updatedUser = await this.userRepository.save(user);
+    await this.occasionsService.syncProfileOccasions(updatedUser);
     this.logger.log(`Updated user: ${updatedUser.id}`);
 
     return updatedUser;
@@ -112,23 +219,56 @@ export class UsersService {
   }
 
   /**
-   * Find users with birthday on a specific month/day in given timezones
-   * This is used by the birthday scheduler to find users to message
+   * Opt a user out of one message type, or of all messages without a type
    */
-  async findUsersWithBirthdayInTimezones(
-    month: number,
-    day: number,
-    timezones: string[],
-  ): Promise<User[]> {
-    if (timezones.length === 0) {
-      return [];
+  async unsubscribe(id: string, messageType: string | null): Promise<User> {
+    const user = await this.findOne(id);
+
+    if (messageType) {
+      user.subscriptions = { ...user.subscriptions, [messageType]: false };
+    } else {
+      user.optedOut = true;
     }
 
-    return this.userRepository
-      .createQueryBuilder('user')
-      .where('user.birthdayMonth = :month', { month })
-      .andWhere('user.birthdayDay = :day', { day })
-      .andWhere('user.timezone IN (:...timezones)', { timezones })
-      .getMany();
+    const updatedUser = await this.userRepository.save(user);
+    this.logger.log(
+      `User ${id} unsubscribed from ${messageType ?? 'all'} messages`,
+    );
+
+    return updatedUser;
+  }
+
+  /**
+   * Decode a cursor of findAll into query parameters
+   * Tampered cursors are rejected before their values reach the database
+   */
+  private decodeUserCursor(
+    encoded: string,
+    sortBy: UserSortField,
+  ): PageCursor<string | Date> {
+    return decodePageCursor(encoded, (position) => {
+      if (position.sortBy !== sortBy) {
+        throw new BadRequestException(
+          'cursor was created for a different sort order',
+        );
+      }
+      if (sortBy === UserSortField.CREATED_AT) {
+        return parseCursorDate(position.value);
+      }
+      if (sortBy === UserSortField.BIRTHDAY) {
+        return isLocalDate(position.value) ? position.value : null;
+      }
+      return typeof position.value === 'string' ? position.value : null;
+    });
+  }
+
+  /**
+   * Reject channels the user could not be reached on
+   */
+  private assertReachable(user: User): void {
+    const reason = findUnreachableReason(user);
+    if (reason) {
+      throw new BadRequestException(reason);
+    }
   }
 }
@@ -80,12 +80,15 @@ describe('App E2E Tests', () => {
   });
 
   describe('/user (GET)', () => {
-    it('should return list of users', () => {
+    it('should return a page of users', () => {
       return request(app.getHttpServer())
         .get('/user')
         .expect(200)
         .expect((res) => {
-          expect(Array.isArray(res.body)).toBe(true);
+          const body = res.body as Record<string, unknown>;
+          expect(Array.isArray(body.data)).toBe(true);
+          expect(body).toHaveProperty('nextCursor');
+          expect(body).toHaveProperty('hasMore');
         });
     });
   });